@@ -0,0 +1,139 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Fee backfill script
+ *
+ * Rebuilds the fee ledger from the fee wallet's on-chain history, from a
+ * start date or slot up to now. Backfilled events are recorded as already
+ * processed, so rebuilding history on a new host never credits old fees as
+ * spendable again. History newer than the live watcher's cursor is left for
+ * the watcher to credit. Progress is stored in the ledger after every page;
+ * if the run is interrupted, start it again with the same arguments to resume.
+ * Stop the bot while backfilling: both write the same ledger file.
+ *
+ * Usage:
+ *   npm run fees:backfill -- --since 2024-05-01
+ *   npm run fees:backfill -- --slot 265000000
+ */
+
+import { Connection } from "@solana/web3.js";
+import { ConfigManager } from "../src/config/manager";
+import { createFeeLedger } from "../src/services/fee-ledger";
+import { FeeHistoryBound, WalletWatcherFeeSource } from "../src/services/fee-sources";
+import { BACKFILL_CURSOR, backfillFeeHistory } from "../src/services/fee-sources/backfill";
+import { FeeClassifier } from "../src/services/fee-sources/classifier";
+import { FeeEvent } from "../src/types";
+import { lamportsToSol } from "../src/utils/amounts";
+import { createLogger } from "../src/utils/logger";
+
+function parseArgs(argv: string[]): FeeHistoryBound {
+  const since = argv.indexOf("--since");
+  const slot = argv.indexOf("--slot");
+
+  if (since !== -1 && argv[since + 1]) {
+    const timestamp = Date.parse(`${argv[since + 1]}T00:00:00Z`);
+    if (Number.isNaN(timestamp)) {
+      throw new Error(`Invalid --since date: ${argv[since + 1]} (expected YYYY-MM-DD)`);
+    }
+    return { timestamp: Math.floor(timestamp / 1000) };
+  }
+
+  if (slot !== -1 && argv[slot + 1]) {
+    const value = parseInt(argv[slot + 1], 10);
+    if (Number.isNaN(value) || value < 0) {
+      throw new Error(`Invalid --slot: ${argv[slot + 1]}`);
+    }
+    return { slot: value };
+  }
+
+  throw new Error("Usage: backfill-fees --since YYYY-MM-DD | --slot N");
+}
+
+function printDailySummary(events: FeeEvent[]): void {
+  const days = new Map<string, { count: number; creator: bigint; other: bigint }>();
+
+  for (const event of events) {
+    const day = new Date(event.timestamp * 1000).toISOString().slice(0, 10);
+    const entry = days.get(day) || { count: 0, creator: 0n, other: 0n };
+    entry.count++;
+    if ((event.category ?? "creator-fee") === "creator-fee" && !event.reverted) {
+      entry.creator += event.amountLamports;
+    } else {
+      entry.other += event.amountLamports;
+    }
+    days.set(day, entry);
+  }
+
+  console.log("\n📅 Fees per day (UTC):");
+  console.log("  Date         Inflows  Creator fees (SOL)  Other (SOL)");
+
+  let total = 0n;
+  for (const day of Array.from(days.keys()).sort()) {
+    const entry = days.get(day)!;
+    total += entry.creator;
+    const creatorSol = lamportsToSol(entry.creator).toFixed(4);
+    const otherSol = lamportsToSol(entry.other).toFixed(4);
+    console.log(
+      `  ${day}  ${String(entry.count).padStart(7)}  ${creatorSol.padStart(18)}` +
+        `  ${otherSol.padStart(11)}`
+    );
+  }
+
+  const totalSol = lamportsToSol(total).toFixed(4);
+  console.log(`\n  Total creator fees: ${totalSol} SOL over ${days.size} day(s)`);
+}
+
+async function main() {
+  console.log("🧊 ICE Fee Backfill\n");
+
+  try {
+    const bound = parseArgs(process.argv.slice(2));
+    const logger = createLogger("info");
+    const config = new ConfigManager(logger).load();
+    const connection = new Connection(config.solanaRpcUrl, "confirmed");
+    const ledger = createFeeLedger(config.dataDir, logger);
+
+    const watcher = new WalletWatcherFeeSource(
+      connection,
+      config.iceCreatorFeeWallet,
+      logger,
+      0,
+      config.feeConfirmationDepth
+    );
+
+    // Same rules as the live collector, so the summary matches what it would credit
+    const botWallet = config.botKeypair ? [config.botKeypair.publicKey.toBase58()] : [];
+    const classifier = new FeeClassifier({
+      ...config.feeClassification,
+      internalSenders: [...config.feeClassification.internalSenders, ...botWallet],
+    });
+
+    const resumeFrom = ledger.getCursors()[BACKFILL_CURSOR];
+    if (resumeFrom) {
+      console.log(`Resuming backfill before ${resumeFrom}`);
+    }
+
+    const { pages, added } = await backfillFeeHistory(
+      watcher,
+      ledger,
+      classifier,
+      bound,
+      (page, inflows, addedSoFar) => {
+        console.log(`  Page ${page}: ${inflows} inflow(s), ${addedSoFar} new in ledger`);
+      }
+    );
+
+    const since = bound.timestamp;
+    const history = ledger
+      .getEvents()
+      .filter((event) => since === undefined || event.timestamp >= since);
+    printDailySummary(history);
+
+    console.log(`\n✅ Backfill completed: ${added} event(s) added from ${pages} page(s)`);
+  } catch (error) {
+    console.error("❌ Error:", error);
+    process.exit(1);
+  }
+}
+
+main().catch(console.error);
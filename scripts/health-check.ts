@@ -23,6 +23,7 @@ async function main() {
 
     console.log("\n💰 Fee Tracker:");
     console.log(`  Total Collected (SOL): ${state.feeTracker.totalCollected.toFixed(4)}`);
+    console.log(`  Pending (SOL): ${state.feeTracker.pending.toFixed(4)}`);
     console.log(`  Events Tracked: ${state.feeTracker.eventCount}`);
 
     console.log("\n✅ Protocol is operational");
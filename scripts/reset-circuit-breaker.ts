@@ -0,0 +1,43 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Circuit breaker reset script
+ *
+ * A tripped circuit breaker is saved with the executor state and survives
+ * restarts, so the bot keeps skipping epochs until an operator clears it.
+ * Investigate the failures that tripped it first. Stop the bot before
+ * resetting: both write the same state file.
+ *
+ * Usage:
+ *   npm run breaker:reset
+ */
+
+import { ConfigManager } from "../src/config/manager";
+import { createStateStore } from "../src/services/state";
+import { createLogger } from "../src/utils/logger";
+
+async function main() {
+  console.log("🧊 ICE Circuit Breaker Reset\n");
+
+  try {
+    const logger = createLogger("info");
+    const config = new ConfigManager(logger).load();
+    const store = createStateStore(config.dataDir, logger);
+
+    const state = store.getExecutorState();
+    console.log(`  Epoch:                ${state.epochNumber}`);
+    console.log(`  Consecutive failures: ${state.consecutiveFailures}`);
+
+    if (!store.resetCircuitBreaker()) {
+      console.log("\nCircuit breaker was not tripped; failure count cleared");
+      return;
+    }
+
+    console.log("\n✅ Circuit breaker reset; the bot will execute epochs on its next start");
+  } catch (error) {
+    console.error("❌ Error:", error);
+    process.exit(1);
+  }
+}
+
+main().catch(console.error);
@@ -3,7 +3,30 @@ import * as fs from "fs";
 import * as path from "path";
 import { PublicKey, Keypair } from "@solana/web3.js";
 import bs58 from "bs58";
-import { ProtocolConfig, ExecutorConfig, AllocationConfig, Logger } from "../types";
+import {
+  ProtocolConfig,
+  ExecutorConfig,
+  AllocationConfig,
+  BuybackExecutionMode,
+  CoolingConfig,
+  DexEngineType,
+  FeeApiConfig,
+  FeeClassificationRules,
+  FeeCompositeConfig,
+  FeeMockConfig,
+  FeeMockScenario,
+  FeeSourceType,
+  Logger,
+  LPEngineType,
+  OrcaConfig,
+  PriceOracleConfig,
+  PriceOracleType,
+  RaydiumConfig,
+  RouterConfig,
+  SimulatedPoolConfig,
+  TransactionCommitment,
+  TransactionConfig,
+} from "../types";
 
 dotenv.config();
 
@@ -41,20 +64,42 @@ export class ConfigManager {
       botKeypair: this.loadKeypair(),
 
       // Fee source
-      feeSource: this.getEnvString("FEE_SOURCE", "wallet-watcher") as
-        | "wallet-watcher"
-        | "api"
-        | "mock",
+      feeSource: this.getEnvString("FEE_SOURCE", "wallet-watcher") as FeeSourceType,
       feePollIntervalMs: this.getEnvNumber("FEE_POLL_INTERVAL_MS", 30000),
       feeConfirmationDepth: this.getEnvNumber("FEE_CONFIRMATION_DEPTH", 32),
+      feeDropTimeoutSeconds: this.getEnvNumber("FEE_DROP_TIMEOUT_SECONDS", 300),
+      feeStreamReconnectBaseMs: this.getEnvNumber("FEE_STREAM_RECONNECT_BASE_MS", 1000),
+      feeStreamReconnectMaxMs: this.getEnvNumber("FEE_STREAM_RECONNECT_MAX_MS", 30000),
+      feeApi: this.loadFeeApiConfig(),
+      feeComposite: this.loadFeeCompositeConfig(),
+      feeMock: this.loadFeeMockConfig(),
+      feeClassification: this.loadFeeClassificationRules(),
 
       // Executor
       executor: this.loadExecutorConfig(),
 
       // DEX
-      dexEngine: this.getEnvString("DEX_ENGINE", "mock") as "mock" | "raydium" | "orca",
+      dexEngine: this.getEnvString("DEX_ENGINE", "mock") as DexEngineType,
       maxSlippageBps: this.getEnvNumber("MAX_SLIPPAGE_BPS", 500),
       maxPriceImpactBps: this.getEnvNumber("MAX_PRICE_IMPACT_BPS", 1000),
+      raydium: this.loadRaydiumConfig(),
+      orca: this.loadOrcaConfig(),
+      aggregator: {
+        url: this.getEnvString("AGGREGATOR_API_URL", "https://quote-api.jup.ag/v6"),
+        timeoutMs: this.getEnvNumber("AGGREGATOR_TIMEOUT_MS", 10000),
+      },
+      router: {
+        venues: this.getEnvList(
+          "ROUTER_VENUES",
+          "raydium,orca,aggregator"
+        ) as RouterConfig["venues"],
+      },
+      simulatedPool: this.loadSimulatedPoolConfig(),
+      lpEngine: this.getEnvString("LP_ENGINE", "mock") as LPEngineType,
+      transactions: this.loadTransactionConfig(),
+
+      // Pricing
+      priceOracle: this.loadPriceOracleConfig(),
 
       // Ice Health
       iceHealthThreshold: this.getEnvNumber("ICE_HEALTH_THRESHOLD", 50),
@@ -75,6 +120,7 @@ export class ConfigManager {
         | "adaptive"
         | "fixed",
       allocationConfig: this.loadAllocationConfig(),
+      cooling: this.loadCoolingConfig(),
 
       // Logging
       logLevel: this.getEnvString("LOG_LEVEL", "info") as
@@ -84,6 +130,9 @@ export class ConfigManager {
         | "error",
       reportsDir: this.getEnvString("REPORTS_DIR", "./reports"),
 
+      // Persistence
+      dataDir: this.getEnvString("DATA_DIR", "./data"),
+
       // Simulation
       simulateMode: this.getEnvBool("SIMULATE_MODE", false),
     };
@@ -118,6 +167,131 @@ export class ConfigManager {
     throw new Error("Either BOT_KEYPAIR_B58 or BOT_KEYPAIR_FILE must be set");
   }
 
+  private loadFeeApiConfig(): FeeApiConfig {
+    return {
+      url: this.getEnvString("FEE_API_URL", ""),
+      authHeader: this.getEnvString("FEE_API_AUTH_HEADER", "Authorization"),
+      authToken: this.getEnvString("FEE_API_AUTH_TOKEN", ""),
+      timeoutMs: this.getEnvNumber("FEE_API_TIMEOUT_MS", 10000),
+      maxRetries: this.getEnvNumber("FEE_API_MAX_RETRIES", 3),
+      retryBaseMs: this.getEnvNumber("FEE_API_RETRY_BASE_MS", 500),
+      pageSize: this.getEnvNumber("FEE_API_PAGE_SIZE", 100),
+      mapping: {
+        recordsPath: this.getEnvString("FEE_API_RECORDS_PATH", "data"),
+        nextCursorPath: this.getEnvString("FEE_API_NEXT_CURSOR_PATH", "nextCursor"),
+        cursorParam: this.getEnvString("FEE_API_CURSOR_PARAM", "cursor"),
+        limitParam: this.getEnvString("FEE_API_LIMIT_PARAM", "limit"),
+        signatureField: this.getEnvString("FEE_API_SIGNATURE_FIELD", "signature"),
+        timestampField: this.getEnvString("FEE_API_TIMESTAMP_FIELD", "timestamp"),
+        amountField: this.getEnvString("FEE_API_AMOUNT_FIELD", "amount"),
+        amountUnit: this.getEnvString("FEE_API_AMOUNT_UNIT", "sol") as "sol" | "lamports",
+        statusField: this.getEnvString("FEE_API_STATUS_FIELD", "confirmationStatus"),
+      },
+    };
+  }
+
+  private loadFeeCompositeConfig(): FeeCompositeConfig {
+    return {
+      sources: this.getEnvList(
+        "FEE_COMPOSITE_SOURCES",
+        "wallet-watcher,api"
+      ) as FeeCompositeConfig["sources"],
+      quorum: this.getEnvNumber("FEE_COMPOSITE_QUORUM", 2),
+      toleranceBps: this.getEnvNumber("FEE_COMPOSITE_TOLERANCE_BPS", 10),
+      windowMs: this.getEnvNumber("FEE_COMPOSITE_WINDOW_MS", 600000),
+    };
+  }
+
+  private loadRaydiumConfig(): RaydiumConfig {
+    const poolId = this.getEnvString("RAYDIUM_POOL_ID", "");
+
+    return {
+      programId: new PublicKey(
+        this.getEnvString("RAYDIUM_AMM_PROGRAM_ID", "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8")
+      ),
+      poolId: poolId ? new PublicKey(poolId) : null,
+    };
+  }
+
+  private loadOrcaConfig(): OrcaConfig {
+    const whirlpoolId = this.getEnvString("ORCA_WHIRLPOOL_ID", "");
+
+    return {
+      programId: new PublicKey(
+        this.getEnvString(
+          "ORCA_WHIRLPOOL_PROGRAM_ID",
+          "whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc"
+        )
+      ),
+      whirlpoolId: whirlpoolId ? new PublicKey(whirlpoolId) : null,
+    };
+  }
+
+  private loadFeeMockConfig(): FeeMockConfig {
+    const seed = this.getEnvString("FEE_MOCK_SEED", "");
+
+    return {
+      scenario: this.getEnvString("FEE_MOCK_SCENARIO", "steady") as FeeMockScenario,
+      seed: seed ? parseInt(seed, 10) : null,
+      csvPath: this.getEnvString("FEE_MOCK_CSV", ""),
+      whaleDay: this.getEnvNumber("FEE_MOCK_WHALE_DAY", 1),
+    };
+  }
+
+  private loadTransactionConfig(): TransactionConfig {
+    return {
+      commitment: this.getEnvString("TX_COMMITMENT", "confirmed") as TransactionCommitment,
+      computeUnitLimit: this.getEnvNumber("TX_COMPUTE_UNIT_LIMIT", 400000),
+      priorityFeePercentile: this.getEnvNumber("TX_PRIORITY_FEE_PERCENTILE", 75),
+      minPriorityFeeMicroLamports: this.getEnvNumber("TX_MIN_PRIORITY_FEE_MICROLAMPORTS", 0),
+      maxPriorityFeeMicroLamports: this.getEnvNumber("TX_MAX_PRIORITY_FEE_MICROLAMPORTS", 1000000),
+      maxAttempts: this.getEnvNumber("TX_MAX_ATTEMPTS", 3),
+      confirmPollMs: this.getEnvNumber("TX_CONFIRM_POLL_MS", 2000),
+      useVersionedTransactions: this.getEnvBool("USE_VERSIONED_TRANSACTIONS", false),
+    };
+  }
+
+  private loadPriceOracleConfig(): PriceOracleConfig {
+    return {
+      type: this.getEnvString("PRICE_ORACLE", "pool") as PriceOracleType,
+      twapSource: this.getEnvString("PRICE_TWAP_SOURCE", "pool") as PriceOracleConfig["twapSource"],
+      twapWindowSeconds: this.getEnvNumber("PRICE_TWAP_WINDOW_SECONDS", 3600),
+      maxStalenessSeconds: this.getEnvNumber("PRICE_MAX_STALENESS_SECONDS", 300),
+      maxConfidenceBps: this.getEnvNumber("PRICE_MAX_CONFIDENCE_BPS", 500),
+      feed: {
+        url: this.getEnvString("PRICE_FEED_URL", ""),
+        pricePath: this.getEnvString("PRICE_FEED_PRICE_PATH", "price"),
+        timestampPath: this.getEnvString("PRICE_FEED_TIMESTAMP_PATH", "timestamp"),
+        confidencePath: this.getEnvString("PRICE_FEED_CONFIDENCE_PATH", ""),
+        timeoutMs: this.getEnvNumber("PRICE_FEED_TIMEOUT_MS", 5000),
+      },
+    };
+  }
+
+  private loadSimulatedPoolConfig(): SimulatedPoolConfig {
+    const seed = this.getEnvString("SIM_POOL_SEED", "");
+
+    return {
+      solReserve: this.getEnvNumber("SIM_POOL_SOL_RESERVE", 85),
+      tokenReserve: this.getEnvNumber("SIM_POOL_TOKEN_RESERVE", 206_900_000),
+      tokenDecimals: this.getEnvNumber("SIM_POOL_TOKEN_DECIMALS", 6),
+      tokenSupply: this.getEnvNumber("SIM_POOL_TOKEN_SUPPLY", 1_000_000_000),
+      feeBps: this.getEnvNumber("SIM_POOL_FEE_BPS", 25),
+      externalTradesPerEpoch: this.getEnvNumber("SIM_POOL_EXTERNAL_TRADES", 0),
+      externalTradeMaxSol: this.getEnvNumber("SIM_POOL_EXTERNAL_TRADE_MAX_SOL", 1),
+      seed: seed ? parseInt(seed, 10) : null,
+    };
+  }
+
+  private loadFeeClassificationRules(): FeeClassificationRules {
+    return {
+      creatorFeeProgramIds: this.getEnvList("FEE_CREATOR_PROGRAM_IDS"),
+      internalSenders: this.getEnvList("FEE_INTERNAL_SENDERS"),
+      ignoredSenders: this.getEnvList("FEE_IGNORED_SENDERS"),
+      minAmountSol: this.getEnvNumber("FEE_MIN_AMOUNT_SOL", 0.001),
+    };
+  }
+
   private loadExecutorConfig(): ExecutorConfig {
     return {
       mode: this.getEnvString("EXECUTOR_MODE", "dry-run") as "dry-run" | "live",
@@ -127,6 +301,10 @@ export class ConfigManager {
       maxConsecutiveFailures: this.getEnvNumber("MAX_CONSECUTIVE_FAILURES", 5),
       minBalanceToOperateSol: this.getEnvNumber("MIN_BALANCE_TO_OPERATE_SOL", 0.5),
       driftToleranceBps: this.getEnvNumber("DRIFT_TOLERANCE_BPS", 50),
+      buybackExecution: this.getEnvString("BUYBACK_EXECUTION", "single") as BuybackExecutionMode,
+      buybackSlices: this.getEnvNumber("BUYBACK_SLICES", 4),
+      buybackTargetImpactBps: this.getEnvNumber("BUYBACK_TARGET_IMPACT_BPS", 50),
+      buybackMaxSlices: this.getEnvNumber("BUYBACK_MAX_SLICES", 12),
     };
   }
 
@@ -139,6 +317,19 @@ export class ConfigManager {
     };
   }
 
+  /**
+   * COOLING_RECIPIENTS lists `address:weight` entries; the weight defaults to 1
+   */
+  private loadCoolingConfig(): CoolingConfig {
+    return {
+      recipients: this.getEnvList("COOLING_RECIPIENTS").map((entry) => {
+        const [address, weight] = entry.split(":").map((part) => part.trim());
+        return { address: new PublicKey(address), weight: weight ? parseFloat(weight) : 1 };
+      }),
+      memoPurpose: this.getEnvString("COOLING_MEMO_PURPOSE", "marketing"),
+    };
+  }
+
   private validateConfig(config: ProtocolConfig): void {
     const weights = config.iceHealthWeights;
     const totalWeight =
@@ -163,6 +354,120 @@ export class ConfigManager {
       );
     }
 
+    if (config.cooling.recipients.some((recipient) => !(recipient.weight > 0))) {
+      throw new Error("COOLING_RECIPIENTS weights must be positive numbers");
+    }
+    if (alloc.coolingPct > 0 && config.cooling.recipients.length === 0) {
+      throw new Error("COOLING_RECIPIENTS must be set when ALLOCATION_COOLING_PCT is above 0");
+    }
+
+    if (config.feeSource === "api" && !config.feeApi.url) {
+      throw new Error("FEE_API_URL must be set when FEE_SOURCE=api");
+    }
+
+    if (config.feeSource === "composite") {
+      const composite = config.feeComposite;
+      if ((composite.sources as string[]).includes("composite")) {
+        throw new Error("FEE_COMPOSITE_SOURCES cannot include composite");
+      }
+      if (composite.quorum < 1 || composite.quorum > composite.sources.length) {
+        throw new Error(
+          `FEE_COMPOSITE_QUORUM must be between 1 and ${composite.sources.length}, got ${composite.quorum}`
+        );
+      }
+      if (composite.sources.includes("api") && !config.feeApi.url) {
+        throw new Error("FEE_API_URL must be set when FEE_COMPOSITE_SOURCES includes api");
+      }
+    }
+
+    const mockScenarios = ["steady", "bursty", "drought", "whale-day", "replay"];
+    if (!mockScenarios.includes(config.feeMock.scenario)) {
+      throw new Error(`Invalid FEE_MOCK_SCENARIO: ${config.feeMock.scenario}`);
+    }
+    if (config.feeMock.seed !== null && Number.isNaN(config.feeMock.seed)) {
+      throw new Error("FEE_MOCK_SEED must be an integer");
+    }
+    if (config.feeMock.scenario === "replay" && !config.feeMock.csvPath) {
+      throw new Error("FEE_MOCK_CSV must be set when FEE_MOCK_SCENARIO=replay");
+    }
+
+    if (
+      config.feeApi.mapping.amountUnit !== "sol" &&
+      config.feeApi.mapping.amountUnit !== "lamports"
+    ) {
+      throw new Error(`Invalid FEE_API_AMOUNT_UNIT: ${config.feeApi.mapping.amountUnit}`);
+    }
+
+    const pool = config.simulatedPool;
+    if (pool.solReserve <= 0 || pool.tokenReserve <= 0) {
+      throw new Error("SIM_POOL_SOL_RESERVE and SIM_POOL_TOKEN_RESERVE must be positive");
+    }
+    if (pool.tokenSupply < pool.tokenReserve) {
+      throw new Error("SIM_POOL_TOKEN_SUPPLY cannot be less than SIM_POOL_TOKEN_RESERVE");
+    }
+    if (pool.feeBps < 0 || pool.feeBps >= 10000) {
+      throw new Error("SIM_POOL_FEE_BPS must be between 0 and 9999");
+    }
+    if (pool.seed !== null && Number.isNaN(pool.seed)) {
+      throw new Error("SIM_POOL_SEED must be an integer");
+    }
+
+    const executor = config.executor;
+    if (!["single", "twap", "target-impact"].includes(executor.buybackExecution)) {
+      throw new Error(`Invalid BUYBACK_EXECUTION: ${executor.buybackExecution}`);
+    }
+    if (executor.buybackSlices < 1 || executor.buybackMaxSlices < 1) {
+      throw new Error("BUYBACK_SLICES and BUYBACK_MAX_SLICES must be at least 1");
+    }
+    if (executor.buybackTargetImpactBps <= 0) {
+      throw new Error("BUYBACK_TARGET_IMPACT_BPS must be positive");
+    }
+
+    if (!["mock", "raydium", "orca"].includes(config.lpEngine)) {
+      throw new Error(`Invalid LP_ENGINE: ${config.lpEngine}`);
+    }
+
+    const tx = config.transactions;
+    if (!["processed", "confirmed", "finalized"].includes(tx.commitment)) {
+      throw new Error(`Invalid TX_COMMITMENT: ${tx.commitment}`);
+    }
+    if (tx.priorityFeePercentile < 0 || tx.priorityFeePercentile > 100) {
+      throw new Error("TX_PRIORITY_FEE_PERCENTILE must be between 0 and 100");
+    }
+    if (tx.minPriorityFeeMicroLamports > tx.maxPriorityFeeMicroLamports) {
+      throw new Error(
+        "TX_MIN_PRIORITY_FEE_MICROLAMPORTS cannot exceed TX_MAX_PRIORITY_FEE_MICROLAMPORTS"
+      );
+    }
+    if (tx.maxAttempts < 1) {
+      throw new Error("TX_MAX_ATTEMPTS must be at least 1");
+    }
+
+    const oracle = config.priceOracle;
+    if (!["pool", "twap", "external"].includes(oracle.type)) {
+      throw new Error(`Invalid PRICE_ORACLE: ${oracle.type}`);
+    }
+    if (!["pool", "external"].includes(oracle.twapSource)) {
+      throw new Error(`Invalid PRICE_TWAP_SOURCE: ${oracle.twapSource}`);
+    }
+    const usesFeed =
+      oracle.type === "external" || (oracle.type === "twap" && oracle.twapSource === "external");
+    if (usesFeed && !oracle.feed.url) {
+      throw new Error("PRICE_FEED_URL is required when pricing from the external feed");
+    }
+    if (oracle.twapWindowSeconds <= 0 || oracle.maxStalenessSeconds <= 0) {
+      throw new Error("PRICE_TWAP_WINDOW_SECONDS and PRICE_MAX_STALENESS_SECONDS must be positive");
+    }
+
+    if (config.dexEngine === "router") {
+      if (config.router.venues.length === 0) {
+        throw new Error("ROUTER_VENUES must list at least one venue when DEX_ENGINE=router");
+      }
+      if ((config.router.venues as string[]).includes("router")) {
+        throw new Error("ROUTER_VENUES cannot include router");
+      }
+    }
+
     if (config.iceHealthThreshold < 0 || config.iceHealthThreshold > 100) {
       throw new Error("IceHealthThreshold must be between 0 and 100");
     }
@@ -193,6 +498,13 @@ export class ConfigManager {
     return value;
   }
 
+  private getEnvList(key: string, defaultValue: string = ""): string[] {
+    return this.getEnvString(key, defaultValue)
+      .split(",")
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+  }
+
   private getEnvNumber(key: string, defaultValue: number): number {
     const value = process.env[key];
     if (value === undefined) {
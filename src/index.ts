@@ -1,12 +1,39 @@
 import { Connection } from "@solana/web3.js";
-import { ProtocolConfig, EpochReport, Logger } from "./types";
+import { ProtocolConfig, EpochReport, Logger, OraclePrice } from "./types";
 import { ConfigManager } from "./config/manager";
 import { createLogger } from "./utils/logger";
-import { IceHealthEngine, HealthMetricsInput } from "./services/ice-health/engine";
+import {
+  IceHealthEngine,
+  HealthMetricsInput,
+  poolLiquiditySol,
+} from "./services/ice-health/engine";
 import { Executor } from "./services/executor";
-import { ReportGenerator } from "./services/reporting";
-import { createSwapEngine, MockSwapEngine } from "./services/dex/engines";
+import {
+  ReportGenerator,
+  toReportedAction,
+  toReportedAllocations,
+  toReportedBreakdown,
+  toReportedTreasury,
+} from "./services/reporting";
+import {
+  LPManager,
+  createLPManager,
+  createSwapEngine,
+  MockSwapEngine,
+} from "./services/dex/engines";
+import { SimulatedPool } from "./services/dex/simulated-pool";
+import { FeeLedger, createFeeLedger } from "./services/fee-ledger";
+import { createFeeSource } from "./services/fee-sources";
+import { FeeCollector } from "./services/fee-collector";
+import { TransactionSender } from "./services/transactions";
+import { PriceOracle, createPriceOracle, fetchTokenDecimals } from "./services/price-oracle";
+import { createTokenBurner } from "./services/burn";
+import { createCoolingDistributor } from "./services/cooling";
+import { TreasuryLedger, createTreasuryLedger } from "./services/treasury";
+import { createActionJournal } from "./services/journal";
+import { StateStore, createStateStore } from "./services/state";
 import { FeeTracker } from "./types";
+import { lamportsToSol } from "./utils/amounts";
 
 /**
  * Main ICE Protocol Orchestrator
@@ -19,30 +46,73 @@ export class IceProtocol {
   private executor: Executor;
   private reportGenerator: ReportGenerator;
   private feeTracker: FeeTracker;
+  private feeLedger: FeeLedger;
+  private feeCollector: FeeCollector;
+  private treasury: TreasuryLedger;
+  private stateStore: StateStore;
+  private simulatedPool: SimulatedPool;
+  private lpManager: LPManager;
+  private priceOracle: PriceOracle;
   private isRunning: boolean = false;
 
-  private constructor(config: ProtocolConfig, logger: Logger) {
+  private constructor(
+    config: ProtocolConfig,
+    logger: Logger,
+    connection: Connection,
+    tokenDecimals: number
+  ) {
     this.config = config;
     this.logger = logger;
-    this.connection = new Connection(config.solanaRpcUrl, "confirmed");
+    this.connection = connection;
     this.engine = new IceHealthEngine(config, logger);
     this.reportGenerator = new ReportGenerator(config.reportsDir, logger);
 
-    this.feeTracker = {
-      totalFeesCollected: 0,
-      lastProcessedSignature: "",
-      lastProcessedTimestamp: 0,
-      events: [],
-    };
+    // Fees survive restarts: unprocessed ledger events are credited again
+    this.feeLedger = createFeeLedger(config.dataDir, logger);
+    this.feeTracker = this.feeLedger.createTracker();
+    this.treasury = createTreasuryLedger(config.dataDir, logger);
+    this.stateStore = createStateStore(config.dataDir, logger);
+    this.feeCollector = new FeeCollector(
+      config,
+      this.connection,
+      createFeeSource(config, this.connection, logger),
+      this.feeLedger,
+      this.feeTracker,
+      logger
+    );
+
+    // The mock DEX trades against this pool; it is idle with on-chain engines
+    this.simulatedPool = new SimulatedPool(config.simulatedPool, logger);
+    const sender = new TransactionSender(this.connection, config.transactions, logger);
 
-    const swapEngine = createSwapEngine(config.dexEngine, logger);
+    // Every transaction is journaled before it is sent, so an interrupted
+    // epoch can be checked on chain
+    const journal = createActionJournal(config.dataDir, logger);
+    sender.onSubmit((submission) => journal.recordSubmission(submission));
+    const swapEngine = createSwapEngine(
+      config,
+      this.connection,
+      logger,
+      this.simulatedPool,
+      sender
+    );
+    this.lpManager = createLPManager(config, this.connection, logger, this.simulatedPool, sender);
+    this.priceOracle = createPriceOracle(config, this.lpManager, tokenDecimals, logger);
 
     this.executor = new Executor(
       config,
       logger,
       this.connection,
       swapEngine,
-      this.feeTracker
+      this.lpManager,
+      this.feeTracker,
+      this.feeLedger,
+      this.priceOracle,
+      createTokenBurner(config, this.connection, sender, logger),
+      createCoolingDistributor(config, sender, logger),
+      this.treasury,
+      journal,
+      this.stateStore
     );
   }
 
@@ -56,7 +126,14 @@ export class IceProtocol {
     const configManager = new ConfigManager(logger);
     const config = configManager.load();
 
-    const protocol = new IceProtocol(config, logger);
+    const connection = new Connection(config.solanaRpcUrl, "confirmed");
+    // The simulated pool's token stands in for $ice when the LP side is mocked
+    const tokenDecimals =
+      config.lpEngine === "mock"
+        ? config.simulatedPool.tokenDecimals
+        : await fetchTokenDecimals(connection, config.iceTokenMint);
+
+    const protocol = new IceProtocol(config, logger, connection, tokenDecimals);
     logger.info("ICE protocol initialized successfully");
 
     return protocol;
@@ -74,11 +151,27 @@ export class IceProtocol {
     this.isRunning = true;
     this.logger.info("Starting ICE protocol main loop");
 
-    let epochNumber = 0;
+    // Settle an epoch a previous run was interrupted in before anything else
+    try {
+      await this.executor.recover();
+    } catch (error) {
+      this.logger.error("Could not recover interrupted epoch", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    // Catch up on fees before the first epoch, then keep polling in the background
+    await this.feeCollector.poll();
+    this.feeCollector.start();
+
+    // Epoch numbers carry on from the last run
+    let epochNumber = this.stateStore.getProtocolEpoch();
 
     try {
       while (this.isRunning) {
         epochNumber++;
+        this.stateStore.saveProtocolEpoch(epochNumber);
+        const epochStartedAt = Date.now();
 
         try {
           await this.executeEpoch(epochNumber);
@@ -89,8 +182,12 @@ export class IceProtocol {
           });
         }
 
-        // Wait for next epoch
-        const sleepMs = this.config.executor.epochIntervalSeconds * 1000;
+        // Wait for next epoch. Time spent in the epoch, such as the spacing
+        // between TWAP buyback slices, counts toward the interval.
+        const sleepMs = Math.max(
+          0,
+          this.config.executor.epochIntervalSeconds * 1000 - (Date.now() - epochStartedAt)
+        );
         this.logger.debug("Sleeping until next epoch", {
           sleepMs,
           nextEpoch: epochNumber + 1,
@@ -103,6 +200,8 @@ export class IceProtocol {
       });
       this.isRunning = false;
     }
+
+    this.feeCollector.stop();
   }
 
   /**
@@ -111,6 +210,7 @@ export class IceProtocol {
   stop(): void {
     this.logger.info("Stopping ICE protocol");
     this.isRunning = false;
+    this.feeCollector.stop();
   }
 
   /**
@@ -119,9 +219,15 @@ export class IceProtocol {
   private async executeEpoch(epochNumber: number): Promise<void> {
     this.logger.info("Executing epoch", { epoch: epochNumber });
 
+    // Other wallets trade against the simulated pool between epochs
+    if (this.config.dexEngine === "mock" || this.config.lpEngine === "mock") {
+      this.simulatedPool.simulateExternalTrades();
+    }
+
     // 1. Compute Ice Health
+    const price = await this.readPrice();
     const iceHealth = this.engine.computeHealth(
-      this.getHealthMetricsInput(),
+      await this.getHealthMetricsInput(price),
       epochNumber
     );
 
@@ -132,17 +238,30 @@ export class IceProtocol {
     const report: EpochReport = {
       epochNumber,
       timestamp: Math.floor(Date.now() / 1000),
-      feesDetected: this.feeTracker.totalFeesCollected,
+      feesDetected: lamportsToSol(this.feeTracker.totalFeesCollected),
+      feesPending: lamportsToSol(this.feeTracker.pendingFees),
+      feeBreakdown: toReportedBreakdown(this.feeCollector.takeFeeBreakdown()),
       allocations: allocation
-        ? allocation.allocations
+        ? toReportedAllocations(allocation.allocations)
         : { buyback: 0, lp: 0, burn: 0, cooling: 0 },
+      treasury: allocation?.treasury ? toReportedTreasury(allocation.treasury) : null,
       iceHealth,
-      actions: allocation?.actions || [],
-      txSignatures: allocation?.actions
-        .filter((a) => a.signature)
-        .map((a) => a.signature!)
-        || [],
-      errors: [],
+      actions: allocation?.actions.map(toReportedAction) || [],
+      feeReconciliation: this.feeCollector.takeReconciliationLog(),
+      price,
+      txSignatures: [
+        ...new Set(
+          allocation?.actions
+            .flatMap((a) => [
+              a.swapSignature,
+              a.signature,
+              ...(a.fills ?? []).map((fill) => fill.signature),
+              ...(a.transfers ?? []).map((transfer) => transfer.signature),
+            ])
+            .filter((sig): sig is string => !!sig)
+        ),
+      ],
+      errors: this.feeCollector.takeErrors(),
     };
 
     // Generate and save reports
@@ -161,8 +280,8 @@ export class IceProtocol {
       epochNumber++;
 
       try {
-        // Simulate fee inflow
-        this.feeTracker.totalFeesCollected += Math.random() * 5;
+        // Detect fees from the configured source (mock in simulations)
+        await this.feeCollector.poll();
 
         await this.executeEpoch(epochNumber);
 
@@ -191,24 +310,51 @@ export class IceProtocol {
     return {
       executor: this.executor.getState(),
       feeTracker: {
-        totalCollected: this.feeTracker.totalFeesCollected,
+        totalCollected: lamportsToSol(this.feeTracker.totalFeesCollected),
+        pending: lamportsToSol(this.feeTracker.pendingFees),
         eventCount: this.feeTracker.events.length,
       },
+      treasury: toReportedAllocations(this.treasury.getBalances()),
     };
   }
 
   /**
-   * Get health metrics input (for testing)
+   * Read the oracle price for this epoch, or null if it cannot be read
+   */
+  private async readPrice(): Promise<OraclePrice | null> {
+    try {
+      return await this.priceOracle.getPrice();
+    } catch (error) {
+      this.logger.warn("Could not read price", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Get health metrics input (for testing). Liquidity is the pool's
+   * reserves valued at the oracle price.
    */
-  private getHealthMetricsInput(): HealthMetricsInput {
+  private async getHealthMetricsInput(price: OraclePrice | null): Promise<HealthMetricsInput> {
     const now = Math.floor(Date.now() / 1000);
     const oneDayAgo = now - 86400;
 
+    let currentLiquidity = 0;
+    try {
+      const reserves = await this.lpManager.getReserves(this.config.iceTokenMint);
+      currentLiquidity = poolLiquiditySol(reserves, price, this.priceOracle.tokenDecimals);
+    } catch (error) {
+      this.logger.warn("Could not read pool reserves for liquidity", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
     return {
       buybackCountLast24h: Math.floor(Math.random() * 4),
       buybackVolumeSolLast24h: Math.random() * 10,
       recentSellPressureSol: Math.random() * 5,
-      currentLiquidity: Math.random() * 100 + 20,
+      currentLiquidity,
       volatilityPercent24h: Math.random() * 30,
       lastBuybackTimestampSeconds: oneDayAgo,
       currentTimestampSeconds: now,
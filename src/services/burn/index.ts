@@ -0,0 +1,130 @@
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import {
+  Mint,
+  createBurnCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  unpackMint,
+} from "@solana/spl-token";
+import { Logger, ProtocolConfig } from "../../types";
+import { generateMockTx } from "../dex/engines";
+import { toBaseUnits } from "../dex/math";
+import { TransactionSender } from "../transactions";
+
+/**
+ * Token Burner Interface
+ *
+ * Amounts are base units of the mint.
+ */
+export abstract class TokenBurner {
+  abstract getSupply(mint: PublicKey): Promise<bigint>;
+
+  /**
+   * Burn `amount` of the mint from the bot's token account
+   */
+  abstract burn(mint: PublicKey, amount: bigint): Promise<string>;
+}
+
+/**
+ * SPL Token Burner
+ *
+ * Burns from the bot's associated token account with a checked `burn`
+ * instruction. The token program is read from the mint's owner, so
+ * Token-2022 mints burn through Token-2022.
+ */
+export class SplTokenBurner extends TokenBurner {
+  constructor(
+    private connection: Connection,
+    private botKeypair: Keypair | null,
+    private sender: TransactionSender,
+    private logger: Logger
+  ) {
+    super();
+  }
+
+  async getSupply(mint: PublicKey): Promise<bigint> {
+    const { info } = await this.loadMint(mint);
+    return info.supply;
+  }
+
+  async burn(mint: PublicKey, amount: bigint): Promise<string> {
+    if (!this.botKeypair) {
+      throw new Error("Burn requires a bot keypair");
+    }
+    if (amount <= 0n) {
+      throw new Error("Burn amount must be positive");
+    }
+
+    const owner = this.botKeypair.publicKey;
+    const { info, programId } = await this.loadMint(mint);
+    const tokenAccount = getAssociatedTokenAddressSync(mint, owner, false, programId);
+    const instruction = createBurnCheckedInstruction(
+      tokenAccount,
+      mint,
+      owner,
+      amount,
+      info.decimals,
+      [],
+      programId
+    );
+
+    const signature = await this.sender.send([instruction], [this.botKeypair]);
+    this.logger.info("Tokens burned", {
+      mint: mint.toBase58(),
+      amount,
+      programId: programId.toBase58(),
+      signature,
+    });
+    return signature;
+  }
+
+  private async loadMint(mint: PublicKey): Promise<{ info: Mint; programId: PublicKey }> {
+    const account = await this.connection.getAccountInfo(mint);
+    if (!account) {
+      throw new Error(`Mint ${mint.toBase58()} not found`);
+    }
+    return { info: unpackMint(mint, account, account.owner), programId: account.owner };
+  }
+}
+
+/**
+ * Mock Token Burner - burns from an in-memory supply
+ */
+export class MockTokenBurner extends TokenBurner {
+  constructor(
+    private supply: bigint,
+    private logger: Logger
+  ) {
+    super();
+  }
+
+  async getSupply(_mint: PublicKey): Promise<bigint> {
+    return this.supply;
+  }
+
+  async burn(_mint: PublicKey, amount: bigint): Promise<string> {
+    if (amount <= 0n || amount > this.supply) {
+      throw new Error(`Cannot burn ${amount} of a ${this.supply} supply`);
+    }
+
+    this.supply -= amount;
+    this.logger.info("Mock tokens burned", { amount, supply: this.supply });
+    return generateMockTx();
+  }
+}
+
+/**
+ * Factory to create the token burner. Tokens bought through the mock DEX
+ * only exist in the simulation, so they are burned by the mock burner.
+ */
+export function createTokenBurner(
+  config: ProtocolConfig,
+  connection: Connection,
+  sender: TransactionSender,
+  logger: Logger
+): TokenBurner {
+  if (config.dexEngine === "mock") {
+    const { tokenSupply, tokenDecimals } = config.simulatedPool;
+    return new MockTokenBurner(toBaseUnits(tokenSupply, tokenDecimals), logger);
+  }
+  return new SplTokenBurner(connection, config.botKeypair || null, sender, logger);
+}
@@ -0,0 +1,172 @@
+import { Keypair, PublicKey, SystemProgram, TransactionInstruction } from "@solana/web3.js";
+import { CoolingConfig, Logger, ProtocolConfig } from "../../types";
+import { splitByWeights } from "../../utils/amounts";
+import { generateMockTx } from "../dex/engines";
+import { TransactionSender } from "../transactions";
+
+export const MEMO_PROGRAM_ID = new PublicKey("MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr");
+
+// Recipients paid per transaction, keeping each batch well inside the size limit
+const TRANSFERS_PER_TRANSACTION = 8;
+
+/**
+ * A planned SOL payment to one recipient
+ */
+export interface CoolingPayment {
+  recipient: PublicKey;
+  lamports: bigint;
+}
+
+/**
+ * Memo program instruction carrying `memo`, signed by `signer`
+ */
+export function createMemoInstruction(memo: string, signer: PublicKey): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: MEMO_PROGRAM_ID,
+    keys: [{ pubkey: signer, isSigner: true, isWritable: false }],
+    data: Buffer.from(memo, "utf-8"),
+  });
+}
+
+/**
+ * Cooling Distributor Interface
+ *
+ * Pays the cooling allocation out to the configured recipients, split by
+ * weight, in batches of payments.
+ */
+export abstract class CoolingDistributor {
+  constructor(protected coolingConfig: CoolingConfig) {}
+
+  /**
+   * Whether there is anyone to pay; without recipients nothing can be sent
+   */
+  hasRecipients(): boolean {
+    return this.coolingConfig.recipients.length > 0;
+  }
+
+  /**
+   * Split `lamports` across the recipients and group the payments into
+   * batches. Recipients whose share rounds to nothing are left out.
+   */
+  planBatches(lamports: bigint): CoolingPayment[][] {
+    const { recipients } = this.coolingConfig;
+    if (!this.hasRecipients()) {
+      throw new Error("No cooling recipients configured");
+    }
+
+    const shares = splitByWeights(
+      lamports,
+      recipients.map((recipient) => recipient.weight)
+    );
+    const payments = recipients
+      .map((recipient, i) => ({ recipient: recipient.address, lamports: shares[i] }))
+      .filter((payment) => payment.lamports > 0n);
+
+    const batches: CoolingPayment[][] = [];
+    for (let i = 0; i < payments.length; i += TRANSFERS_PER_TRANSACTION) {
+      batches.push(payments.slice(i, i + TRANSFERS_PER_TRANSACTION));
+    }
+    return batches;
+  }
+
+  /**
+   * Send one batch of payments, returning its transaction signature
+   */
+  abstract sendBatch(
+    payments: CoolingPayment[],
+    epochNumber: number,
+    batch: number,
+    batchCount: number
+  ): Promise<string>;
+}
+
+/**
+ * SOL Cooling Distributor
+ *
+ * Sends each batch as SOL transfers carrying a memo naming the epoch and
+ * purpose, so the spend can be audited on-chain.
+ */
+export class SolCoolingDistributor extends CoolingDistributor {
+  constructor(
+    coolingConfig: CoolingConfig,
+    private botKeypair: Keypair | null,
+    private sender: TransactionSender,
+    private logger: Logger
+  ) {
+    super(coolingConfig);
+  }
+
+  async sendBatch(
+    payments: CoolingPayment[],
+    epochNumber: number,
+    batch: number,
+    batchCount: number
+  ): Promise<string> {
+    if (!this.botKeypair) {
+      throw new Error("Cooling transfers require a bot keypair");
+    }
+
+    const payer = this.botKeypair.publicKey;
+    const memo = `ICE epoch ${epochNumber} cooling event: ${this.coolingConfig.memoPurpose} (batch ${batch}/${batchCount})`;
+    const instructions = [
+      createMemoInstruction(memo, payer),
+      ...payments.map((payment) =>
+        SystemProgram.transfer({
+          fromPubkey: payer,
+          toPubkey: payment.recipient,
+          lamports: payment.lamports,
+        })
+      ),
+    ];
+
+    const signature = await this.sender.send(instructions, [this.botKeypair]);
+    this.logger.info("Cooling batch sent", {
+      epoch: epochNumber,
+      batch,
+      recipients: payments.length,
+      signature,
+    });
+    return signature;
+  }
+}
+
+/**
+ * Mock Cooling Distributor - records the payments without sending any SOL
+ */
+export class MockCoolingDistributor extends CoolingDistributor {
+  constructor(
+    coolingConfig: CoolingConfig,
+    private logger: Logger
+  ) {
+    super(coolingConfig);
+  }
+
+  async sendBatch(
+    payments: CoolingPayment[],
+    epochNumber: number,
+    batch: number,
+    batchCount: number
+  ): Promise<string> {
+    this.logger.info("Mock cooling batch sent", {
+      epoch: epochNumber,
+      batch: `${batch}/${batchCount}`,
+      recipients: payments.length,
+    });
+    return generateMockTx();
+  }
+}
+
+/**
+ * Factory to create the cooling distributor. Against the mock DEX nothing
+ * else touches the chain, so cooling payments are simulated as well.
+ */
+export function createCoolingDistributor(
+  config: ProtocolConfig,
+  sender: TransactionSender,
+  logger: Logger
+): CoolingDistributor {
+  if (config.dexEngine === "mock") {
+    return new MockCoolingDistributor(config.cooling, logger);
+  }
+  return new SolCoolingDistributor(config.cooling, config.botKeypair || null, sender, logger);
+}
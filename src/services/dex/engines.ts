@@ -1,11 +1,71 @@
-import { PublicKey } from "@solana/web3.js";
+import axios, { AxiosInstance } from "axios";
 import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TokenBalance,
+  TransactionInstruction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  NATIVE_MINT,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
+  createSyncNativeInstruction,
+  getAssociatedTokenAddressSync,
+  getMint,
+} from "@solana/spl-token";
+import {
+  AggregatorConfig,
   QuoteInput,
   Quote,
   SwapResult,
   LPAddResult,
+  LPPoolReserves,
   Logger,
+  OrcaConfig,
+  ProtocolConfig,
+  RaydiumConfig,
+  RouteAlternative,
 } from "../../types";
+import {
+  BPS_DENOMINATOR,
+  applySlippage,
+  fromBaseUnits,
+  quoteConstantProduct,
+  realizedPriceImpactBps,
+  sizeProportionalDeposit,
+} from "./math";
+import {
+  RaydiumPoolKeys,
+  fetchRaydiumReserves,
+  findRaydiumPool,
+  loadRaydiumPoolKeys,
+  makeRaydiumDepositInstruction,
+  makeRaydiumSwapInstruction,
+  makeRaydiumWithdrawInstruction,
+} from "./raydium";
+import {
+  WhirlpoolState,
+  fetchWhirlpool,
+  fetchWhirlpoolTickArrays,
+  findWhirlpool,
+  getAmountsForLiquidity,
+  getFullRangeTicks,
+  getLiquidityForAmounts,
+  getTickArrayAddress,
+  getTickArrayStart,
+  makeIncreaseLiquidityInstruction,
+  makeInitializeTickArrayInstruction,
+  makeOpenPositionInstruction,
+  makeWhirlpoolSwapInstruction,
+  quoteWhirlpoolSwap,
+  whirlpoolPriceImpactBps,
+  whirlpoolVirtualReserves,
+} from "./whirlpool";
+import { SimulatedPool, SimulatedSwapSide } from "./simulated-pool";
+import { TransactionSender } from "../transactions";
 
 /**
  * Quote Provider Interface
@@ -16,53 +76,68 @@ export abstract class QuoteProvider {
 
 /**
  * Swap Engine Interface
+ *
+ * Amounts are base units of the mint they are in: `amountIn` of the input
+ * mint, and the quoted or filled output of the output mint.
  */
 export abstract class SwapEngine {
   abstract swap(
     inputMint: PublicKey,
     outputMint: PublicKey,
-    amountIn: number,
+    amountIn: bigint,
     slippageBps?: number
   ): Promise<SwapResult>;
 
   abstract dryRun(
     inputMint: PublicKey,
     outputMint: PublicKey,
-    amountIn: number,
+    amountIn: bigint,
     slippageBps?: number
   ): Promise<Quote>;
 }
 
 /**
  * LP Management Interface
+ *
+ * Amounts are base units: lamports, $ice base units and LP base units.
  */
 export abstract class LPManager {
+  abstract getReserves(tokenMint: PublicKey): Promise<LPPoolReserves>;
+
   abstract addLiquidity(
     tokenMint: PublicKey,
-    tokenAmount: number,
-    solAmount: number
+    tokenAmount: bigint,
+    solAmount: bigint,
+    slippageBps?: number
   ): Promise<LPAddResult>;
 
-  abstract removeLiquidity(lpTokenAmount: number): Promise<{ solAmount: number; tokenAmount: number }>;
+  abstract removeLiquidity(
+    tokenMint: PublicKey,
+    lpTokenAmount: bigint
+  ): Promise<{ solAmount: bigint; tokenAmount: bigint }>;
 }
 
 /**
- * Mock Quote Provider - for testing
+ * Mock Quote Provider - quotes against the simulated pool
  */
 export class MockQuoteProvider extends QuoteProvider {
-  constructor(private logger: Logger) {
+  constructor(
+    private pool: SimulatedPool,
+    private logger: Logger
+  ) {
     super();
   }
 
   async getQuote(input: QuoteInput): Promise<Quote> {
-    // Simulate a quote with 1% slippage
-    const outputAmount = input.amountIn * 0.99;
+    const side = swapSide(input.inputMint);
+    const quoted = this.pool.quote(side, input.amountIn);
 
     const quote: Quote = {
       inputAmount: input.amountIn,
-      outputAmount,
-      priceImpactBps: 100, // 1%
-      feeBps: 50, // 0.5%
+      outputAmount: quoted.amountOut,
+      outputDecimals: this.pool.outputDecimals(side),
+      priceImpactBps: quoted.priceImpactBps,
+      feeBps: this.pool.feeBps,
       routePath: "mock-route",
     };
 
@@ -73,167 +148,1239 @@ export class MockQuoteProvider extends QuoteProvider {
 
 /**
  * Mock Swap Engine - for testing and dry runs
+ *
+ * Trades against an in-memory constant-product pool, so repeated buybacks
+ * move the price the way they would on-chain.
  */
 export class MockSwapEngine extends SwapEngine {
-  constructor(private logger: Logger) {
+  private provider: MockQuoteProvider;
+
+  constructor(
+    private pool: SimulatedPool,
+    private logger: Logger
+  ) {
+    super();
+    this.provider = new MockQuoteProvider(pool, logger);
+  }
+
+  async swap(
+    inputMint: PublicKey,
+    _outputMint: PublicKey,
+    amountIn: bigint,
+    _slippageBps?: number
+  ): Promise<SwapResult> {
+    const side = swapSide(inputMint);
+    const filled = this.pool.swap(side, amountIn);
+
+    const result: SwapResult = {
+      signature: generateMockTx(),
+      inputAmount: amountIn,
+      outputAmount: filled.amountOut,
+      outputDecimals: this.pool.outputDecimals(side),
+      actualPriceImpactBps: filled.priceImpactBps,
+      routePath: "mock-route",
+    };
+
+    this.logger.info("Mock swap executed", { ...result, pool: this.pool.getState() });
+    return result;
+  }
+
+  async dryRun(
+    inputMint: PublicKey,
+    outputMint: PublicKey,
+    amountIn: bigint,
+    slippageBps?: number
+  ): Promise<Quote> {
+    return this.provider.getQuote({ inputMint, outputMint, amountIn, slippageBps });
+  }
+}
+
+/**
+ * Mock LP Manager - deposits into the simulated pool
+ */
+export class MockLPManager extends LPManager {
+  constructor(
+    private pool: SimulatedPool,
+    private logger: Logger
+  ) {
+    super();
+  }
+
+  async getReserves(_tokenMint: PublicKey): Promise<LPPoolReserves> {
+    return this.pool.getReserves();
+  }
+
+  async addLiquidity(
+    _tokenMint: PublicKey,
+    tokenAmount: bigint,
+    solAmount: bigint,
+    _slippageBps?: number
+  ): Promise<LPAddResult> {
+    const deposit = this.pool.addLiquidity(solAmount, tokenAmount);
+
+    const result: LPAddResult = {
+      signature: generateMockTx(),
+      lpTokenAmount: deposit.lpMinted,
+      lpDecimals: this.pool.lpDecimals,
+    };
+
+    this.logger.info("Mock LP added", {
+      tokenAmount: deposit.tokenUsed,
+      solAmount: deposit.solUsed,
+      lpTokens: deposit.lpMinted,
+    });
+
+    return result;
+  }
+
+  async removeLiquidity(
+    _tokenMint: PublicKey,
+    lpTokenAmount: bigint
+  ): Promise<{ solAmount: bigint; tokenAmount: bigint }> {
+    const withdrawn = this.pool.removeLiquidity(lpTokenAmount);
+    this.logger.info("Mock LP removed", { lpTokenAmount, ...withdrawn });
+    return withdrawn;
+  }
+}
+
+/**
+ * Buying spends SOL; anything else sells $ice into the pool
+ */
+function swapSide(inputMint: PublicKey): SimulatedSwapSide {
+  return inputMint.equals(NATIVE_MINT) ? "buy" : "sell";
+}
+
+export function generateMockTx(): string {
+  return Array.from({ length: 88 })
+    .map(() =>
+      "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789"[
+        Math.floor(Math.random() * 62)
+      ]
+    )
+    .join("");
+}
+
+/**
+ * Wrap an on-chain swap instruction with the token account setup it needs.
+ * SOL is wrapped into a temporary WSOL account and unwrapped afterwards, so
+ * the bot keeps holding native SOL.
+ */
+function buildSwapInstructions(
+  owner: PublicKey,
+  inputMint: PublicKey,
+  outputMint: PublicKey,
+  amountIn: bigint,
+  makeSwapInstruction: (source: PublicKey, destination: PublicKey) => TransactionInstruction
+): TransactionInstruction[] {
+  const source = getAssociatedTokenAddressSync(inputMint, owner);
+  const destination = getAssociatedTokenAddressSync(outputMint, owner);
+
+  const instructions = [
+    createAssociatedTokenAccountIdempotentInstruction(owner, destination, owner, outputMint),
+  ];
+
+  if (inputMint.equals(NATIVE_MINT)) {
+    instructions.push(
+      createAssociatedTokenAccountIdempotentInstruction(owner, source, owner, NATIVE_MINT),
+      SystemProgram.transfer({ fromPubkey: owner, toPubkey: source, lamports: amountIn }),
+      createSyncNativeInstruction(source)
+    );
+  }
+
+  instructions.push(makeSwapInstruction(source, destination));
+
+  if (inputMint.equals(NATIVE_MINT)) {
+    instructions.push(createCloseAccountInstruction(source, owner, owner));
+  }
+  if (outputMint.equals(NATIVE_MINT)) {
+    instructions.push(createCloseAccountInstruction(destination, owner, owner));
+  }
+
+  return instructions;
+}
+
+/**
+ * Amount a pool vault paid out in a confirmed transaction, or null if the
+ * transaction's token balances are not available
+ */
+async function readVaultOutflow(
+  connection: Connection,
+  signature: string,
+  vault: PublicKey
+): Promise<bigint | null> {
+  const tx = await connection.getTransaction(signature, {
+    commitment: "confirmed",
+    maxSupportedTransactionVersion: 0,
+  });
+  if (!tx?.meta?.preTokenBalances || !tx.meta.postTokenBalances) {
+    return null;
+  }
+
+  const keys = tx.transaction.message.getAccountKeys({
+    accountKeysFromLookups: tx.meta.loadedAddresses,
+  });
+  let index = -1;
+  for (let i = 0; i < keys.length; i++) {
+    if (keys.get(i)?.equals(vault)) {
+      index = i;
+      break;
+    }
+  }
+
+  const pre = tx.meta.preTokenBalances.find((b) => b.accountIndex === index);
+  const post = tx.meta.postTokenBalances.find((b) => b.accountIndex === index);
+  if (!pre || !post) {
+    return null;
+  }
+
+  return BigInt(pre.uiTokenAmount.amount) - BigInt(post.uiTokenAmount.amount);
+}
+
+/**
+ * Amount of `mint` the owner's token accounts gained in a confirmed
+ * transaction, or null if the transaction's token balances are not available
+ */
+async function readOwnerInflow(
+  connection: Connection,
+  signature: string,
+  owner: PublicKey,
+  mint: PublicKey
+): Promise<bigint | null> {
+  const tx = await connection.getTransaction(signature, {
+    commitment: "confirmed",
+    maxSupportedTransactionVersion: 0,
+  });
+  if (!tx?.meta?.preTokenBalances || !tx.meta.postTokenBalances) {
+    return null;
+  }
+
+  const total = (balances: TokenBalance[]): bigint =>
+    balances
+      .filter((b) => b.owner === owner.toBase58() && b.mint === mint.toBase58())
+      .reduce((sum, b) => sum + BigInt(b.uiTokenAmount.amount), 0n);
+
+  return total(tx.meta.postTokenBalances) - total(tx.meta.preTokenBalances);
+}
+
+/**
+ * Find (unless pinned by config) and load the Raydium pool trading a pair
+ */
+async function resolveRaydiumPool(
+  connection: Connection,
+  raydiumConfig: RaydiumConfig,
+  mintA: PublicKey,
+  mintB: PublicKey,
+  logger: Logger
+): Promise<RaydiumPoolKeys> {
+  const poolId =
+    raydiumConfig.poolId ??
+    (await findRaydiumPool(connection, raydiumConfig.programId, mintA, mintB));
+  if (!poolId) {
+    throw new Error(`No Raydium pool found for ${mintA.toBase58()}/${mintB.toBase58()}`);
+  }
+
+  const pool = await loadRaydiumPoolKeys(connection, poolId);
+  const mints = [pool.baseMint, pool.quoteMint];
+  if (!mints.some((m) => m.equals(mintA)) || !mints.some((m) => m.equals(mintB))) {
+    throw new Error(`Raydium pool ${poolId.toBase58()} does not trade the requested pair`);
+  }
+
+  logger.info("Raydium pool resolved", {
+    pool: poolId.toBase58(),
+    baseMint: pool.baseMint.toBase58(),
+    quoteMint: pool.quoteMint.toBase58(),
+  });
+  return pool;
+}
+
+/**
+ * Find (unless pinned by config) the Orca whirlpool trading a pair
+ */
+async function resolveWhirlpoolId(
+  connection: Connection,
+  orcaConfig: OrcaConfig,
+  mintA: PublicKey,
+  mintB: PublicKey,
+  logger: Logger
+): Promise<PublicKey> {
+  const poolId =
+    orcaConfig.whirlpoolId ?? (await findWhirlpool(connection, orcaConfig.programId, mintA, mintB));
+  if (!poolId) {
+    throw new Error(`No Orca whirlpool found for ${mintA.toBase58()}/${mintB.toBase58()}`);
+  }
+
+  logger.info("Orca whirlpool resolved", { pool: poolId.toBase58() });
+  return poolId;
+}
+
+/**
+ * Raydium Swap Engine
+ *
+ * Swaps against a Raydium AMM v4 (constant product) pool. The pool for a
+ * mint pair is discovered on-chain unless `RAYDIUM_POOL_ID` pins it; quotes
+ * are computed from the live vault reserves and the pool's swap fee.
+ */
+export class RaydiumSwapEngine extends SwapEngine {
+  private pools = new Map<string, RaydiumPoolKeys>();
+
+  constructor(
+    private connection: Connection,
+    private raydiumConfig: RaydiumConfig,
+    private botKeypair: Keypair | null,
+    private sender: TransactionSender,
+    private logger: Logger
+  ) {
     super();
   }
 
   async swap(
     inputMint: PublicKey,
     outputMint: PublicKey,
-    amountIn: number,
+    amountIn: bigint,
     slippageBps: number = 500
   ): Promise<SwapResult> {
-    // Simulate a swap
-    const outputAmount = amountIn * 0.99; // 1% slippage
-    const mockSignature = this.generateMockTx();
+    if (!this.botKeypair) {
+      throw new Error("Raydium swap requires a bot keypair");
+    }
+
+    const plan = await this.plan(inputMint, outputMint, amountIn, slippageBps);
+    const instructions = buildSwapInstructions(
+      this.botKeypair.publicKey,
+      inputMint,
+      outputMint,
+      plan.amountIn,
+      (source, destination) =>
+        makeRaydiumSwapInstruction(
+          plan.pool,
+          source,
+          destination,
+          this.botKeypair!.publicKey,
+          plan.amountIn,
+          plan.minAmountOut
+        )
+    );
+
+    const signature = await this.sender.send(instructions, [this.botKeypair]);
+
+    // The pool's output vault pays out exactly the filled amount
+    const filled = await readVaultOutflow(this.connection, signature, plan.outputVault);
+    const amountOut = filled ?? plan.amountOut;
+    if (filled === null) {
+      this.logger.warn("Could not read filled amount, reporting quoted output", { signature });
+    }
 
     const result: SwapResult = {
-      signature: mockSignature,
+      signature,
       inputAmount: amountIn,
-      outputAmount,
-      actualPriceImpactBps: 100,
+      outputAmount: amountOut,
+      outputDecimals: plan.outputDecimals,
+      actualPriceImpactBps: realizedPriceImpactBps(
+        plan.amountIn - plan.feeAmount,
+        amountOut,
+        plan.reserveIn,
+        plan.reserveOut
+      ),
     };
 
-    this.logger.info("Mock swap executed", result);
+    this.logger.info("Raydium swap executed", { ...result, pool: plan.pool.id.toBase58() });
     return result;
   }
 
   async dryRun(
-    _inputMint: PublicKey,
-    _outputMint: PublicKey,
-    amountIn: number,
-    _slippageBps?: number
+    inputMint: PublicKey,
+    outputMint: PublicKey,
+    amountIn: bigint,
+    slippageBps: number = 500
   ): Promise<Quote> {
-    const provider = new MockQuoteProvider(this.logger);
-    return provider.getQuote({
-      inputMint: _inputMint,
-      outputMint: _outputMint,
+    const plan = await this.plan(inputMint, outputMint, amountIn, slippageBps);
+    this.logger.debug("Raydium quote", plan.quote);
+    return plan.quote;
+  }
+
+  /**
+   * Quote a swap against the current pool reserves
+   */
+  private async plan(
+    inputMint: PublicKey,
+    outputMint: PublicKey,
+    amountIn: bigint,
+    slippageBps: number
+  ): Promise<RaydiumSwapPlan> {
+    const pool = await this.getPool(inputMint, outputMint);
+    const reserves = await fetchRaydiumReserves(this.connection, pool);
+    const baseIn = pool.baseMint.equals(inputMint);
+
+    const outputDecimals = baseIn ? pool.quoteDecimals : pool.baseDecimals;
+    const reserveIn = baseIn ? reserves.baseReserve : reserves.quoteReserve;
+    const reserveOut = baseIn ? reserves.quoteReserve : reserves.baseReserve;
+
+    const quoted = quoteConstantProduct(
       amountIn,
-      slippageBps: _slippageBps,
-    });
+      reserveIn,
+      reserveOut,
+      reserves.feeNumerator,
+      reserves.feeDenominator
+    );
+
+    return {
+      pool,
+      amountIn,
+      amountOut: quoted.amountOut,
+      minAmountOut: applySlippage(quoted.amountOut, slippageBps),
+      feeAmount: quoted.feeAmount,
+      reserveIn,
+      reserveOut,
+      outputDecimals,
+      outputVault: baseIn ? pool.quoteVault : pool.baseVault,
+      quote: {
+        inputAmount: amountIn,
+        outputAmount: quoted.amountOut,
+        outputDecimals,
+        priceImpactBps: quoted.priceImpactBps,
+        feeBps: Number((reserves.feeNumerator * BigInt(BPS_DENOMINATOR)) / reserves.feeDenominator),
+        routePath: `raydium:${pool.id.toBase58()}`,
+      },
+    };
   }
 
-  private generateMockTx(): string {
-    return Array.from({ length: 88 })
-      .map(() =>
-        "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789"[
-          Math.floor(Math.random() * 62)
-        ]
-      )
-      .join("");
+  private async getPool(inputMint: PublicKey, outputMint: PublicKey): Promise<RaydiumPoolKeys> {
+    const pairKey = [inputMint.toBase58(), outputMint.toBase58()].sort().join(":");
+    const cached = this.pools.get(pairKey);
+    if (cached) {
+      return cached;
+    }
+
+    const pool = await resolveRaydiumPool(
+      this.connection,
+      this.raydiumConfig,
+      inputMint,
+      outputMint,
+      this.logger
+    );
+    this.pools.set(pairKey, pool);
+    return pool;
   }
 }
 
+interface RaydiumSwapPlan {
+  pool: RaydiumPoolKeys;
+  amountIn: bigint;
+  amountOut: bigint;
+  minAmountOut: bigint;
+  feeAmount: bigint;
+  reserveIn: bigint;
+  reserveOut: bigint;
+  outputDecimals: number;
+  outputVault: PublicKey;
+  quote: Quote;
+}
+
 /**
- * Mock LP Manager - for testing
+ * Orca Swap Engine
+ *
+ * Swaps against an Orca Whirlpool (concentrated liquidity). The pool for a
+ * mint pair is discovered on-chain unless `ORCA_WHIRLPOOL_ID` pins it; quotes
+ * walk the initialized ticks of the tick arrays the swap will cross.
  */
-export class MockLPManager extends LPManager {
-  constructor(private logger: Logger) {
+export class OrcaSwapEngine extends SwapEngine {
+  private poolIds = new Map<string, PublicKey>();
+
+  constructor(
+    private connection: Connection,
+    private orcaConfig: OrcaConfig,
+    private botKeypair: Keypair | null,
+    private sender: TransactionSender,
+    private logger: Logger
+  ) {
     super();
   }
 
+  async swap(
+    inputMint: PublicKey,
+    outputMint: PublicKey,
+    amountIn: bigint,
+    slippageBps: number = 500
+  ): Promise<SwapResult> {
+    if (!this.botKeypair) {
+      throw new Error("Orca swap requires a bot keypair");
+    }
+
+    const plan = await this.plan(inputMint, outputMint, amountIn, slippageBps);
+    const owner = this.botKeypair.publicKey;
+    const instructions = buildSwapInstructions(
+      owner,
+      inputMint,
+      outputMint,
+      plan.amountIn,
+      (source, destination) =>
+        makeWhirlpoolSwapInstruction(
+          plan.pool,
+          plan.tickArrays,
+          plan.aToB ? source : destination,
+          plan.aToB ? destination : source,
+          owner,
+          plan.amountIn,
+          plan.minAmountOut,
+          plan.aToB
+        )
+    );
+
+    const signature = await this.sender.send(instructions, [this.botKeypair]);
+
+    const outputVault = plan.aToB ? plan.pool.vaultB : plan.pool.vaultA;
+    const filled = await readVaultOutflow(this.connection, signature, outputVault);
+    const amountOut = filled ?? plan.amountOut;
+    if (filled === null) {
+      this.logger.warn("Could not read filled amount, reporting quoted output", { signature });
+    }
+
+    const result: SwapResult = {
+      signature,
+      inputAmount: amountIn,
+      outputAmount: amountOut,
+      outputDecimals: plan.outputDecimals,
+      actualPriceImpactBps: whirlpoolPriceImpactBps(
+        plan.pool.sqrtPrice,
+        plan.amountIn - plan.feeAmount,
+        amountOut,
+        plan.aToB
+      ),
+    };
+
+    this.logger.info("Orca swap executed", { ...result, pool: plan.pool.id.toBase58() });
+    return result;
+  }
+
+  async dryRun(
+    inputMint: PublicKey,
+    outputMint: PublicKey,
+    amountIn: bigint,
+    slippageBps: number = 500
+  ): Promise<Quote> {
+    const plan = await this.plan(inputMint, outputMint, amountIn, slippageBps);
+    this.logger.debug("Orca quote", plan.quote);
+    return plan.quote;
+  }
+
+  /**
+   * Quote a swap against the current pool state and tick arrays
+   */
+  private async plan(
+    inputMint: PublicKey,
+    outputMint: PublicKey,
+    amountIn: bigint,
+    slippageBps: number
+  ): Promise<OrcaSwapPlan> {
+    const poolId = await this.getPoolId(inputMint, outputMint);
+    const pool = await fetchWhirlpool(this.connection, poolId);
+
+    const mints = [pool.mintA, pool.mintB];
+    if (!mints.some((m) => m.equals(inputMint)) || !mints.some((m) => m.equals(outputMint))) {
+      throw new Error(`Whirlpool ${poolId.toBase58()} does not trade the requested pair`);
+    }
+
+    const aToB = pool.mintA.equals(inputMint);
+    const outputDecimals = aToB ? pool.decimalsB : pool.decimalsA;
+
+    const tickArrays = await fetchWhirlpoolTickArrays(this.connection, pool, aToB);
+    const quoted = quoteWhirlpoolSwap(pool, tickArrays, amountIn, aToB);
+
+    return {
+      pool,
+      aToB,
+      tickArrays: tickArrays.addresses,
+      amountIn,
+      amountOut: quoted.amountOut,
+      minAmountOut: applySlippage(quoted.amountOut, slippageBps),
+      feeAmount: quoted.feeAmount,
+      outputDecimals,
+      quote: {
+        inputAmount: amountIn,
+        outputAmount: quoted.amountOut,
+        outputDecimals,
+        priceImpactBps: quoted.priceImpactBps,
+        feeBps: pool.feeRate / 100,
+        routePath: `orca:${pool.id.toBase58()}`,
+      },
+    };
+  }
+
+  private async getPoolId(inputMint: PublicKey, outputMint: PublicKey): Promise<PublicKey> {
+    const pairKey = [inputMint.toBase58(), outputMint.toBase58()].sort().join(":");
+    const cached = this.poolIds.get(pairKey);
+    if (cached) {
+      return cached;
+    }
+
+    const poolId = await resolveWhirlpoolId(
+      this.connection,
+      this.orcaConfig,
+      inputMint,
+      outputMint,
+      this.logger
+    );
+    this.poolIds.set(pairKey, poolId);
+    return poolId;
+  }
+}
+
+interface OrcaSwapPlan {
+  pool: WhirlpoolState;
+  aToB: boolean;
+  tickArrays: PublicKey[];
+  amountIn: bigint;
+  amountOut: bigint;
+  minAmountOut: bigint;
+  feeAmount: bigint;
+  outputDecimals: number;
+  quote: Quote;
+}
+
+/**
+ * Wrap `lamports` of SOL into the owner's WSOL account around the given
+ * instructions, unwrapping whatever is left afterwards
+ */
+function buildWrappedSolInstructions(
+  owner: PublicKey,
+  lamports: bigint,
+  instructions: (wsolAccount: PublicKey) => TransactionInstruction[]
+): TransactionInstruction[] {
+  const wsolAccount = getAssociatedTokenAddressSync(NATIVE_MINT, owner);
+
+  const wrapped = [
+    createAssociatedTokenAccountIdempotentInstruction(owner, wsolAccount, owner, NATIVE_MINT),
+  ];
+  if (lamports > 0n) {
+    wrapped.push(
+      SystemProgram.transfer({ fromPubkey: owner, toPubkey: wsolAccount, lamports }),
+      createSyncNativeInstruction(wsolAccount)
+    );
+  }
+  wrapped.push(...instructions(wsolAccount));
+  wrapped.push(createCloseAccountInstruction(wsolAccount, owner, owner));
+
+  return wrapped;
+}
+
+/**
+ * Raydium LP Manager
+ *
+ * Deposits into the same AMM v4 pool the swap engine trades on. The side
+ * that limits the deposit at the pool ratio is deposited exactly; the other
+ * side is bounded by the slippage tolerance. Raydium LP mints share the
+ * pool's base decimals.
+ */
+export class RaydiumLPManager extends LPManager {
+  private pools = new Map<string, RaydiumPoolKeys>();
+
+  constructor(
+    private connection: Connection,
+    private raydiumConfig: RaydiumConfig,
+    private botKeypair: Keypair | null,
+    private sender: TransactionSender,
+    private logger: Logger
+  ) {
+    super();
+  }
+
+  async getReserves(tokenMint: PublicKey): Promise<LPPoolReserves> {
+    const pool = await this.getPool(tokenMint);
+    const reserves = await fetchRaydiumReserves(this.connection, pool);
+    const tokenIsBase = pool.baseMint.equals(tokenMint);
+
+    return {
+      solReserve: tokenIsBase ? reserves.quoteReserve : reserves.baseReserve,
+      tokenReserve: tokenIsBase ? reserves.baseReserve : reserves.quoteReserve,
+    };
+  }
+
   async addLiquidity(
     tokenMint: PublicKey,
-    tokenAmount: number,
-    solAmount: number
+    tokenAmount: bigint,
+    solAmount: bigint,
+    slippageBps: number = 500
   ): Promise<LPAddResult> {
-    // Simulate LP add
-    const lpTokenAmount = tokenAmount * 0.5; // Simplified
+    if (!this.botKeypair) {
+      throw new Error("Raydium LP add requires a bot keypair");
+    }
+
+    const owner = this.botKeypair.publicKey;
+    const pool = await this.getPool(tokenMint);
+    const reserves = await fetchRaydiumReserves(this.connection, pool);
+    const tokenIsBase = pool.baseMint.equals(tokenMint);
+
+    const deposit = tokenIsBase
+      ? sizeProportionalDeposit(
+          tokenAmount,
+          solAmount,
+          reserves.baseReserve,
+          reserves.quoteReserve,
+          slippageBps
+        )
+      : sizeProportionalDeposit(
+          solAmount,
+          tokenAmount,
+          reserves.baseReserve,
+          reserves.quoteReserve,
+          slippageBps
+        );
+    const maxSol = tokenIsBase ? deposit.maxAmountB : deposit.maxAmountA;
+
+    const fixedAmount = deposit.fixedSide === "a" ? deposit.amountA : deposit.amountB;
+    const fixedReserve = deposit.fixedSide === "a" ? reserves.baseReserve : reserves.quoteReserve;
+    const expectedLp = (fixedAmount * reserves.lpSupply) / fixedReserve;
+
+    const tokenAccount = getAssociatedTokenAddressSync(tokenMint, owner);
+    const lpAccount = getAssociatedTokenAddressSync(pool.lpMint, owner);
+    const instructions = buildWrappedSolInstructions(owner, maxSol, (wsolAccount) => [
+      createAssociatedTokenAccountIdempotentInstruction(owner, lpAccount, owner, pool.lpMint),
+      makeRaydiumDepositInstruction(
+        pool,
+        tokenIsBase ? tokenAccount : wsolAccount,
+        tokenIsBase ? wsolAccount : tokenAccount,
+        lpAccount,
+        owner,
+        deposit.maxAmountA,
+        deposit.maxAmountB,
+        deposit.fixedSide === "a" ? "base" : "quote"
+      ),
+    ]);
+
+    const signature = await this.sender.send(instructions, [this.botKeypair]);
+
+    const received = await readOwnerInflow(this.connection, signature, owner, pool.lpMint);
+    if (received === null) {
+      this.logger.warn("Could not read LP tokens received, reporting expected amount", {
+        signature,
+      });
+    }
 
     const result: LPAddResult = {
-      signature: this.generateMockTx(),
-      lpTokenAmount,
+      signature,
+      lpTokenAmount: received ?? expectedLp,
+      lpDecimals: pool.baseDecimals,
     };
 
-    this.logger.info("Mock LP added", {
-      tokenAmount,
-      solAmount,
-      lpTokens: lpTokenAmount,
-    });
+    this.logger.info("Raydium LP added", { ...result, pool: pool.id.toBase58() });
+    return result;
+  }
 
+  async removeLiquidity(
+    tokenMint: PublicKey,
+    lpTokenAmount: bigint
+  ): Promise<{ solAmount: bigint; tokenAmount: bigint }> {
+    if (!this.botKeypair) {
+      throw new Error("Raydium LP removal requires a bot keypair");
+    }
+
+    const owner = this.botKeypair.publicKey;
+    const pool = await this.getPool(tokenMint);
+    const reserves = await fetchRaydiumReserves(this.connection, pool);
+    const tokenIsBase = pool.baseMint.equals(tokenMint);
+
+    const tokenAccount = getAssociatedTokenAddressSync(tokenMint, owner);
+    const lpAccount = getAssociatedTokenAddressSync(pool.lpMint, owner);
+    const instructions = buildWrappedSolInstructions(owner, 0n, (wsolAccount) => [
+      createAssociatedTokenAccountIdempotentInstruction(owner, tokenAccount, owner, tokenMint),
+      makeRaydiumWithdrawInstruction(
+        pool,
+        lpAccount,
+        tokenIsBase ? tokenAccount : wsolAccount,
+        tokenIsBase ? wsolAccount : tokenAccount,
+        owner,
+        lpTokenAmount
+      ),
+    ]);
+
+    const signature = await this.sender.send(instructions, [this.botKeypair]);
+
+    // The pool pays out its reserves pro rata to the LP burned
+    const baseOut = (lpTokenAmount * reserves.baseReserve) / reserves.lpSupply;
+    const quoteOut = (lpTokenAmount * reserves.quoteReserve) / reserves.lpSupply;
+    const withdrawn = {
+      solAmount: tokenIsBase ? quoteOut : baseOut,
+      tokenAmount: tokenIsBase ? baseOut : quoteOut,
+    };
+
+    this.logger.info("Raydium LP removed", { signature, lpTokenAmount, ...withdrawn });
+    return withdrawn;
+  }
+
+  private async getPool(tokenMint: PublicKey): Promise<RaydiumPoolKeys> {
+    const cached = this.pools.get(tokenMint.toBase58());
+    if (cached) {
+      return cached;
+    }
+
+    const pool = await resolveRaydiumPool(
+      this.connection,
+      this.raydiumConfig,
+      tokenMint,
+      NATIVE_MINT,
+      this.logger
+    );
+    this.pools.set(tokenMint.toBase58(), pool);
+    return pool;
+  }
+}
+
+/**
+ * Orca LP Manager
+ *
+ * Each deposit opens a full-range whirlpool position, which behaves like a
+ * constant-product LP share. Reserves are the virtual reserves of the
+ * liquidity active at the current price, and the LP amount recorded is the
+ * position's liquidity.
+ */
+export class OrcaLPManager extends LPManager {
+  private poolIds = new Map<string, PublicKey>();
+
+  constructor(
+    private connection: Connection,
+    private orcaConfig: OrcaConfig,
+    private botKeypair: Keypair | null,
+    private sender: TransactionSender,
+    private logger: Logger
+  ) {
+    super();
+  }
+
+  async getReserves(tokenMint: PublicKey): Promise<LPPoolReserves> {
+    const pool = await fetchWhirlpool(this.connection, await this.getPoolId(tokenMint));
+    const { reserveA, reserveB } = whirlpoolVirtualReserves(pool);
+    const tokenIsA = pool.mintA.equals(tokenMint);
+
+    return {
+      solReserve: tokenIsA ? reserveB : reserveA,
+      tokenReserve: tokenIsA ? reserveA : reserveB,
+    };
+  }
+
+  async addLiquidity(
+    tokenMint: PublicKey,
+    tokenAmount: bigint,
+    solAmount: bigint,
+    slippageBps: number = 500
+  ): Promise<LPAddResult> {
+    if (!this.botKeypair) {
+      throw new Error("Orca LP add requires a bot keypair");
+    }
+
+    const owner = this.botKeypair.publicKey;
+    const pool = await fetchWhirlpool(this.connection, await this.getPoolId(tokenMint));
+    const tokenIsA = pool.mintA.equals(tokenMint);
+
+    const { lower, upper } = getFullRangeTicks(pool.tickSpacing);
+    const liquidity = getLiquidityForAmounts(
+      pool.sqrtPrice,
+      lower,
+      upper,
+      tokenIsA ? tokenAmount : solAmount,
+      tokenIsA ? solAmount : tokenAmount
+    );
+    if (liquidity === 0n) {
+      throw new Error("Deposit too small to add liquidity");
+    }
+
+    const needed = getAmountsForLiquidity(pool.sqrtPrice, lower, upper, liquidity);
+    const maxA = (needed.amountA * BigInt(BPS_DENOMINATOR + slippageBps)) / BigInt(BPS_DENOMINATOR);
+    const maxB = (needed.amountB * BigInt(BPS_DENOMINATOR + slippageBps)) / BigInt(BPS_DENOMINATOR);
+
+    // Full-range positions sit in the outermost tick arrays, which may not exist yet
+    const starts = [
+      getTickArrayStart(lower, pool.tickSpacing),
+      getTickArrayStart(upper, pool.tickSpacing),
+    ];
+    const tickArrays = starts.map((start) => getTickArrayAddress(pool.programId, pool.id, start));
+    const existing = await this.connection.getMultipleAccountsInfo(tickArrays);
+
+    const positionMint = Keypair.generate();
+    const { instruction: openPosition, position } = makeOpenPositionInstruction(
+      pool,
+      owner,
+      positionMint.publicKey,
+      lower,
+      upper
+    );
+
+    const tokenAccount = getAssociatedTokenAddressSync(tokenMint, owner);
+    const maxSol = tokenIsA ? maxB : maxA;
+    const instructions = buildWrappedSolInstructions(owner, maxSol, (wsolAccount) => [
+      ...starts
+        .filter((_, i) => !existing[i])
+        .map((start) => makeInitializeTickArrayInstruction(pool, owner, start)),
+      openPosition,
+      makeIncreaseLiquidityInstruction(
+        pool,
+        owner,
+        position,
+        positionMint.publicKey,
+        tokenIsA ? tokenAccount : wsolAccount,
+        tokenIsA ? wsolAccount : tokenAccount,
+        tickArrays[0],
+        tickArrays[1],
+        liquidity,
+        maxA,
+        maxB
+      ),
+    ]);
+
+    const signature = await this.sender.send(instructions, [this.botKeypair, positionMint]);
+
+    const result: LPAddResult = {
+      signature,
+      lpTokenAmount: liquidity,
+      lpDecimals: 0,
+    };
+
+    this.logger.info("Orca LP position opened", {
+      ...result,
+      pool: pool.id.toBase58(),
+      positionMint: positionMint.publicKey.toBase58(),
+    });
     return result;
   }
 
-  async removeLiquidity(lpTokenAmount: number): Promise<{ solAmount: number; tokenAmount: number }> {
-    this.logger.info("Mock LP removed", { lpTokenAmount });
+  async removeLiquidity(
+    _tokenMint: PublicKey,
+    _lpTokenAmount: bigint
+  ): Promise<{ solAmount: bigint; tokenAmount: bigint }> {
+    throw new Error(
+      "Orca liquidity is held in position NFTs; withdrawing by LP amount is not supported"
+    );
+  }
+
+  private async getPoolId(tokenMint: PublicKey): Promise<PublicKey> {
+    const cached = this.poolIds.get(tokenMint.toBase58());
+    if (cached) {
+      return cached;
+    }
+
+    const poolId = await resolveWhirlpoolId(
+      this.connection,
+      this.orcaConfig,
+      tokenMint,
+      NATIVE_MINT,
+      this.logger
+    );
+    this.poolIds.set(tokenMint.toBase58(), poolId);
+    return poolId;
+  }
+}
+
+/**
+ * Response of an aggregator's GET /quote endpoint (Jupiter v6 shape)
+ */
+interface AggregatorQuoteResponse {
+  inAmount: string;
+  outAmount: string;
+  priceImpactPct: string;
+  routePlan: {
+    swapInfo: { label?: string; ammKey: string; inAmount: string; feeAmount: string };
+  }[];
+}
+
+/**
+ * Aggregator Quote Provider
+ *
+ * Asks an aggregator-style HTTP API for the best route it knows across
+ * venues. Quotes carry the output mint's decimals, which are read on-chain
+ * and cached.
+ */
+export class AggregatorQuoteProvider extends QuoteProvider {
+  private client: AxiosInstance;
+  private decimals = new Map<string, number>();
+
+  constructor(
+    private connection: Connection,
+    aggregatorConfig: AggregatorConfig,
+    private logger: Logger
+  ) {
+    super();
+
+    this.client = axios.create({
+      baseURL: aggregatorConfig.url,
+      timeout: aggregatorConfig.timeoutMs,
+      headers: { Accept: "application/json" },
+    });
+  }
+
+  async getQuote(input: QuoteInput): Promise<Quote> {
+    const { quote } = await this.fetchQuote(input);
+    this.logger.debug("Aggregator quote", quote);
+    return quote;
+  }
+
+  /**
+   * Fetch a quote along with the raw response the /swap endpoint expects back
+   */
+  async fetchQuote(
+    input: QuoteInput
+  ): Promise<{ quote: Quote; response: AggregatorQuoteResponse }> {
+    const outputDecimals = await this.getDecimals(input.outputMint);
+
+    const response = (await this.request("/quote", undefined, {
+      inputMint: input.inputMint.toBase58(),
+      outputMint: input.outputMint.toBase58(),
+      amount: input.amountIn.toString(),
+      slippageBps: input.slippageBps ?? 500,
+    })) as AggregatorQuoteResponse;
+
+    // Hop fees are summed relative to each hop's own input
+    const feeBps = response.routePlan.reduce((total, hop) => {
+      const hopIn = Number(hop.swapInfo.inAmount);
+      return hopIn > 0 ? total + (Number(hop.swapInfo.feeAmount) / hopIn) * BPS_DENOMINATOR : total;
+    }, 0);
+    const hops = response.routePlan.map((hop) => hop.swapInfo.label ?? hop.swapInfo.ammKey);
+
     return {
-      solAmount: lpTokenAmount * 2,
-      tokenAmount: lpTokenAmount * 2,
+      response,
+      quote: {
+        inputAmount: input.amountIn,
+        outputAmount: BigInt(response.outAmount),
+        outputDecimals,
+        priceImpactBps: Math.round(Number(response.priceImpactPct) * BPS_DENOMINATOR),
+        feeBps: Math.round(feeBps),
+        routePath: `aggregator:${hops.join(">")}`,
+      },
     };
   }
 
-  private generateMockTx(): string {
-    return Array.from({ length: 88 })
-      .map(() =>
-        "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789"[
-          Math.floor(Math.random() * 62)
-        ]
-      )
-      .join("");
+  /**
+   * Call the aggregator API, failing after the configured timeout
+   */
+  async request(
+    path: string,
+    body?: unknown,
+    params?: Record<string, string | number>
+  ): Promise<unknown> {
+    try {
+      const response =
+        body === undefined
+          ? await this.client.get(path, { params })
+          : await this.client.post(path, body, { params });
+      return response.data;
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      const reason =
+        status !== undefined
+          ? `HTTP ${status}`
+          : error instanceof Error
+            ? error.message
+            : String(error);
+      throw new Error(`Aggregator ${path} failed: ${reason}`);
+    }
+  }
+
+  private async getDecimals(mint: PublicKey): Promise<number> {
+    const cached = this.decimals.get(mint.toBase58());
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const { decimals } = await getMint(this.connection, mint);
+    this.decimals.set(mint.toBase58(), decimals);
+    return decimals;
   }
 }
 
 /**
- * Raydium Swap Engine (stub - for future implementation)
+ * Aggregator Swap Engine
+ *
+ * Executes the aggregator's route with the transaction its /swap endpoint
+ * builds. SOL is wrapped and unwrapped by the aggregator's transaction.
  */
-export class RaydiumSwapEngine extends SwapEngine {
-  constructor(private logger: Logger) {
+export class AggregatorSwapEngine extends SwapEngine {
+  private provider: AggregatorQuoteProvider;
+
+  constructor(
+    private connection: Connection,
+    aggregatorConfig: AggregatorConfig,
+    private botKeypair: Keypair | null,
+    private sender: TransactionSender,
+    private logger: Logger
+  ) {
     super();
+    this.provider = new AggregatorQuoteProvider(connection, aggregatorConfig, logger);
   }
 
   async swap(
-    _inputMint: PublicKey,
-    _outputMint: PublicKey,
-    _amountIn: number,
-    _slippageBps?: number
+    inputMint: PublicKey,
+    outputMint: PublicKey,
+    amountIn: bigint,
+    slippageBps: number = 500
   ): Promise<SwapResult> {
-    // TODO: Implement Raydium swap
-    // - Fetch pools
-    // - Calculate route
-    // - Build transaction
-    // - Sign and send
-    throw new Error("Raydium swap not yet implemented");
+    if (!this.botKeypair) {
+      throw new Error("Aggregator swap requires a bot keypair");
+    }
+
+    const { quote, response } = await this.provider.fetchQuote({
+      inputMint,
+      outputMint,
+      amountIn,
+      slippageBps,
+    });
+    // The aggregator builds its own compute budget; it is told the price to pay
+    const priorityFee = await this.sender.estimatePriorityFee([]);
+    const botKeypair = this.botKeypair;
+    const signature = await this.sender.sendPrebuilt(async () => {
+      const { swapTransaction, lastValidBlockHeight } = (await this.provider.request("/swap", {
+        quoteResponse: response,
+        userPublicKey: botKeypair.publicKey.toBase58(),
+        wrapAndUnwrapSol: true,
+        dynamicComputeUnitLimit: true,
+        computeUnitPriceMicroLamports: priorityFee,
+      })) as { swapTransaction: string; lastValidBlockHeight: number };
+      return {
+        transaction: VersionedTransaction.deserialize(Buffer.from(swapTransaction, "base64")),
+        lastValidBlockHeight,
+      };
+    }, [botKeypair]);
+
+    const received = outputMint.equals(NATIVE_MINT)
+      ? null
+      : await readOwnerInflow(this.connection, signature, this.botKeypair.publicKey, outputMint);
+    const amountOut = received ?? BigInt(response.outAmount);
+    if (received === null) {
+      this.logger.warn("Could not read received amount, reporting quoted output", { signature });
+    }
+
+    // The aggregator only reports impact at quote time; scale it by the fill
+    const quotedOut = Number(response.outAmount);
+    const shortfallBps =
+      quotedOut > 0 ? Math.max(0, (1 - Number(amountOut) / quotedOut) * BPS_DENOMINATOR) : 0;
+
+    const result: SwapResult = {
+      signature,
+      inputAmount: amountIn,
+      outputAmount: amountOut,
+      outputDecimals: quote.outputDecimals,
+      actualPriceImpactBps: Math.round(quote.priceImpactBps + shortfallBps),
+      routePath: quote.routePath,
+    };
+
+    this.logger.info("Aggregator swap executed", result);
+    return result;
   }
 
   async dryRun(
-    _inputMint: PublicKey,
-    _outputMint: PublicKey,
-    _amountIn: number,
-    _slippageBps?: number
+    inputMint: PublicKey,
+    outputMint: PublicKey,
+    amountIn: bigint,
+    slippageBps: number = 500
   ): Promise<Quote> {
-    // TODO: Implement Raydium quote
-    throw new Error("Raydium dryRun not yet implemented");
+    return this.provider.getQuote({ inputMint, outputMint, amountIn, slippageBps });
   }
 }
 
 /**
- * Orca Swap Engine (stub - for future implementation)
+ * A swap engine the router can send orders to
  */
-export class OrcaSwapEngine extends SwapEngine {
-  constructor(private logger: Logger) {
+export interface RouterVenue {
+  name: string;
+  engine: SwapEngine;
+}
+
+/**
+ * Router Swap Engine
+ *
+ * Quotes every venue concurrently and executes on the one returning the most
+ * output. Venue quotes are already net of pool fees and price impact, so the
+ * output amount is the ranking key; ties go to the lower price impact.
+ * Venues that fail to quote are reported as rejected alternatives.
+ */
+export class RouterSwapEngine extends SwapEngine {
+  constructor(
+    private venues: RouterVenue[],
+    private logger: Logger
+  ) {
     super();
   }
 
   async swap(
-    _inputMint: PublicKey,
-    _outputMint: PublicKey,
-    _amountIn: number,
-    _slippageBps?: number
+    inputMint: PublicKey,
+    outputMint: PublicKey,
+    amountIn: bigint,
+    slippageBps: number = 500
   ): Promise<SwapResult> {
-    // TODO: Implement Orca swap
-    throw new Error("Orca swap not yet implemented");
+    const { venue, quote } = await this.selectRoute(inputMint, outputMint, amountIn, slippageBps);
+    this.logger.info("Routing swap", { route: quote.routePath, venue: venue.name });
+
+    const result = await venue.engine.swap(inputMint, outputMint, amountIn, slippageBps);
+    return {
+      ...result,
+      routePath: result.routePath ?? quote.routePath,
+      alternatives: quote.alternatives,
+    };
   }
 
   async dryRun(
-    _inputMint: PublicKey,
-    _outputMint: PublicKey,
-    _amountIn: number,
-    _slippageBps?: number
+    inputMint: PublicKey,
+    outputMint: PublicKey,
+    amountIn: bigint,
+    slippageBps: number = 500
   ): Promise<Quote> {
-    // TODO: Implement Orca quote
-    throw new Error("Orca dryRun not yet implemented");
+    const { quote } = await this.selectRoute(inputMint, outputMint, amountIn, slippageBps);
+    return quote;
+  }
+
+  /**
+   * Quote all venues and rank them. The winning quote carries the losers in
+   * `alternatives`, best first, followed by the venues that failed.
+   */
+  private async selectRoute(
+    inputMint: PublicKey,
+    outputMint: PublicKey,
+    amountIn: bigint,
+    slippageBps: number
+  ): Promise<{ venue: RouterVenue; quote: Quote }> {
+    const settled = await Promise.allSettled(
+      this.venues.map((venue) => venue.engine.dryRun(inputMint, outputMint, amountIn, slippageBps))
+    );
+
+    const quoted: { venue: RouterVenue; quote: Quote }[] = [];
+    const failed: RouteAlternative[] = [];
+    settled.forEach((outcome, i) => {
+      const venue = this.venues[i];
+      if (outcome.status === "fulfilled") {
+        quoted.push({ venue, quote: outcome.value });
+      } else {
+        const reason = outcome.reason;
+        failed.push({
+          routePath: venue.name,
+          outputAmount: null,
+          priceImpactBps: null,
+          error: reason instanceof Error ? reason.message : String(reason),
+        });
+      }
+    });
+
+    if (quoted.length === 0) {
+      throw new Error(
+        `No venue could quote the swap: ${failed.map((f) => `${f.routePath}: ${f.error}`).join("; ")}`
+      );
+    }
+
+    quoted.sort((a, b) =>
+      a.quote.outputAmount === b.quote.outputAmount
+        ? a.quote.priceImpactBps - b.quote.priceImpactBps
+        : a.quote.outputAmount > b.quote.outputAmount
+          ? -1
+          : 1
+    );
+
+    const [best, ...rest] = quoted;
+    const alternatives: RouteAlternative[] = [
+      ...rest.map(({ quote }) => ({
+        routePath: quote.routePath,
+        outputAmount: fromBaseUnits(quote.outputAmount, quote.outputDecimals),
+        priceImpactBps: quote.priceImpactBps,
+      })),
+      ...failed,
+    ];
+
+    this.logger.debug("Route selected", { route: best.quote.routePath, alternatives });
+    return { venue: best.venue, quote: { ...best.quote, alternatives } };
   }
 }
 
@@ -241,18 +1388,49 @@ export class OrcaSwapEngine extends SwapEngine {
  * Factory to create DEX engine
  */
 export function createSwapEngine(
-  dexType: "mock" | "raydium" | "orca",
-  logger: Logger
+  config: ProtocolConfig,
+  connection: Connection,
+  logger: Logger,
+  simulatedPool: SimulatedPool = new SimulatedPool(config.simulatedPool, logger),
+  sender: TransactionSender = new TransactionSender(connection, config.transactions, logger)
 ): SwapEngine {
-  switch (dexType) {
+  switch (config.dexEngine) {
     case "mock":
-      return new MockSwapEngine(logger);
+      return new MockSwapEngine(simulatedPool, logger);
     case "raydium":
-      return new RaydiumSwapEngine(logger);
+      return new RaydiumSwapEngine(
+        connection,
+        config.raydium,
+        config.botKeypair || null,
+        sender,
+        logger
+      );
     case "orca":
-      return new OrcaSwapEngine(logger);
+      return new OrcaSwapEngine(connection, config.orca, config.botKeypair || null, sender, logger);
+    case "aggregator":
+      return new AggregatorSwapEngine(
+        connection,
+        config.aggregator,
+        config.botKeypair || null,
+        sender,
+        logger
+      );
+    case "router":
+      return new RouterSwapEngine(
+        config.router.venues.map((name) => ({
+          name,
+          engine: createSwapEngine(
+            { ...config, dexEngine: name },
+            connection,
+            logger,
+            simulatedPool,
+            sender
+          ),
+        })),
+        logger
+      );
     default:
-      throw new Error(`Unknown DEX engine: ${dexType}`);
+      throw new Error(`Unknown DEX engine: ${config.dexEngine}`);
   }
 }
 
@@ -260,14 +1438,26 @@ export function createSwapEngine(
  * Factory to create LP manager
  */
 export function createLPManager(
-  dexType: "mock" | "raydium" | "orca",
-  logger: Logger
+  config: ProtocolConfig,
+  connection: Connection,
+  logger: Logger,
+  simulatedPool: SimulatedPool,
+  sender: TransactionSender = new TransactionSender(connection, config.transactions, logger)
 ): LPManager {
-  switch (dexType) {
+  switch (config.lpEngine) {
     case "mock":
-      return new MockLPManager(logger);
-    // TODO: Add Raydium and Orca LP managers
+      return new MockLPManager(simulatedPool, logger);
+    case "raydium":
+      return new RaydiumLPManager(
+        connection,
+        config.raydium,
+        config.botKeypair || null,
+        sender,
+        logger
+      );
+    case "orca":
+      return new OrcaLPManager(connection, config.orca, config.botKeypair || null, sender, logger);
     default:
-      throw new Error(`LP manager not implemented for ${dexType}`);
+      throw new Error(`LP manager not implemented for ${config.lpEngine}`);
   }
 }
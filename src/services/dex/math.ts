@@ -0,0 +1,127 @@
+/**
+ * Shared AMM math. Amounts are integer base units (bigint) so quotes match
+ * what the on-chain programs compute.
+ */
+
+export const BPS_DENOMINATOR = 10_000;
+
+export interface ConstantProductQuote {
+  amountOut: bigint;
+  feeAmount: bigint; // taken from the input side
+  priceImpactBps: number;
+}
+
+/**
+ * Convert a UI amount into integer base units, rounding down
+ */
+export function toBaseUnits(amount: number, decimals: number): bigint {
+  return BigInt(Math.floor(amount * 10 ** decimals));
+}
+
+/**
+ * Convert integer base units into a UI amount
+ */
+export function fromBaseUnits(amount: bigint, decimals: number): number {
+  return Number(amount) / 10 ** decimals;
+}
+
+/**
+ * Quote an exact-input swap on an x*y=k pool. The fee is charged on the
+ * input (rounded up) and the output is rounded down, as the AMM programs do.
+ * Price impact is measured against the spot price after fees.
+ */
+export function quoteConstantProduct(
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeNumerator: bigint,
+  feeDenominator: bigint
+): ConstantProductQuote {
+  if (reserveIn <= 0n || reserveOut <= 0n) {
+    throw new Error("Pool has no liquidity");
+  }
+
+  const feeAmount = (amountIn * feeNumerator + feeDenominator - 1n) / feeDenominator;
+  const amountInAfterFee = amountIn - feeAmount;
+  const amountOut = (reserveOut * amountInAfterFee) / (reserveIn + amountInAfterFee);
+
+  return {
+    amountOut,
+    feeAmount,
+    priceImpactBps: realizedPriceImpactBps(amountInAfterFee, amountOut, reserveIn, reserveOut),
+  };
+}
+
+/**
+ * Shortfall of `amountOut` against the spot price, in basis points
+ */
+export function realizedPriceImpactBps(
+  amountInAfterFee: bigint,
+  amountOut: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint
+): number {
+  const spotOut = (Number(amountInAfterFee) * Number(reserveOut)) / Number(reserveIn);
+  if (spotOut <= 0) {
+    return 0;
+  }
+  return Math.max(0, Math.round((1 - Number(amountOut) / spotOut) * BPS_DENOMINATOR));
+}
+
+/**
+ * Minimum acceptable output for the given slippage tolerance
+ */
+export function applySlippage(amountOut: bigint, slippageBps: number): bigint {
+  return (amountOut * BigInt(BPS_DENOMINATOR - slippageBps)) / BigInt(BPS_DENOMINATOR);
+}
+
+/**
+ * Amounts of a two-sided deposit at the pool ratio
+ */
+export interface ProportionalDeposit {
+  fixedSide: "a" | "b"; // the side deposited exactly
+  amountA: bigint;
+  amountB: bigint;
+  maxAmountA: bigint; // bounds passed to the program, slippage included
+  maxAmountB: bigint;
+}
+
+/**
+ * Size a deposit that uses as much of the offered amounts as the pool ratio
+ * allows. The limiting side is deposited exactly; the other side may move by
+ * up to `slippageBps` before the deposit lands.
+ */
+export function sizeProportionalDeposit(
+  offeredA: bigint,
+  offeredB: bigint,
+  reserveA: bigint,
+  reserveB: bigint,
+  slippageBps: number
+): ProportionalDeposit {
+  if (reserveA <= 0n || reserveB <= 0n) {
+    throw new Error("Pool has no liquidity");
+  }
+
+  const withSlippage = (amount: bigint): bigint =>
+    (amount * BigInt(BPS_DENOMINATOR + slippageBps)) / BigInt(BPS_DENOMINATOR);
+
+  if (offeredA * reserveB <= offeredB * reserveA) {
+    const amountB = (offeredA * reserveB + reserveA - 1n) / reserveA;
+    return {
+      fixedSide: "a",
+      amountA: offeredA,
+      amountB,
+      maxAmountA: offeredA,
+      maxAmountB: withSlippage(amountB),
+    };
+  }
+
+  const amountA = (offeredB * reserveA + reserveB - 1n) / reserveB;
+  return {
+    fixedSide: "b",
+    amountA,
+    amountB: offeredB,
+    maxAmountA: withSlippage(amountA),
+    maxAmountB: offeredB,
+  };
+}
@@ -0,0 +1,334 @@
+import { Connection, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { AccountLayout, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+
+/**
+ * Raydium AMM v4 account layouts and instructions.
+ *
+ * Decoded by hand: the published @raydium-io/raydium-sdk 1.3.0 package
+ * ships without its build output and cannot be loaded. Offsets follow the
+ * program's LIQUIDITY_STATE_LAYOUT_V4 and the OpenBook MARKET_STATE_LAYOUT_V3.
+ */
+
+const AMM_STATE_SIZE = 752;
+const AMM_OFFSETS = {
+  baseDecimal: 32,
+  quoteDecimal: 40,
+  swapFeeNumerator: 176,
+  swapFeeDenominator: 184,
+  baseNeedTakePnl: 192,
+  quoteNeedTakePnl: 200,
+  baseVault: 336,
+  quoteVault: 368,
+  baseMint: 400,
+  quoteMint: 432,
+  lpMint: 464,
+  openOrders: 496,
+  marketId: 528,
+  marketProgramId: 560,
+  targetOrders: 592,
+  lpReserve: 720,
+};
+
+const MARKET_OFFSETS = {
+  vaultSignerNonce: 45,
+  baseVault: 117,
+  quoteVault: 165,
+  eventQueue: 253,
+  bids: 285,
+  asks: 317,
+};
+
+// AMM v4 instruction indices
+const DEPOSIT_INSTRUCTION = 3;
+const WITHDRAW_INSTRUCTION = 4;
+const SWAP_BASE_IN_INSTRUCTION = 9;
+
+/**
+ * Static accounts of an AMM v4 pool and its OpenBook market
+ */
+export interface RaydiumPoolKeys {
+  id: PublicKey;
+  programId: PublicKey;
+  authority: PublicKey;
+  openOrders: PublicKey;
+  targetOrders: PublicKey;
+  baseMint: PublicKey;
+  quoteMint: PublicKey;
+  baseVault: PublicKey;
+  quoteVault: PublicKey;
+  lpMint: PublicKey;
+  baseDecimals: number;
+  quoteDecimals: number;
+  marketProgramId: PublicKey;
+  marketId: PublicKey;
+  marketAuthority: PublicKey;
+  marketBids: PublicKey;
+  marketAsks: PublicKey;
+  marketEventQueue: PublicKey;
+  marketBaseVault: PublicKey;
+  marketQuoteVault: PublicKey;
+}
+
+/**
+ * Tradeable reserves and swap fee at the time of the fetch
+ */
+export interface RaydiumPoolReserves {
+  baseReserve: bigint;
+  quoteReserve: bigint;
+  feeNumerator: bigint;
+  feeDenominator: bigint;
+  lpSupply: bigint; // LP tokens outstanding, in LP mint base units
+}
+
+function readKey(data: Buffer, offset: number): PublicKey {
+  return new PublicKey(data.subarray(offset, offset + 32));
+}
+
+function readU64(data: Buffer, offset: number): bigint {
+  return data.readBigUInt64LE(offset);
+}
+
+/**
+ * Find the AMM v4 pool trading the two mints, in either orientation.
+ * When several exist, the one with the most LP supply is used.
+ */
+export async function findRaydiumPool(
+  connection: Connection,
+  programId: PublicKey,
+  mintA: PublicKey,
+  mintB: PublicKey
+): Promise<PublicKey | null> {
+  const orientations = [
+    [mintA, mintB],
+    [mintB, mintA],
+  ];
+
+  const candidates = [];
+  for (const [base, quote] of orientations) {
+    const accounts = await connection.getProgramAccounts(programId, {
+      filters: [
+        { dataSize: AMM_STATE_SIZE },
+        { memcmp: { offset: AMM_OFFSETS.baseMint, bytes: base.toBase58() } },
+        { memcmp: { offset: AMM_OFFSETS.quoteMint, bytes: quote.toBase58() } },
+      ],
+    });
+    candidates.push(...accounts);
+  }
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const deepest = candidates.reduce((best, candidate) =>
+    readU64(candidate.account.data, AMM_OFFSETS.lpReserve) >
+    readU64(best.account.data, AMM_OFFSETS.lpReserve)
+      ? candidate
+      : best
+  );
+  return deepest.pubkey;
+}
+
+/**
+ * Load the static accounts of a pool and its market
+ */
+export async function loadRaydiumPoolKeys(
+  connection: Connection,
+  poolId: PublicKey
+): Promise<RaydiumPoolKeys> {
+  const poolAccount = await connection.getAccountInfo(poolId);
+  if (!poolAccount || poolAccount.data.length !== AMM_STATE_SIZE) {
+    throw new Error(`Raydium pool ${poolId.toBase58()} not found`);
+  }
+
+  const amm = poolAccount.data;
+  const programId = poolAccount.owner;
+  const marketId = readKey(amm, AMM_OFFSETS.marketId);
+  const marketProgramId = readKey(amm, AMM_OFFSETS.marketProgramId);
+
+  const marketAccount = await connection.getAccountInfo(marketId);
+  if (!marketAccount) {
+    throw new Error(`OpenBook market ${marketId.toBase58()} not found`);
+  }
+  const market = marketAccount.data;
+
+  const nonce = Buffer.alloc(8);
+  nonce.writeBigUInt64LE(readU64(market, MARKET_OFFSETS.vaultSignerNonce));
+
+  return {
+    id: poolId,
+    programId,
+    authority: PublicKey.findProgramAddressSync([Buffer.from("amm authority")], programId)[0],
+    openOrders: readKey(amm, AMM_OFFSETS.openOrders),
+    targetOrders: readKey(amm, AMM_OFFSETS.targetOrders),
+    baseMint: readKey(amm, AMM_OFFSETS.baseMint),
+    quoteMint: readKey(amm, AMM_OFFSETS.quoteMint),
+    baseVault: readKey(amm, AMM_OFFSETS.baseVault),
+    quoteVault: readKey(amm, AMM_OFFSETS.quoteVault),
+    lpMint: readKey(amm, AMM_OFFSETS.lpMint),
+    baseDecimals: Number(readU64(amm, AMM_OFFSETS.baseDecimal)),
+    quoteDecimals: Number(readU64(amm, AMM_OFFSETS.quoteDecimal)),
+    marketProgramId,
+    marketId,
+    marketAuthority: PublicKey.createProgramAddressSync(
+      [marketId.toBuffer(), nonce],
+      marketProgramId
+    ),
+    marketBids: readKey(market, MARKET_OFFSETS.bids),
+    marketAsks: readKey(market, MARKET_OFFSETS.asks),
+    marketEventQueue: readKey(market, MARKET_OFFSETS.eventQueue),
+    marketBaseVault: readKey(market, MARKET_OFFSETS.baseVault),
+    marketQuoteVault: readKey(market, MARKET_OFFSETS.quoteVault),
+  };
+}
+
+/**
+ * Read the current reserves from the pool vaults, net of the PnL the pool
+ * still owes to the protocol
+ */
+export async function fetchRaydiumReserves(
+  connection: Connection,
+  pool: RaydiumPoolKeys
+): Promise<RaydiumPoolReserves> {
+  const [poolAccount, baseVault, quoteVault] = await connection.getMultipleAccountsInfo([
+    pool.id,
+    pool.baseVault,
+    pool.quoteVault,
+  ]);
+
+  if (!poolAccount || !baseVault || !quoteVault) {
+    throw new Error(`Raydium pool ${pool.id.toBase58()} accounts not found`);
+  }
+
+  const amm = poolAccount.data;
+  const baseBalance = AccountLayout.decode(baseVault.data).amount;
+  const quoteBalance = AccountLayout.decode(quoteVault.data).amount;
+
+  return {
+    baseReserve: baseBalance - readU64(amm, AMM_OFFSETS.baseNeedTakePnl),
+    quoteReserve: quoteBalance - readU64(amm, AMM_OFFSETS.quoteNeedTakePnl),
+    feeNumerator: readU64(amm, AMM_OFFSETS.swapFeeNumerator),
+    feeDenominator: readU64(amm, AMM_OFFSETS.swapFeeDenominator),
+    lpSupply: readU64(amm, AMM_OFFSETS.lpReserve),
+  };
+}
+
+/**
+ * Build an exact-input swap instruction
+ */
+export function makeRaydiumSwapInstruction(
+  pool: RaydiumPoolKeys,
+  userSource: PublicKey,
+  userDestination: PublicKey,
+  owner: PublicKey,
+  amountIn: bigint,
+  minAmountOut: bigint
+): TransactionInstruction {
+  const data = Buffer.alloc(17);
+  data.writeUInt8(SWAP_BASE_IN_INSTRUCTION, 0);
+  data.writeBigUInt64LE(amountIn, 1);
+  data.writeBigUInt64LE(minAmountOut, 9);
+
+  const keys = [
+    { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: pool.id, isSigner: false, isWritable: true },
+    { pubkey: pool.authority, isSigner: false, isWritable: false },
+    { pubkey: pool.openOrders, isSigner: false, isWritable: true },
+    { pubkey: pool.targetOrders, isSigner: false, isWritable: true },
+    { pubkey: pool.baseVault, isSigner: false, isWritable: true },
+    { pubkey: pool.quoteVault, isSigner: false, isWritable: true },
+    { pubkey: pool.marketProgramId, isSigner: false, isWritable: false },
+    { pubkey: pool.marketId, isSigner: false, isWritable: true },
+    { pubkey: pool.marketBids, isSigner: false, isWritable: true },
+    { pubkey: pool.marketAsks, isSigner: false, isWritable: true },
+    { pubkey: pool.marketEventQueue, isSigner: false, isWritable: true },
+    { pubkey: pool.marketBaseVault, isSigner: false, isWritable: true },
+    { pubkey: pool.marketQuoteVault, isSigner: false, isWritable: true },
+    { pubkey: pool.marketAuthority, isSigner: false, isWritable: false },
+    { pubkey: userSource, isSigner: false, isWritable: true },
+    { pubkey: userDestination, isSigner: false, isWritable: true },
+    { pubkey: owner, isSigner: true, isWritable: false },
+  ];
+
+  return new TransactionInstruction({ programId: pool.programId, keys, data });
+}
+
+/**
+ * Build a deposit instruction. The `fixedSide` amount is deposited exactly;
+ * the pool takes up to the other maximum to keep its ratio.
+ */
+export function makeRaydiumDepositInstruction(
+  pool: RaydiumPoolKeys,
+  userBase: PublicKey,
+  userQuote: PublicKey,
+  userLp: PublicKey,
+  owner: PublicKey,
+  maxBaseAmount: bigint,
+  maxQuoteAmount: bigint,
+  fixedSide: "base" | "quote"
+): TransactionInstruction {
+  const data = Buffer.alloc(25);
+  data.writeUInt8(DEPOSIT_INSTRUCTION, 0);
+  data.writeBigUInt64LE(maxBaseAmount, 1);
+  data.writeBigUInt64LE(maxQuoteAmount, 9);
+  data.writeBigUInt64LE(fixedSide === "base" ? 0n : 1n, 17);
+
+  const keys = [
+    { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: pool.id, isSigner: false, isWritable: true },
+    { pubkey: pool.authority, isSigner: false, isWritable: false },
+    { pubkey: pool.openOrders, isSigner: false, isWritable: false },
+    { pubkey: pool.targetOrders, isSigner: false, isWritable: true },
+    { pubkey: pool.lpMint, isSigner: false, isWritable: true },
+    { pubkey: pool.baseVault, isSigner: false, isWritable: true },
+    { pubkey: pool.quoteVault, isSigner: false, isWritable: true },
+    { pubkey: pool.marketId, isSigner: false, isWritable: false },
+    { pubkey: userBase, isSigner: false, isWritable: true },
+    { pubkey: userQuote, isSigner: false, isWritable: true },
+    { pubkey: userLp, isSigner: false, isWritable: true },
+    { pubkey: owner, isSigner: true, isWritable: false },
+    { pubkey: pool.marketEventQueue, isSigner: false, isWritable: false },
+  ];
+
+  return new TransactionInstruction({ programId: pool.programId, keys, data });
+}
+
+/**
+ * Build a withdraw instruction burning `lpAmount` for both reserves
+ */
+export function makeRaydiumWithdrawInstruction(
+  pool: RaydiumPoolKeys,
+  userLp: PublicKey,
+  userBase: PublicKey,
+  userQuote: PublicKey,
+  owner: PublicKey,
+  lpAmount: bigint
+): TransactionInstruction {
+  const data = Buffer.alloc(9);
+  data.writeUInt8(WITHDRAW_INSTRUCTION, 0);
+  data.writeBigUInt64LE(lpAmount, 1);
+
+  const keys = [
+    { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: pool.id, isSigner: false, isWritable: true },
+    { pubkey: pool.authority, isSigner: false, isWritable: false },
+    { pubkey: pool.openOrders, isSigner: false, isWritable: true },
+    { pubkey: pool.targetOrders, isSigner: false, isWritable: true },
+    { pubkey: pool.lpMint, isSigner: false, isWritable: true },
+    { pubkey: pool.baseVault, isSigner: false, isWritable: true },
+    { pubkey: pool.quoteVault, isSigner: false, isWritable: true },
+    { pubkey: pool.marketProgramId, isSigner: false, isWritable: false },
+    { pubkey: pool.marketId, isSigner: false, isWritable: true },
+    { pubkey: pool.marketBaseVault, isSigner: false, isWritable: true },
+    { pubkey: pool.marketQuoteVault, isSigner: false, isWritable: true },
+    { pubkey: pool.marketAuthority, isSigner: false, isWritable: false },
+    { pubkey: userLp, isSigner: false, isWritable: true },
+    { pubkey: userBase, isSigner: false, isWritable: true },
+    { pubkey: userQuote, isSigner: false, isWritable: true },
+    { pubkey: owner, isSigner: true, isWritable: false },
+    { pubkey: pool.marketEventQueue, isSigner: false, isWritable: true },
+    { pubkey: pool.marketBids, isSigner: false, isWritable: true },
+    { pubkey: pool.marketAsks, isSigner: false, isWritable: true },
+  ];
+
+  return new TransactionInstruction({ programId: pool.programId, keys, data });
+}
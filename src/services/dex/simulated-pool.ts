@@ -0,0 +1,235 @@
+import { Logger, SimulatedPoolConfig } from "../../types";
+import { RandomSource, createRandom, randomBetween } from "../../utils/random";
+import {
+  BPS_DENOMINATOR,
+  ConstantProductQuote,
+  fromBaseUnits,
+  quoteConstantProduct,
+  toBaseUnits,
+} from "./math";
+
+const SOL_DECIMALS = 9;
+
+/**
+ * Direction of a swap against the pool
+ */
+export type SimulatedSwapSide = "buy" | "sell"; // buy: SOL -> $ice, sell: $ice -> SOL
+
+/**
+ * Pool state in UI amounts
+ */
+export interface SimulatedPoolState {
+  solReserve: number;
+  tokenReserve: number;
+  lpSupply: number;
+  priceSol: number; // SOL per $ice at the spot price
+}
+
+/**
+ * Outcome of an LP deposit, in base units. Only the amounts matching the
+ * pool ratio are taken; the rest stays with the depositor.
+ */
+export interface SimulatedDeposit {
+  lpMinted: bigint;
+  solUsed: bigint;
+  tokenUsed: bigint;
+}
+
+/**
+ * Simulated Pool
+ *
+ * An x*y=k SOL/$ice pool held in memory, used by the mock DEX so simulations
+ * see real slippage. Reserves move with every swap, LP deposit and LP burn,
+ * and optionally with synthetic trades by other wallets each epoch.
+ * Amounts are base units (lamports, token and LP base units) and quoted
+ * with the same math as the on-chain constant-product engines; only
+ * getState() reports UI amounts.
+ */
+export class SimulatedPool {
+  private solReserve: bigint;
+  private tokenReserve: bigint;
+  private lpSupply: bigint;
+  private feeNumerator: bigint;
+  private random: RandomSource;
+
+  constructor(
+    private poolConfig: SimulatedPoolConfig,
+    private logger: Logger
+  ) {
+    this.solReserve = toBaseUnits(poolConfig.solReserve, SOL_DECIMALS);
+    this.tokenReserve = toBaseUnits(poolConfig.tokenReserve, poolConfig.tokenDecimals);
+    // Initial LP supply follows the geometric mean of the deposit, as Raydium and Uniswap v2 do
+    this.lpSupply = sqrt(this.solReserve * this.tokenReserve);
+    this.feeNumerator = BigInt(poolConfig.feeBps);
+    this.random = createRandom(poolConfig.seed);
+  }
+
+  get feeBps(): number {
+    return this.poolConfig.feeBps;
+  }
+
+  get tokenDecimals(): number {
+    return this.poolConfig.tokenDecimals;
+  }
+
+  // LP amounts use the mean of both sides' decimals
+  get lpDecimals(): number {
+    return Math.floor((SOL_DECIMALS + this.poolConfig.tokenDecimals) / 2);
+  }
+
+  getState(): SimulatedPoolState {
+    const solReserve = fromBaseUnits(this.solReserve, SOL_DECIMALS);
+    const tokenReserve = fromBaseUnits(this.tokenReserve, this.poolConfig.tokenDecimals);
+    return {
+      solReserve,
+      tokenReserve,
+      lpSupply: fromBaseUnits(this.lpSupply, this.lpDecimals),
+      priceSol: solReserve / tokenReserve,
+    };
+  }
+
+  /**
+   * Current reserves in base units
+   */
+  getReserves(): { solReserve: bigint; tokenReserve: bigint } {
+    return { solReserve: this.solReserve, tokenReserve: this.tokenReserve };
+  }
+
+  /**
+   * Decimals of what a swap on the given side pays out
+   */
+  outputDecimals(side: SimulatedSwapSide): number {
+    return side === "buy" ? this.poolConfig.tokenDecimals : SOL_DECIMALS;
+  }
+
+  /**
+   * Quote a swap without changing the reserves. `amountIn` is in base units
+   * of the input side (lamports for buys, $ice for sells).
+   */
+  quote(side: SimulatedSwapSide, amountIn: bigint): ConstantProductQuote {
+    if (amountIn <= 0n) {
+      throw new Error(`Swap amount ${amountIn} must be at least one base unit`);
+    }
+
+    const [reserveIn, reserveOut] =
+      side === "buy" ? [this.solReserve, this.tokenReserve] : [this.tokenReserve, this.solReserve];
+    return quoteConstantProduct(
+      amountIn,
+      reserveIn,
+      reserveOut,
+      this.feeNumerator,
+      BigInt(BPS_DENOMINATOR)
+    );
+  }
+
+  /**
+   * Execute a swap. The fee stays in the pool, so k grows with every trade.
+   */
+  swap(side: SimulatedSwapSide, amountIn: bigint): ConstantProductQuote {
+    const quoted = this.quote(side, amountIn);
+
+    if (side === "buy") {
+      this.solReserve += amountIn;
+      this.tokenReserve -= quoted.amountOut;
+    } else {
+      this.tokenReserve += amountIn;
+      this.solReserve -= quoted.amountOut;
+    }
+
+    return quoted;
+  }
+
+  /**
+   * Deposit liquidity at the current pool ratio. The side that would exceed
+   * the ratio is trimmed.
+   */
+  addLiquidity(solIn: bigint, tokenIn: bigint): SimulatedDeposit {
+    const lpForSol = (solIn * this.lpSupply) / this.solReserve;
+    const lpForToken = (tokenIn * this.lpSupply) / this.tokenReserve;
+    const lpMinted = lpForSol < lpForToken ? lpForSol : lpForToken;
+    if (lpMinted <= 0n) {
+      throw new Error("Deposit too small to mint LP tokens");
+    }
+
+    // Round the deposit up so the minted share is always fully paid for
+    const solUsed = ceilDiv(lpMinted * this.solReserve, this.lpSupply);
+    const tokenUsed = ceilDiv(lpMinted * this.tokenReserve, this.lpSupply);
+
+    this.solReserve += solUsed;
+    this.tokenReserve += tokenUsed;
+    this.lpSupply += lpMinted;
+
+    return { lpMinted, solUsed, tokenUsed };
+  }
+
+  /**
+   * Burn LP tokens for their share of both reserves
+   */
+  removeLiquidity(lpIn: bigint): { solAmount: bigint; tokenAmount: bigint } {
+    if (lpIn > this.lpSupply) {
+      throw new Error(`Cannot burn ${lpIn} LP base units, supply is ${this.lpSupply}`);
+    }
+
+    const solOut = (lpIn * this.solReserve) / this.lpSupply;
+    const tokenOut = (lpIn * this.tokenReserve) / this.lpSupply;
+
+    this.solReserve -= solOut;
+    this.tokenReserve -= tokenOut;
+    this.lpSupply -= lpIn;
+
+    return { solAmount: solOut, tokenAmount: tokenOut };
+  }
+
+  /**
+   * Let other wallets trade against the pool for one epoch. Each trade is a
+   * buy or sell of up to `externalTradeMaxSol` worth of SOL at the spot price.
+   */
+  simulateExternalTrades(): void {
+    const { externalTradesPerEpoch, externalTradeMaxSol } = this.poolConfig;
+    if (externalTradesPerEpoch <= 0) {
+      return;
+    }
+
+    const before = this.getState().priceSol;
+    for (let i = 0; i < externalTradesPerEpoch; i++) {
+      const side: SimulatedSwapSide = this.random() < 0.5 ? "buy" : "sell";
+      const solValue = randomBetween(this.random, 0, externalTradeMaxSol);
+      const amountIn =
+        side === "buy"
+          ? toBaseUnits(solValue, SOL_DECIMALS)
+          : toBaseUnits(solValue / this.getState().priceSol, this.poolConfig.tokenDecimals);
+
+      try {
+        this.swap(side, amountIn);
+      } catch {
+        // Dust trades that round to nothing are skipped
+        continue;
+      }
+    }
+
+    const after = this.getState();
+    this.logger.debug("Simulated external trades", {
+      trades: externalTradesPerEpoch,
+      priceChangeBps: Math.round((after.priceSol / before - 1) * BPS_DENOMINATOR),
+      solReserve: after.solReserve,
+      tokenReserve: after.tokenReserve,
+    });
+  }
+}
+
+function sqrt(value: bigint): bigint {
+  if (value < 2n) {
+    return value;
+  }
+  let x = value;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / 2n;
+  }
+  return x;
+}
+
+function ceilDiv(numerator: bigint, denominator: bigint): bigint {
+  return (numerator + denominator - 1n) / denominator;
+}
@@ -0,0 +1,649 @@
+import {
+  Connection,
+  PublicKey,
+  SYSVAR_RENT_PUBKEY,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+
+/**
+ * Orca Whirlpool (concentrated liquidity) account layouts, swap math and
+ * instructions.
+ *
+ * Prices are Q64.64 square roots as stored on-chain. Tick prices are derived
+ * with floating point, so a quote may differ from the program's result by a
+ * few base units; the swap's slippage threshold absorbs that.
+ */
+
+const WHIRLPOOL_SIZE = 653;
+const WHIRLPOOL_OFFSETS = {
+  tickSpacing: 41,
+  feeRate: 45,
+  liquidity: 49,
+  sqrtPrice: 65,
+  tickCurrentIndex: 81,
+  tokenMintA: 101,
+  tokenVaultA: 133,
+  tokenMintB: 181,
+  tokenVaultB: 213,
+};
+
+const TICK_ARRAY_SIZE = 88;
+const TICK_ARRAY_START_OFFSET = 8;
+const TICK_ARRAY_TICKS_OFFSET = 12;
+const TICK_SIZE = 113;
+
+// Fee rates are in hundredths of a basis point
+const FEE_RATE_DENOMINATOR = 1_000_000n;
+
+const MIN_SQRT_PRICE = 4295048016n;
+const MAX_SQRT_PRICE = 79226673515401279992447579055n;
+const MIN_TICK_INDEX = -443636;
+const MAX_TICK_INDEX = 443636;
+
+// Anchor instruction discriminators
+const SWAP_DISCRIMINATOR = Buffer.from([248, 198, 158, 145, 225, 117, 135, 200]);
+const OPEN_POSITION_DISCRIMINATOR = Buffer.from([135, 128, 47, 77, 15, 152, 240, 49]);
+const INCREASE_LIQUIDITY_DISCRIMINATOR = Buffer.from([46, 156, 243, 118, 13, 205, 251, 178]);
+const INITIALIZE_TICK_ARRAY_DISCRIMINATOR = Buffer.from([11, 188, 193, 214, 141, 91, 149, 184]);
+
+// The swap instruction accepts exactly three tick arrays
+const SWAP_TICK_ARRAYS = 3;
+
+/**
+ * Pool state needed to quote and build a swap
+ */
+export interface WhirlpoolState {
+  id: PublicKey;
+  programId: PublicKey;
+  tickSpacing: number;
+  feeRate: number; // hundredths of a basis point
+  liquidity: bigint;
+  sqrtPrice: bigint; // Q64.64
+  tickCurrentIndex: number;
+  mintA: PublicKey;
+  mintB: PublicKey;
+  vaultA: PublicKey;
+  vaultB: PublicKey;
+  decimalsA: number;
+  decimalsB: number;
+}
+
+interface InitializedTick {
+  index: number;
+  liquidityNet: bigint;
+}
+
+/**
+ * Tick arrays a swap will traverse, in swap direction
+ */
+export interface WhirlpoolTickArrays {
+  addresses: PublicKey[]; // always SWAP_TICK_ARRAYS entries
+  ticks: InitializedTick[];
+  boundaryTick: number; // furthest tick covered by the loaded arrays
+}
+
+export interface WhirlpoolSwapQuote {
+  amountIn: bigint; // including fee
+  amountOut: bigint;
+  feeAmount: bigint;
+  priceImpactBps: number;
+}
+
+function readKey(data: Buffer, offset: number): PublicKey {
+  return new PublicKey(data.subarray(offset, offset + 32));
+}
+
+function readU128(data: Buffer, offset: number): bigint {
+  return data.readBigUInt64LE(offset) + (data.readBigUInt64LE(offset + 8) << 64n);
+}
+
+function readI128(data: Buffer, offset: number): bigint {
+  return data.readBigUInt64LE(offset) + (data.readBigInt64LE(offset + 8) << 64n);
+}
+
+/**
+ * Find the whirlpool trading the two mints. When several fee tiers exist,
+ * the one with the most active liquidity is used.
+ */
+export async function findWhirlpool(
+  connection: Connection,
+  programId: PublicKey,
+  mintA: PublicKey,
+  mintB: PublicKey
+): Promise<PublicKey | null> {
+  const orientations = [
+    [mintA, mintB],
+    [mintB, mintA],
+  ];
+
+  const candidates = [];
+  for (const [a, b] of orientations) {
+    const accounts = await connection.getProgramAccounts(programId, {
+      filters: [
+        { dataSize: WHIRLPOOL_SIZE },
+        { memcmp: { offset: WHIRLPOOL_OFFSETS.tokenMintA, bytes: a.toBase58() } },
+        { memcmp: { offset: WHIRLPOOL_OFFSETS.tokenMintB, bytes: b.toBase58() } },
+      ],
+    });
+    candidates.push(...accounts);
+  }
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const deepest = candidates.reduce((best, candidate) =>
+    readU128(candidate.account.data, WHIRLPOOL_OFFSETS.liquidity) >
+    readU128(best.account.data, WHIRLPOOL_OFFSETS.liquidity)
+      ? candidate
+      : best
+  );
+  return deepest.pubkey;
+}
+
+/**
+ * Load the current pool state and the decimals of both mints
+ */
+export async function fetchWhirlpool(
+  connection: Connection,
+  poolId: PublicKey
+): Promise<WhirlpoolState> {
+  const account = await connection.getAccountInfo(poolId);
+  if (!account || account.data.length !== WHIRLPOOL_SIZE) {
+    throw new Error(`Whirlpool ${poolId.toBase58()} not found`);
+  }
+
+  const data = account.data;
+  const mintA = readKey(data, WHIRLPOOL_OFFSETS.tokenMintA);
+  const mintB = readKey(data, WHIRLPOOL_OFFSETS.tokenMintB);
+
+  const [mintInfoA, mintInfoB] = await connection.getMultipleAccountsInfo([mintA, mintB]);
+  if (!mintInfoA || !mintInfoB) {
+    throw new Error(`Whirlpool ${poolId.toBase58()} mints not found`);
+  }
+
+  return {
+    id: poolId,
+    programId: account.owner,
+    tickSpacing: data.readUInt16LE(WHIRLPOOL_OFFSETS.tickSpacing),
+    feeRate: data.readUInt16LE(WHIRLPOOL_OFFSETS.feeRate),
+    liquidity: readU128(data, WHIRLPOOL_OFFSETS.liquidity),
+    sqrtPrice: readU128(data, WHIRLPOOL_OFFSETS.sqrtPrice),
+    tickCurrentIndex: data.readInt32LE(WHIRLPOOL_OFFSETS.tickCurrentIndex),
+    mintA,
+    mintB,
+    vaultA: readKey(data, WHIRLPOOL_OFFSETS.tokenVaultA),
+    vaultB: readKey(data, WHIRLPOOL_OFFSETS.tokenVaultB),
+    // Mint layout: decimals is the byte after the 36-byte authority and 8-byte supply
+    decimalsA: mintInfoA.data.readUInt8(44),
+    decimalsB: mintInfoB.data.readUInt8(44),
+  };
+}
+
+export function getTickArrayAddress(
+  programId: PublicKey,
+  poolId: PublicKey,
+  startTickIndex: number
+): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from("tick_array"), poolId.toBuffer(), Buffer.from(startTickIndex.toString())],
+    programId
+  )[0];
+}
+
+export function getTickArrayStart(tickIndex: number, tickSpacing: number): number {
+  const ticksInArray = TICK_ARRAY_SIZE * tickSpacing;
+  return Math.floor(tickIndex / ticksInArray) * ticksInArray;
+}
+
+/**
+ * Load the tick arrays a swap in the given direction walks through.
+ * Missing arrays end the walk; the last loaded array is repeated to fill
+ * the instruction's three slots.
+ */
+export async function fetchWhirlpoolTickArrays(
+  connection: Connection,
+  pool: WhirlpoolState,
+  aToB: boolean
+): Promise<WhirlpoolTickArrays> {
+  const ticksInArray = TICK_ARRAY_SIZE * pool.tickSpacing;
+  // A B->A swap starting exactly on an array boundary begins in the next array
+  const shift = aToB ? 0 : pool.tickSpacing;
+  const firstStart = getTickArrayStart(pool.tickCurrentIndex + shift, pool.tickSpacing);
+
+  const starts = Array.from(
+    { length: SWAP_TICK_ARRAYS },
+    (_, i) => firstStart + (aToB ? -i : i) * ticksInArray
+  );
+  const addresses = starts.map((start) => getTickArrayAddress(pool.programId, pool.id, start));
+  const accounts = await connection.getMultipleAccountsInfo(addresses);
+
+  const loaded: PublicKey[] = [];
+  const ticks: InitializedTick[] = [];
+  let boundaryTick = aToB ? firstStart : firstStart + ticksInArray;
+
+  for (let i = 0; i < accounts.length; i++) {
+    const account = accounts[i];
+    if (!account) {
+      break;
+    }
+
+    const data = account.data;
+    const start = data.readInt32LE(TICK_ARRAY_START_OFFSET);
+    for (let t = 0; t < TICK_ARRAY_SIZE; t++) {
+      const offset = TICK_ARRAY_TICKS_OFFSET + t * TICK_SIZE;
+      if (data.readUInt8(offset) === 1) {
+        ticks.push({
+          index: start + t * pool.tickSpacing,
+          liquidityNet: readI128(data, offset + 1),
+        });
+      }
+    }
+
+    loaded.push(addresses[i]);
+    boundaryTick = aToB ? start : start + ticksInArray;
+  }
+
+  if (loaded.length === 0) {
+    throw new Error(`Whirlpool ${pool.id.toBase58()} has no initialized tick array at the price`);
+  }
+  while (loaded.length < SWAP_TICK_ARRAYS) {
+    loaded.push(loaded[loaded.length - 1]);
+  }
+
+  boundaryTick = Math.min(MAX_TICK_INDEX, Math.max(MIN_TICK_INDEX, boundaryTick));
+  return { addresses: loaded, ticks, boundaryTick };
+}
+
+/**
+ * Q64.64 square-root price of a tick
+ */
+export function tickIndexToSqrtPrice(tickIndex: number): bigint {
+  if (tickIndex <= MIN_TICK_INDEX) {
+    return MIN_SQRT_PRICE;
+  }
+  if (tickIndex >= MAX_TICK_INDEX) {
+    return MAX_SQRT_PRICE;
+  }
+  return BigInt(Math.round(Math.pow(1.0001, tickIndex / 2) * 2 ** 64));
+}
+
+function divCeil(numerator: bigint, denominator: bigint): bigint {
+  return (numerator + denominator - 1n) / denominator;
+}
+
+/**
+ * Token A needed (round up) or released (round down) between two prices
+ */
+function getAmountDeltaA(
+  liquidity: bigint,
+  sqrtPriceLower: bigint,
+  sqrtPriceUpper: bigint,
+  roundUp: boolean
+): bigint {
+  const numerator = (liquidity << 64n) * (sqrtPriceUpper - sqrtPriceLower);
+  const denominator = sqrtPriceUpper * sqrtPriceLower;
+  return roundUp ? divCeil(numerator, denominator) : numerator / denominator;
+}
+
+/**
+ * Token B needed (round up) or released (round down) between two prices
+ */
+function getAmountDeltaB(
+  liquidity: bigint,
+  sqrtPriceLower: bigint,
+  sqrtPriceUpper: bigint,
+  roundUp: boolean
+): bigint {
+  const product = liquidity * (sqrtPriceUpper - sqrtPriceLower);
+  return roundUp ? divCeil(product, 1n << 64n) : product >> 64n;
+}
+
+function getNextSqrtPrice(
+  sqrtPrice: bigint,
+  liquidity: bigint,
+  amountIn: bigint,
+  aToB: boolean
+): bigint {
+  if (aToB) {
+    const liquidityX64 = liquidity << 64n;
+    return divCeil(liquidityX64 * sqrtPrice, liquidityX64 + amountIn * sqrtPrice);
+  }
+  return sqrtPrice + (amountIn << 64n) / liquidity;
+}
+
+/**
+ * Quote an exact-input swap by walking the initialized ticks in the loaded
+ * tick arrays, the way the Whirlpool program does.
+ */
+export function quoteWhirlpoolSwap(
+  pool: WhirlpoolState,
+  tickArrays: WhirlpoolTickArrays,
+  amountIn: bigint,
+  aToB: boolean
+): WhirlpoolSwapQuote {
+  const feeRate = BigInt(pool.feeRate);
+  const ticks = [...tickArrays.ticks].sort((x, y) =>
+    aToB ? y.index - x.index : x.index - y.index
+  );
+
+  let sqrtPrice = pool.sqrtPrice;
+  let liquidity = pool.liquidity;
+  let currentTick = pool.tickCurrentIndex;
+  let remaining = amountIn;
+  let amountOut = 0n;
+  let feeAmount = 0n;
+
+  while (remaining > 0n) {
+    const next = ticks.find((tick) =>
+      aToB ? tick.index <= currentTick : tick.index > currentTick
+    );
+    const targetTick = next ? next.index : tickArrays.boundaryTick;
+    const targetPrice = tickIndexToSqrtPrice(targetTick);
+
+    const [lower, upper] = aToB ? [targetPrice, sqrtPrice] : [sqrtPrice, targetPrice];
+    const amountToTarget = aToB
+      ? getAmountDeltaA(liquidity, lower, upper, true)
+      : getAmountDeltaB(liquidity, lower, upper, true);
+    const remainingAfterFee = (remaining * (FEE_RATE_DENOMINATOR - feeRate)) / FEE_RATE_DENOMINATOR;
+
+    let stepIn: bigint;
+    let stepFee: bigint;
+    let nextPrice: bigint;
+
+    if (remainingAfterFee >= amountToTarget) {
+      nextPrice = targetPrice;
+      stepIn = amountToTarget;
+      stepFee = divCeil(stepIn * feeRate, FEE_RATE_DENOMINATOR - feeRate);
+    } else {
+      nextPrice = getNextSqrtPrice(sqrtPrice, liquidity, remainingAfterFee, aToB);
+      stepIn = aToB
+        ? getAmountDeltaA(liquidity, nextPrice, sqrtPrice, true)
+        : getAmountDeltaB(liquidity, sqrtPrice, nextPrice, true);
+      stepFee = remaining - stepIn;
+    }
+
+    amountOut += aToB
+      ? getAmountDeltaB(liquidity, nextPrice, sqrtPrice, false)
+      : getAmountDeltaA(liquidity, sqrtPrice, nextPrice, false);
+    remaining -= stepIn + stepFee;
+    feeAmount += stepFee;
+
+    if (nextPrice !== targetPrice) {
+      sqrtPrice = nextPrice;
+      break;
+    }
+
+    if (!next) {
+      if (remaining > 0n) {
+        throw new Error("Swap exceeds the liquidity reachable through three tick arrays");
+      }
+      sqrtPrice = nextPrice;
+      break;
+    }
+
+    // Crossing an initialized tick adds or removes its positions' liquidity
+    liquidity = aToB ? liquidity - next.liquidityNet : liquidity + next.liquidityNet;
+    currentTick = aToB ? next.index - 1 : next.index;
+    sqrtPrice = nextPrice;
+  }
+
+  return {
+    amountIn: amountIn - remaining,
+    amountOut,
+    feeAmount,
+    priceImpactBps: whirlpoolPriceImpactBps(
+      pool.sqrtPrice,
+      amountIn - remaining - feeAmount,
+      amountOut,
+      aToB
+    ),
+  };
+}
+
+/**
+ * Shortfall of `amountOut` against the pool's spot price, in basis points
+ */
+export function whirlpoolPriceImpactBps(
+  sqrtPrice: bigint,
+  amountInAfterFee: bigint,
+  amountOut: bigint,
+  aToB: boolean
+): number {
+  const price = (Number(sqrtPrice) / 2 ** 64) ** 2; // token B per token A, base units
+  const spotOut = aToB ? Number(amountInAfterFee) * price : Number(amountInAfterFee) / price;
+  if (spotOut <= 0) {
+    return 0;
+  }
+  return Math.max(0, Math.round((1 - Number(amountOut) / spotOut) * 10_000));
+}
+
+/**
+ * Build an exact-input swap instruction
+ */
+export function makeWhirlpoolSwapInstruction(
+  pool: WhirlpoolState,
+  tickArrays: PublicKey[],
+  ownerAccountA: PublicKey,
+  ownerAccountB: PublicKey,
+  owner: PublicKey,
+  amountIn: bigint,
+  minAmountOut: bigint,
+  aToB: boolean
+): TransactionInstruction {
+  const data = Buffer.alloc(8 + 8 + 8 + 16 + 1 + 1);
+  SWAP_DISCRIMINATOR.copy(data, 0);
+  data.writeBigUInt64LE(amountIn, 8);
+  data.writeBigUInt64LE(minAmountOut, 16);
+
+  const sqrtPriceLimit = aToB ? MIN_SQRT_PRICE : MAX_SQRT_PRICE;
+  data.writeBigUInt64LE(sqrtPriceLimit & 0xffffffffffffffffn, 24);
+  data.writeBigUInt64LE(sqrtPriceLimit >> 64n, 32);
+  data.writeUInt8(1, 40); // amount specified is input
+  data.writeUInt8(aToB ? 1 : 0, 41);
+
+  const oracle = PublicKey.findProgramAddressSync(
+    [Buffer.from("oracle"), pool.id.toBuffer()],
+    pool.programId
+  )[0];
+
+  const keys = [
+    { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: owner, isSigner: true, isWritable: false },
+    { pubkey: pool.id, isSigner: false, isWritable: true },
+    { pubkey: ownerAccountA, isSigner: false, isWritable: true },
+    { pubkey: pool.vaultA, isSigner: false, isWritable: true },
+    { pubkey: ownerAccountB, isSigner: false, isWritable: true },
+    { pubkey: pool.vaultB, isSigner: false, isWritable: true },
+    ...tickArrays.map((pubkey) => ({ pubkey, isSigner: false, isWritable: true })),
+    { pubkey: oracle, isSigner: false, isWritable: false },
+  ];
+
+  return new TransactionInstruction({ programId: pool.programId, keys, data });
+}
+
+/**
+ * Widest tick range the pool's tick spacing allows
+ */
+export function getFullRangeTicks(tickSpacing: number): { lower: number; upper: number } {
+  return {
+    lower: Math.ceil(MIN_TICK_INDEX / tickSpacing) * tickSpacing,
+    upper: Math.floor(MAX_TICK_INDEX / tickSpacing) * tickSpacing,
+  };
+}
+
+/**
+ * Constant-product reserves equivalent to the liquidity active at the
+ * current price, in base units
+ */
+export function whirlpoolVirtualReserves(pool: WhirlpoolState): {
+  reserveA: bigint;
+  reserveB: bigint;
+} {
+  if (pool.liquidity === 0n) {
+    throw new Error(`Whirlpool ${pool.id.toBase58()} has no liquidity at the current price`);
+  }
+  return {
+    reserveA: (pool.liquidity << 64n) / pool.sqrtPrice,
+    reserveB: (pool.liquidity * pool.sqrtPrice) >> 64n,
+  };
+}
+
+/**
+ * Largest liquidity a position over [tickLower, tickUpper] can take from the
+ * given amounts at the current price. The current price must be in range.
+ */
+export function getLiquidityForAmounts(
+  sqrtPrice: bigint,
+  tickLower: number,
+  tickUpper: number,
+  amountA: bigint,
+  amountB: bigint
+): bigint {
+  const sqrtLower = tickIndexToSqrtPrice(tickLower);
+  const sqrtUpper = tickIndexToSqrtPrice(tickUpper);
+  if (sqrtPrice <= sqrtLower || sqrtPrice >= sqrtUpper) {
+    throw new Error("Position range must contain the current price");
+  }
+
+  const liquidityA = (amountA * sqrtUpper * sqrtPrice) / ((sqrtUpper - sqrtPrice) << 64n);
+  const liquidityB = (amountB << 64n) / (sqrtPrice - sqrtLower);
+  return liquidityA < liquidityB ? liquidityA : liquidityB;
+}
+
+/**
+ * Token amounts (rounded up) needed to add `liquidity` over the range
+ */
+export function getAmountsForLiquidity(
+  sqrtPrice: bigint,
+  tickLower: number,
+  tickUpper: number,
+  liquidity: bigint
+): { amountA: bigint; amountB: bigint } {
+  return {
+    amountA: getAmountDeltaA(liquidity, sqrtPrice, tickIndexToSqrtPrice(tickUpper), true),
+    amountB: getAmountDeltaB(liquidity, tickIndexToSqrtPrice(tickLower), sqrtPrice, true),
+  };
+}
+
+/**
+ * Build the instruction creating a tick array that a new position needs
+ */
+export function makeInitializeTickArrayInstruction(
+  pool: WhirlpoolState,
+  funder: PublicKey,
+  startTickIndex: number
+): TransactionInstruction {
+  const data = Buffer.alloc(12);
+  INITIALIZE_TICK_ARRAY_DISCRIMINATOR.copy(data, 0);
+  data.writeInt32LE(startTickIndex, 8);
+
+  const keys = [
+    { pubkey: pool.id, isSigner: false, isWritable: false },
+    { pubkey: funder, isSigner: true, isWritable: true },
+    {
+      pubkey: getTickArrayAddress(pool.programId, pool.id, startTickIndex),
+      isSigner: false,
+      isWritable: true,
+    },
+    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+  ];
+
+  return new TransactionInstruction({ programId: pool.programId, keys, data });
+}
+
+/**
+ * Build the instruction opening a position. The position is owned through
+ * an NFT minted to `owner`; `positionMint` must sign.
+ */
+export function makeOpenPositionInstruction(
+  pool: WhirlpoolState,
+  owner: PublicKey,
+  positionMint: PublicKey,
+  tickLower: number,
+  tickUpper: number
+): { instruction: TransactionInstruction; position: PublicKey } {
+  const [position, bump] = PublicKey.findProgramAddressSync(
+    [Buffer.from("position"), positionMint.toBuffer()],
+    pool.programId
+  );
+
+  const data = Buffer.alloc(17);
+  OPEN_POSITION_DISCRIMINATOR.copy(data, 0);
+  data.writeUInt8(bump, 8);
+  data.writeInt32LE(tickLower, 9);
+  data.writeInt32LE(tickUpper, 13);
+
+  const keys = [
+    { pubkey: owner, isSigner: true, isWritable: true },
+    { pubkey: owner, isSigner: false, isWritable: false },
+    { pubkey: position, isSigner: false, isWritable: true },
+    { pubkey: positionMint, isSigner: true, isWritable: true },
+    {
+      pubkey: getAssociatedTokenAddressSync(positionMint, owner),
+      isSigner: false,
+      isWritable: true,
+    },
+    { pubkey: pool.id, isSigner: false, isWritable: false },
+    { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    { pubkey: SYSVAR_RENT_PUBKEY, isSigner: false, isWritable: false },
+    { pubkey: ASSOCIATED_TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+  ];
+
+  return {
+    instruction: new TransactionInstruction({ programId: pool.programId, keys, data }),
+    position,
+  };
+}
+
+/**
+ * Build the instruction adding liquidity to a position, taking at most the
+ * given token amounts
+ */
+export function makeIncreaseLiquidityInstruction(
+  pool: WhirlpoolState,
+  owner: PublicKey,
+  position: PublicKey,
+  positionMint: PublicKey,
+  ownerAccountA: PublicKey,
+  ownerAccountB: PublicKey,
+  tickArrayLower: PublicKey,
+  tickArrayUpper: PublicKey,
+  liquidity: bigint,
+  maxAmountA: bigint,
+  maxAmountB: bigint
+): TransactionInstruction {
+  const data = Buffer.alloc(40);
+  INCREASE_LIQUIDITY_DISCRIMINATOR.copy(data, 0);
+  data.writeBigUInt64LE(liquidity & 0xffffffffffffffffn, 8);
+  data.writeBigUInt64LE(liquidity >> 64n, 16);
+  data.writeBigUInt64LE(maxAmountA, 24);
+  data.writeBigUInt64LE(maxAmountB, 32);
+
+  const keys = [
+    { pubkey: pool.id, isSigner: false, isWritable: true },
+    { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: owner, isSigner: true, isWritable: false },
+    { pubkey: position, isSigner: false, isWritable: true },
+    {
+      pubkey: getAssociatedTokenAddressSync(positionMint, owner),
+      isSigner: false,
+      isWritable: false,
+    },
+    { pubkey: ownerAccountA, isSigner: false, isWritable: true },
+    { pubkey: ownerAccountB, isSigner: false, isWritable: true },
+    { pubkey: pool.vaultA, isSigner: false, isWritable: true },
+    { pubkey: pool.vaultB, isSigner: false, isWritable: true },
+    { pubkey: tickArrayLower, isSigner: false, isWritable: true },
+    { pubkey: tickArrayUpper, isSigner: false, isWritable: true },
+  ];
+
+  return new TransactionInstruction({ programId: pool.programId, keys, data });
+}
@@ -1,14 +1,49 @@
 import { PublicKey, Connection } from "@solana/web3.js";
 import {
+  FeeEvent,
   FeeTracker,
   EpochAllocation,
+  ExecutorState,
   AllocationAction,
+  AllocationBreakdown,
   AllocationConfig,
+  CoolingTransfer,
   IceHealthState,
   ProtocolConfig,
+  ExecutionQuality,
   Logger,
+  Quote,
+  SwapFill,
+  SwapResult,
 } from "../../types";
-import { SwapEngine } from "../dex/engines";
+import { TokenBurner } from "../burn";
+import { CoolingDistributor } from "../cooling";
+import { LPManager, SwapEngine } from "../dex/engines";
+import { BPS_DENOMINATOR, fromBaseUnits } from "../dex/math";
+import { FeeLedger } from "../fee-ledger";
+import { ActionJournal, JournaledAction } from "../journal";
+import { PriceOracle } from "../price-oracle";
+import { StateStore } from "../state";
+import { TransactionSubmission } from "../transactions";
+import { TreasuryLedger, capToBudget, emptyBreakdown } from "../treasury";
+import {
+  lamportsToSol,
+  lamportsToTokenUnits,
+  solToLamports,
+  splitByWeights,
+  sumAmounts,
+} from "../../utils/amounts";
+
+// Fees below this are left to accumulate into a later epoch
+const MIN_FEES_TO_PROCESS = solToLamports(0.01);
+
+// Treasury category funding each action type
+const ACTION_CATEGORY: Record<AllocationAction["type"], keyof AllocationBreakdown<bigint>> = {
+  buyback: "buyback",
+  "add-lp": "lp",
+  burn: "burn",
+  "cooling-event": "cooling",
+};
 
 /**
  * Allocation Strategy
@@ -21,7 +56,7 @@ import { SwapEngine } from "../dex/engines";
  */
 export interface AllocationStrategy {
   allocate(
-    feeAmount: number,
+    feeAmount: bigint,
     iceHealth: IceHealthState,
     config: AllocationConfig
   ): EpochAllocation;
@@ -33,20 +68,13 @@ export interface AllocationStrategy {
  */
 export class FixedAllocationStrategy implements AllocationStrategy {
   allocate(
-    feeAmount: number,
+    feeAmount: bigint,
     _iceHealth: IceHealthState,
     config: AllocationConfig
   ): EpochAllocation {
-    const allocations = {
-      buyback: (feeAmount * config.buybackPct) / 100,
-      lp: (feeAmount * config.lpPct) / 100,
-      burn: (feeAmount * config.burnPct) / 100,
-      cooling: (feeAmount * config.coolingPct) / 100,
-    };
-
     return {
       totalFeesToAllocate: feeAmount,
-      allocations,
+      allocations: splitAllocation(feeAmount, config),
       actions: [],
     };
   }
@@ -62,7 +90,7 @@ export class FixedAllocationStrategy implements AllocationStrategy {
  */
 export class AdaptiveAllocationStrategy implements AllocationStrategy {
   allocate(
-    feeAmount: number,
+    feeAmount: bigint,
     iceHealth: IceHealthState,
     baseConfig: AllocationConfig
   ): EpochAllocation {
@@ -90,16 +118,9 @@ export class AdaptiveAllocationStrategy implements AllocationStrategy {
     const burnPct = (baseConfig.burnPct / (100 - baseConfig.buybackPct)) * remaining;
     const coolingPct = (baseConfig.coolingPct / (100 - baseConfig.buybackPct)) * remaining;
 
-    const allocations = {
-      buyback: (feeAmount * buybackPct) / 100,
-      lp: (feeAmount * lpPct) / 100,
-      burn: (feeAmount * burnPct) / 100,
-      cooling: (feeAmount * coolingPct) / 100,
-    };
-
     return {
       totalFeesToAllocate: feeAmount,
-      allocations,
+      allocations: splitAllocation(feeAmount, { buybackPct, lpPct, burnPct, coolingPct }),
       actions: [],
     };
   }
@@ -115,12 +136,7 @@ export class AdaptiveAllocationStrategy implements AllocationStrategy {
  * 4. Executes actions (buyback, LP, burn, etc.)
  */
 export class Executor {
-  private executorState = {
-    lastExecutionTime: 0,
-    consecutiveFailures: 0,
-    epochNumber: 0,
-    circuitBreakerActive: false,
-  };
+  private executorState: ExecutorState;
 
   private allocationStrategy: AllocationStrategy;
 
@@ -129,8 +145,19 @@ export class Executor {
     private logger: Logger,
     private connection: Connection,
     private swapEngine: SwapEngine,
-    private feeTracker: FeeTracker
+    private lpManager: LPManager,
+    private feeTracker: FeeTracker,
+    private feeLedger: FeeLedger,
+    private priceOracle: PriceOracle,
+    private tokenBurner: TokenBurner,
+    private coolingDistributor: CoolingDistributor,
+    private treasury: TreasuryLedger,
+    private journal: ActionJournal,
+    private stateStore: StateStore
   ) {
+    // Resume the counters, and any tripped breaker, from the last run
+    this.executorState = stateStore.getExecutorState();
+
     if (config.allocationMode === "adaptive") {
       this.allocationStrategy = new AdaptiveAllocationStrategy();
     } else {
@@ -143,6 +170,7 @@ export class Executor {
    */
   async executeEpoch(iceHealth: IceHealthState): Promise<EpochAllocation | null> {
     this.executorState.epochNumber++;
+    this.saveState();
 
     try {
       // Check circuit breaker
@@ -151,6 +179,13 @@ export class Executor {
         return null;
       }
 
+      // An interrupted epoch is settled before a new one may spend. A dry
+      // run leaves it for the live bot.
+      const live = this.config.executor.mode === "live";
+      if (live) {
+        await this.recover();
+      }
+
       // Check time since last execution
       const now = Math.floor(Date.now() / 1000);
       if (now - this.executorState.lastExecutionTime < this.config.executor.minIntervalSeconds) {
@@ -160,42 +195,94 @@ export class Executor {
 
       // Check bot balance
       const botBalance = await this.checkBotBalance();
-      if (botBalance < this.config.executor.minBalanceToOperateSol) {
-        this.logger.error("Bot balance too low", { balance: botBalance });
+      if (botBalance < solToLamports(this.config.executor.minBalanceToOperateSol)) {
+        this.logger.error("Bot balance too low", { balance: lamportsToSol(botBalance) });
         this.incrementFailureCount();
         return null;
       }
 
-      // Get accumulated fees
-      const feesToProcess = this.feeTracker.totalFeesCollected;
+      // Get accumulated fees. The events are snapshotted so that fees
+      // credited while this epoch runs are left for the next one. Fees too
+      // small to process keep accumulating, but the treasury can still spend.
+      const feesCollected = this.feeTracker.totalFeesCollected;
+      const feesToProcess = feesCollected >= MIN_FEES_TO_PROCESS ? feesCollected : 0n;
+      const consumedEvents = this.feeTracker.events.filter(
+        (event) => !event.processed && event.confirmationStatus === "finalized"
+      );
+
+      // New fees flow into the treasury by the allocation split
+      const inflow =
+        feesToProcess > 0n
+          ? this.allocationStrategy.allocate(feesToProcess, iceHealth, this.config.allocationConfig)
+              .allocations
+          : emptyBreakdown();
+      const available = this.treasury.getBalances();
+      (Object.keys(available) as (keyof AllocationBreakdown<bigint>)[]).forEach((category) => {
+        available[category] += inflow[category];
+      });
 
-      if (feesToProcess < 0.01) {
-        this.logger.debug("Insufficient fees to process", { amount: feesToProcess });
+      const totalAvailable = sumAmounts(Object.values(available));
+      if (totalAvailable < MIN_FEES_TO_PROCESS) {
+        this.logger.debug("Insufficient fees to process", {
+          amount: lamportsToSol(totalAvailable),
+        });
         return null;
       }
 
-      // Allocate fees
-      const allocation = this.allocationStrategy.allocate(
-        feesToProcess,
-        iceHealth,
-        this.config.allocationConfig
+      // Spend at most the epoch budget; the rest carries over. A category
+      // that cannot execute keeps its balance without taking budget share.
+      const spendable = (Object.keys(available) as (keyof AllocationBreakdown<bigint>)[]).filter(
+        (category) => category !== "cooling" || this.coolingDistributor.hasRecipients()
       );
-
-      // Execute actions
-      if (this.config.executor.mode === "live") {
+      const allocation: EpochAllocation = {
+        totalFeesToAllocate: feesToProcess,
+        allocations: capToBudget(
+          available,
+          solToLamports(this.config.executor.maxBudgetPerEpochSol),
+          spendable
+        ),
+        actions: [],
+      };
+
+      // Execute actions. A dry run spends its plan on paper and writes
+      // nothing to the journal, the treasury or the fee ledger.
+      let spent = allocation.allocations;
+      if (live) {
+        // From here on the journal tracks the epoch until it is settled
+        this.journal.openEpoch({
+          epochNumber: this.executorState.epochNumber,
+          startedAt: now,
+          treasuryStatements: this.treasury.getStatementCount(),
+          feesToProcess,
+          feeEvents: feesToProcess > 0n ? consumedEvents.map((event) => event.signature) : [],
+          inflow,
+          planned: allocation.allocations,
+        });
         await this.executeActions(allocation);
+        spent = this.summarizeSpend(allocation.actions);
+
+        // Settle the treasury before the fees are marked consumed
+        allocation.treasury = this.treasury.settle(this.executorState.epochNumber, inflow, spent);
       } else {
         this.logger.info("Dry-run mode: skipping actual execution", allocation);
+        allocation.treasury = this.treasury.preview(inflow, spent);
       }
 
       // Reset state
       this.executorState.lastExecutionTime = now;
       this.executorState.consecutiveFailures = 0;
-      this.feeTracker.totalFeesCollected = 0; // Reset for next epoch
+      this.saveState();
+      if (feesToProcess > 0n) {
+        this.markFeesConsumed(consumedEvents, feesToProcess, live);
+      }
+      if (live) {
+        this.journal.closeEpoch();
+      }
 
       this.logger.info("Epoch executed successfully", {
         epoch: this.executorState.epochNumber,
-        feesProcessed: feesToProcess,
+        feesProcessed: lamportsToSol(feesToProcess),
+        spentSol: lamportsToSol(sumAmounts(Object.values(spent))),
         iceHealth: iceHealth.health,
       });
 
@@ -214,166 +301,589 @@ export class Executor {
    */
   private async executeActions(allocation: EpochAllocation): Promise<void> {
     const actions: AllocationAction[] = [];
+    const { buyback, lp, burn, cooling } = allocation.allocations;
 
     // 1. Buyback (primary)
-    if (allocation.allocations.buyback > 0) {
-      const buybackAction = await this.executeBuyback(allocation.allocations.buyback);
-      actions.push(buybackAction);
+    if (buyback > 0n) {
+      actions.push(await this.journaled("buyback", buyback, () => this.executeBuyback(buyback)));
     }
 
     // 2. Add LP
-    if (allocation.allocations.lp > 0) {
-      const lpAction = await this.executeAddLP(allocation.allocations.lp);
-      actions.push(lpAction);
+    if (lp > 0n) {
+      actions.push(await this.journaled("add-lp", lp, () => this.executeAddLP(lp)));
     }
 
     // 3. Burn (if configured)
-    if (allocation.allocations.burn > 0) {
-      const burnAction = await this.executeBurn(allocation.allocations.burn);
-      actions.push(burnAction);
+    if (burn > 0n) {
+      actions.push(await this.journaled("burn", burn, () => this.executeBurn(burn)));
     }
 
     // 4. Cooling events (marketing)
-    if (allocation.allocations.cooling > 0) {
-      const coolingAction = await this.executeCooling(allocation.allocations.cooling);
-      actions.push(coolingAction);
+    if (cooling > 0n) {
+      actions.push(
+        await this.journaled("cooling-event", cooling, () => this.executeCooling(cooling))
+      );
     }
 
     allocation.actions = actions;
   }
 
+  /**
+   * Run an action between its journaled intent and outcome
+   */
+  private async journaled(
+    type: AllocationAction["type"],
+    lamports: bigint,
+    execute: () => Promise<AllocationAction>
+  ): Promise<AllocationAction> {
+    this.journal.recordIntent(type, lamports);
+    const action = await execute();
+    this.journal.recordOutcome(action, this.actionSpend(action));
+    return action;
+  }
+
+  /**
+   * Settle an epoch left open in the journal by an interrupted run. Actions
+   * that returned spent what their outcome says. An action cut off mid-way
+   * is checked on chain: if any of its transactions landed, its whole
+   * allocation is counted as spent, so it is never paid for twice; if none
+   * did, the allocation stays in the treasury for the next epoch. The
+   * epoch's fees are then consumed and the epoch is closed.
+   */
+  async recover(): Promise<void> {
+    const epoch = this.journal.getOpenEpoch();
+    if (!epoch) {
+      return;
+    }
+
+    this.logger.warn("Recovering interrupted epoch", {
+      epoch: epoch.epochNumber,
+      startedAt: epoch.startedAt,
+      feesSol: lamportsToSol(epoch.feesToProcess),
+      actions: epoch.actions.length,
+    });
+
+    const spent = emptyBreakdown();
+    for (const action of epoch.actions) {
+      spent[ACTION_CATEGORY[action.type]] += await this.recoverActionSpend(action);
+    }
+
+    // The treasury may have been settled just before the run stopped
+    if (this.treasury.getStatementCount() === epoch.treasuryStatements) {
+      this.treasury.settle(epoch.epochNumber, epoch.inflow, spent);
+    }
+
+    // Events already marked processed were consumed before the run stopped
+    const events = this.feeTracker.events.filter(
+      (event) => !event.processed && epoch.feeEvents.includes(event.signature)
+    );
+    if (events.length > 0) {
+      this.markFeesConsumed(events, sumAmounts(events.map((event) => event.amountLamports)), true);
+    }
+
+    this.journal.closeEpoch();
+    this.logger.info("Interrupted epoch recovered", {
+      epoch: epoch.epochNumber,
+      spentSol: lamportsToSol(sumAmounts(Object.values(spent))),
+    });
+  }
+
+  private async recoverActionSpend(action: JournaledAction): Promise<bigint> {
+    if (action.outcome) {
+      return action.outcome.spentLamports;
+    }
+
+    const landed = await this.findLanded(action.submissions);
+    if (landed.length === 0) {
+      this.logger.warn("Interrupted action sent nothing that landed", {
+        type: action.type,
+        amountSol: lamportsToSol(action.amountLamports),
+      });
+      return 0n;
+    }
+
+    this.logger.warn("Interrupted action landed on chain; counting its allocation as spent", {
+      type: action.type,
+      amountSol: lamportsToSol(action.amountLamports),
+      signatures: landed,
+    });
+    return action.amountLamports;
+  }
+
+  /**
+   * Signatures among `submissions` that landed. Submissions neither seen
+   * nor expired are waited on, as they can still land.
+   */
+  private async findLanded(submissions: TransactionSubmission[]): Promise<string[]> {
+    const landed: string[] = [];
+    let pending = submissions;
+
+    while (pending.length > 0) {
+      // Read the height before the statuses, as the sender does
+      const { commitment } = this.config.transactions;
+      const blockHeight = await this.connection.getBlockHeight(commitment);
+      const { value } = await this.connection.getSignatureStatuses(
+        pending.map((submission) => submission.signature),
+        { searchTransactionHistory: true }
+      );
+
+      const waiting: TransactionSubmission[] = [];
+      pending.forEach((submission, i) => {
+        const status = value[i];
+        if (status && !status.err) {
+          landed.push(submission.signature);
+        } else if (!status && blockHeight <= submission.lastValidBlockHeight) {
+          waiting.push(submission);
+        }
+      });
+
+      pending = waiting;
+      if (pending.length > 0) {
+        await this.sleep(this.config.transactions.confirmPollMs);
+      }
+    }
+
+    return landed;
+  }
+
   /**
    * Buyback action: SOL -> $ice
    */
-  private async executeBuyback(solAmount: number): Promise<AllocationAction> {
+  private async executeBuyback(lamports: bigint): Promise<AllocationAction> {
     const action: AllocationAction = {
       type: "buyback",
-      amountSol: solAmount,
+      amountLamports: lamports,
       status: "pending",
     };
+    const fills: SwapFill[] = [];
+    let sliceCount = 1;
 
     try {
       // Dry run first
       const quote = await this.swapEngine.dryRun(
         this.getWrappedSolMint(),
         this.config.iceTokenMint,
-        solAmount,
+        lamports,
         this.config.maxSlippageBps
       );
+      action.route = quote.routePath;
+      action.rejectedRoutes = quote.alternatives;
 
-      if (quote.priceImpactBps > this.config.maxPriceImpactBps) {
+      const slices = this.planBuybackSlices(lamports, quote.priceImpactBps);
+      sliceCount = slices.length;
+      if (sliceCount === 1 && quote.priceImpactBps > this.config.maxPriceImpactBps) {
         throw new Error(
           `Price impact too high: ${quote.priceImpactBps}bps > ${this.config.maxPriceImpactBps}bps`
         );
       }
 
-      // Execute swap
-      const result = await this.swapEngine.swap(
-        this.getWrappedSolMint(),
-        this.config.iceTokenMint,
-        solAmount,
-        this.config.maxSlippageBps
-      );
+      // TWAP slices are spread over the epoch; target-impact slices run back to back
+      const spacingMs =
+        this.config.executor.buybackExecution === "twap"
+          ? (this.config.executor.epochIntervalSeconds * 1000) / slices.length
+          : 0;
+
+      for (let i = 0; i < slices.length; i++) {
+        // A single swap is planned on the first quote. A slice is planned
+        // before the spacing, so a price move while waiting counts as drift.
+        const planned = sliceCount === 1 ? quote : await this.quoteBuyback(slices[i]);
+        if (i > 0 && spacingMs > 0) {
+          await this.sleep(spacingMs);
+        }
+
+        const { fill, result } = await this.executeBuybackSlice(slices[i], planned);
+        fills.push(fill);
+        action.route = result.routePath ?? action.route;
+        action.rejectedRoutes = result.alternatives ?? action.rejectedRoutes;
+      }
 
       action.status = "executed";
-      action.signature = result.signature;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // Slices that already landed stay bought; the action records the partial fill
+      action.status = fills.length > 0 ? "executed" : "failed";
+      action.error =
+        fills.length > 0 ? `Stopped after ${fills.length} slice(s): ${message}` : message;
+      this.logger.error("Buyback failed", { error: action.error });
+    }
+
+    if (fills.length > 0) {
+      // A sliced buyback keeps each child's signature in its fill
+      if (sliceCount > 1) {
+        action.fills = fills;
+      } else {
+        action.signature = fills[0].signature;
+      }
+      action.outputAmount = fills.reduce((sum, fill) => sum + fill.outputAmount, 0);
+      action.execution = summarizeExecution(fills);
 
       this.logger.info("Buyback executed", {
-        solAmount,
-        iceAmount: result.outputAmount,
-        signature: result.signature,
+        solAmount: lamportsToSol(sumAmounts(fills.map((fill) => fill.inputLamports))),
+        iceAmount: action.outputAmount,
+        slices: fills.length,
+        route: action.route,
+        realizedSlippageBps: action.execution.realizedSlippageBps,
       });
-    } catch (error) {
-      action.status = "failed";
-      action.error = error instanceof Error ? error.message : String(error);
-      this.logger.error("Buyback failed", action.error);
     }
 
     return action;
   }
 
   /**
-   * Add LP action: SOL + $ice -> LP tokens
+   * Split a buyback into child swap sizes. Target-impact sizing assumes
+   * impact grows roughly in proportion to size, as on a constant-product
+   * pool far from its reserves.
+   */
+  private planBuybackSlices(lamports: bigint, quotedImpactBps: number): bigint[] {
+    const executor = this.config.executor;
+
+    let count = 1;
+    if (executor.buybackExecution === "twap") {
+      count = executor.buybackSlices;
+    } else if (executor.buybackExecution === "target-impact") {
+      count = Math.ceil(quotedImpactBps / executor.buybackTargetImpactBps);
+    }
+    count = Math.max(1, Math.min(count, executor.buybackMaxSlices));
+
+    return splitByWeights(lamports, Array(count).fill(1));
+  }
+
+  /**
+   * Execute one child swap of a buyback. A fresh quote is taken right before
+   * the swap is signed and compared with the planning quote; the swap is
+   * abandoned if the expected output drifted beyond `driftToleranceBps`.
+   */
+  private async executeBuybackSlice(
+    lamports: bigint,
+    planned: Quote
+  ): Promise<{ fill: SwapFill; result: SwapResult }> {
+    const tolerance = this.config.executor.driftToleranceBps;
+
+    const fresh = await this.quoteBuyback(lamports);
+
+    const quoteDriftBps = shortfallBps(planned.outputAmount, fresh.outputAmount);
+    if (quoteDriftBps > tolerance) {
+      throw new Error(
+        `Quote drifted ${quoteDriftBps}bps before signing (tolerance ${tolerance}bps)`
+      );
+    }
+
+    const result = await this.swapEngine.swap(
+      this.getWrappedSolMint(),
+      this.config.iceTokenMint,
+      lamports,
+      this.config.maxSlippageBps
+    );
+
+    const fill: SwapFill = {
+      signature: result.signature,
+      inputLamports: result.inputAmount,
+      outputAmount: fromBaseUnits(result.outputAmount, result.outputDecimals),
+      priceImpactBps: result.actualPriceImpactBps,
+      quotedOutputAmount: fromBaseUnits(fresh.outputAmount, fresh.outputDecimals),
+      quotedPriceImpactBps: fresh.priceImpactBps,
+      quoteDriftBps,
+    };
+
+    // The swap has landed; a fill worse than its quote can only be reported
+    const slippageBps = shortfallBps(fresh.outputAmount, result.outputAmount);
+    if (slippageBps > tolerance) {
+      this.logger.warn("Swap filled below its quote", {
+        signature: result.signature,
+        quotedOutput: fill.quotedOutputAmount,
+        filledOutput: fill.outputAmount,
+        slippageBps,
+        quotedImpactBps: fresh.priceImpactBps,
+        realizedImpactBps: result.actualPriceImpactBps,
+      });
+    }
+
+    return { fill, result };
+  }
+
+  /**
+   * Quote a SOL -> $ice swap, rejecting it if the price impact is too high
+   */
+  private async quoteBuyback(lamports: bigint): Promise<Quote> {
+    const quote = await this.swapEngine.dryRun(
+      this.getWrappedSolMint(),
+      this.config.iceTokenMint,
+      lamports,
+      this.config.maxSlippageBps
+    );
+    if (quote.priceImpactBps > this.config.maxPriceImpactBps) {
+      throw new Error(
+        `Price impact too high: ${quote.priceImpactBps}bps > ${this.config.maxPriceImpactBps}bps`
+      );
+    }
+    return quote;
+  }
+
+  /**
+   * Add LP action: swap half the SOL into $ice, deposit both halves
    */
-  private async executeAddLP(solAmount: number): Promise<AllocationAction> {
+  private async executeAddLP(lamports: bigint): Promise<AllocationAction> {
     const action: AllocationAction = {
       type: "add-lp",
-      amountSol: solAmount,
+      amountLamports: lamports,
       status: "pending",
     };
 
     try {
-      // TODO: Calculate corresponding $ice amount needed
-      // For now, use a simple ratio
-      const iceAmount = solAmount * 100; // 1 SOL = 100 $ice (simplified)
+      const iceMint = this.config.iceTokenMint;
+      const reserves = await this.lpManager.getReserves(iceMint);
+      if (reserves.solReserve <= 0n || reserves.tokenReserve <= 0n) {
+        throw new Error("LP pool has no liquidity");
+      }
 
-      this.logger.warn("Add LP not yet fully implemented, skipping");
-      action.status = "failed";
-      action.error = "Not yet implemented";
+      const swapSol = lamports / 2n;
+      const depositSol = lamports - swapSol;
+
+      const quote = await this.swapEngine.dryRun(
+        this.getWrappedSolMint(),
+        iceMint,
+        swapSol,
+        this.config.maxSlippageBps
+      );
+      if (quote.priceImpactBps > this.config.maxPriceImpactBps) {
+        throw new Error(
+          `Price impact too high: ${quote.priceImpactBps}bps > ${this.config.maxPriceImpactBps}bps`
+        );
+      }
+
+      const swap = await this.swapEngine.swap(
+        this.getWrappedSolMint(),
+        iceMint,
+        swapSol,
+        this.config.maxSlippageBps
+      );
+      action.swapSignature = swap.signature;
+      action.swapInputLamports = swap.inputAmount;
+      action.route = swap.routePath;
+
+      // Our own swap moved the price; deposit at the ratio the pool has now
+      const current = await this.lpManager.getReserves(iceMint);
+      const iceForDeposit = (depositSol * current.tokenReserve) / current.solReserve;
+      const iceAmount = swap.outputAmount < iceForDeposit ? swap.outputAmount : iceForDeposit;
+
+      const result = await this.lpManager.addLiquidity(
+        iceMint,
+        iceAmount,
+        depositSol,
+        this.config.maxSlippageBps
+      );
+
+      action.status = "executed";
+      action.signature = result.signature;
+      action.lpTokenAmount = fromBaseUnits(result.lpTokenAmount, result.lpDecimals);
+
+      this.logger.info("LP added", {
+        solAmount: lamportsToSol(lamports),
+        iceAmount: fromBaseUnits(iceAmount, swap.outputDecimals),
+        lpTokens: action.lpTokenAmount,
+        signature: result.signature,
+      });
     } catch (error) {
       action.status = "failed";
       action.error = error instanceof Error ? error.message : String(error);
+      this.logger.error("Add LP failed", { error: action.error });
     }
 
     return action;
   }
 
   /**
-   * Burn action: send $ice to null address
+   * Burn action: buy $ice with the SOL budget, then burn exactly what was
+   * bought. The quote must be within `maxPriceImpactBps` of the oracle price,
+   * so a pool pushed off the market is not bought from.
    */
-  private async executeBurn(iceAmount: number): Promise<AllocationAction> {
+  private async executeBurn(lamports: bigint): Promise<AllocationAction> {
     const action: AllocationAction = {
       type: "burn",
-      amountSol: iceAmount,
+      amountLamports: lamports,
       status: "pending",
     };
 
     try {
-      this.logger.warn("Burn not yet implemented, skipping");
-      action.status = "failed";
-      action.error = "Not yet implemented";
+      const iceMint = this.config.iceTokenMint;
+      const price = await this.priceOracle.getUsablePrice();
+      action.price = price;
+
+      const quote = await this.quoteBuyback(lamports);
+      const oracleOutput = lamportsToTokenUnits(lamports, price.priceSol, quote.outputDecimals);
+      const belowOracleBps = shortfallBps(oracleOutput, quote.outputAmount);
+      if (belowOracleBps > this.config.maxPriceImpactBps) {
+        throw new Error(
+          `Quote is ${belowOracleBps}bps below the oracle price (max ${this.config.maxPriceImpactBps}bps)`
+        );
+      }
+
+      const supplyBefore = await this.tokenBurner.getSupply(iceMint);
+      const swap = await this.swapEngine.swap(
+        this.getWrappedSolMint(),
+        iceMint,
+        lamports,
+        this.config.maxSlippageBps
+      );
+      action.swapSignature = swap.signature;
+      action.swapInputLamports = swap.inputAmount;
+      action.route = swap.routePath;
+      action.tokenAmount = fromBaseUnits(swap.outputAmount, swap.outputDecimals);
+      action.supplyBefore = fromBaseUnits(supplyBefore, swap.outputDecimals);
+
+      action.signature = await this.tokenBurner.burn(iceMint, swap.outputAmount);
+      action.status = "executed";
+      action.supplyAfter = fromBaseUnits(
+        await this.tokenBurner.getSupply(iceMint),
+        swap.outputDecimals
+      );
+
+      this.logger.info("Burn executed", {
+        solAmount: lamportsToSol(lamports),
+        iceAmount: action.tokenAmount,
+        supplyBefore: action.supplyBefore,
+        supplyAfter: action.supplyAfter,
+        signature: action.signature,
+      });
     } catch (error) {
-      action.status = "failed";
-      action.error = error instanceof Error ? error.message : String(error);
+      const message = error instanceof Error ? error.message : String(error);
+      // Once the burn has landed only the supply read-back failed
+      action.status = action.signature ? "executed" : "failed";
+      action.error =
+        action.swapSignature && !action.signature
+          ? `Bought ${action.tokenAmount} $ice but the burn failed: ${message}`
+          : message;
+      this.logger.error(action.signature ? "Could not read supply after burn" : "Burn failed", {
+        error: action.error,
+      });
     }
 
     return action;
   }
 
   /**
-   * Cooling events action: record on-chain spend (no guarantees)
+   * Cooling events action: pay the allocation out to the cooling recipients
+   * in memo-tagged SOL transfers
    */
-  private async executeCooling(solAmount: number): Promise<AllocationAction> {
+  private async executeCooling(lamports: bigint): Promise<AllocationAction> {
     const action: AllocationAction = {
       type: "cooling-event",
-      amountSol: solAmount,
+      amountLamports: lamports,
       status: "pending",
     };
+    const transfers: CoolingTransfer[] = [];
+    let batchCount = 1;
 
     try {
-      this.logger.info("Cooling event: recording on-chain spend", { solAmount });
-      // In practice, this might create an on-chain memo or event log
+      const batches = this.coolingDistributor.planBatches(lamports);
+      batchCount = batches.length;
+
+      for (let i = 0; i < batches.length; i++) {
+        const signature = await this.coolingDistributor.sendBatch(
+          batches[i],
+          this.executorState.epochNumber,
+          i + 1,
+          batchCount
+        );
+        batches[i].forEach((payment) => {
+          transfers.push({
+            recipient: payment.recipient.toBase58(),
+            lamports: payment.lamports,
+            signature,
+          });
+        });
+      }
+
       action.status = "executed";
     } catch (error) {
-      action.status = "failed";
-      action.error = error instanceof Error ? error.message : String(error);
+      const message = error instanceof Error ? error.message : String(error);
+      // Batches that already landed stay paid; the action records them
+      action.status = transfers.length > 0 ? "executed" : "failed";
+      action.error =
+        transfers.length > 0
+          ? `Stopped after ${transfers.length} transfer(s): ${message}`
+          : message;
+      this.logger.error("Cooling event failed", { error: action.error });
+    }
+
+    if (transfers.length > 0) {
+      action.transfers = transfers;
+      if (batchCount === 1) {
+        action.signature = transfers[0].signature;
+      }
+
+      this.logger.info("Cooling event executed", {
+        solAmount: lamportsToSol(sumAmounts(transfers.map((transfer) => transfer.lamports))),
+        recipients: transfers.length,
+      });
     }
 
     return action;
   }
 
   /**
-   * Check bot's current SOL balance
+   * What the epoch's actions spent, per treasury category
+   */
+  private summarizeSpend(actions: AllocationAction[]): AllocationBreakdown<bigint> {
+    const spent = emptyBreakdown();
+    actions.forEach((action) => {
+      spent[ACTION_CATEGORY[action.type]] += this.actionSpend(action);
+    });
+    return spent;
+  }
+
+  /**
+   * What one action spent. A failed action spent only the swap it landed
+   * before failing, if any; an action stopped part-way spent only the slices
+   * or transfers that landed.
+   */
+  private actionSpend(action: AllocationAction): bigint {
+    if (action.status !== "executed") {
+      return action.swapSignature ? (action.swapInputLamports ?? 0n) : 0n;
+    }
+    const partial = action.error !== undefined && (action.fills || action.transfers);
+    return partial
+      ? sumAmounts([
+          ...(action.fills ?? []).map((fill) => fill.inputLamports),
+          ...(action.transfers ?? []).map((transfer) => transfer.lamports),
+        ])
+      : action.amountLamports;
+  }
+
+  /**
+   * Mark the events consumed by this epoch as processed in memory, and in the
+   * ledger when `persist` is set
+   */
+  private markFeesConsumed(events: FeeEvent[], lamports: bigint, persist: boolean): void {
+    events.forEach((event) => {
+      event.processed = true;
+    });
+    if (persist) {
+      this.feeLedger.markProcessed(events.map((event) => event.signature));
+    }
+
+    const remaining = this.feeTracker.totalFeesCollected - lamports;
+    this.feeTracker.totalFeesCollected = remaining > 0n ? remaining : 0n;
+
+    const latest = events[events.length - 1];
+    if (latest) {
+      this.feeTracker.lastProcessedSignature = latest.signature;
+      this.feeTracker.lastProcessedTimestamp = latest.timestamp;
+    }
+  }
+
+  /**
+   * Check bot's current SOL balance, in lamports
    */
-  private async checkBotBalance(): Promise<number> {
+  private async checkBotBalance(): Promise<bigint> {
     try {
       const balance = await this.connection.getBalance(this.config.botKeypair.publicKey);
-      return balance / 1e9; // Convert lamports to SOL
+      return BigInt(balance);
     } catch (error) {
       this.logger.error("Error checking bot balance", {
         error: error instanceof Error ? error.message : String(error),
       });
-      return 0;
+      return 0n;
     }
   }
 
@@ -392,6 +902,15 @@ export class Executor {
         failures: this.executorState.consecutiveFailures,
       });
     }
+    this.saveState();
+  }
+
+  private saveState(): void {
+    this.stateStore.saveExecutorState(this.executorState);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
   /**
@@ -408,6 +927,7 @@ export class Executor {
   resetCircuitBreaker(): void {
     this.executorState.circuitBreakerActive = false;
     this.executorState.consecutiveFailures = 0;
+    this.saveState();
     this.logger.info("Circuit breaker reset");
   }
 
@@ -418,3 +938,48 @@ export class Executor {
     return { ...this.executorState };
   }
 }
+
+/**
+ * Split fees by allocation percentages. The parts sum to the fees exactly.
+ */
+function splitAllocation(feeAmount: bigint, pcts: AllocationConfig): AllocationBreakdown<bigint> {
+  const [buyback, lp, burn, cooling] = splitByWeights(feeAmount, [
+    pcts.buybackPct,
+    pcts.lpPct,
+    pcts.burnPct,
+    pcts.coolingPct,
+  ]);
+  return { buyback, lp, burn, cooling };
+}
+
+/**
+ * Output lost against an expected amount, in basis points (negative when
+ * the actual amount is better). Works on UI or base-unit amounts alike.
+ */
+function shortfallBps(expected: number | bigint, actual: number | bigint): number {
+  return expected > 0 ? Math.round((1 - Number(actual) / Number(expected)) * BPS_DENOMINATOR) : 0;
+}
+
+/**
+ * Aggregate buyback fills into execution-quality metrics
+ */
+function summarizeExecution(fills: SwapFill[]): ExecutionQuality {
+  // Weights only: the amounts themselves are summed as lamports elsewhere
+  const inputs = fills.map((fill) => lamportsToSol(fill.inputLamports));
+  const totalIn = inputs.reduce((sum, input) => sum + input, 0);
+  const quotedOutputAmount = fills.reduce((sum, fill) => sum + fill.quotedOutputAmount, 0);
+  const filledOutputAmount = fills.reduce((sum, fill) => sum + fill.outputAmount, 0);
+  const weighted = (bps: (fill: SwapFill) => number): number =>
+    totalIn > 0
+      ? Math.round(fills.reduce((sum, fill, i) => sum + bps(fill) * inputs[i], 0) / totalIn)
+      : 0;
+
+  return {
+    quotedOutputAmount,
+    filledOutputAmount,
+    realizedSlippageBps: shortfallBps(quotedOutputAmount, filledOutputAmount),
+    quotedPriceImpactBps: weighted((fill) => fill.quotedPriceImpactBps),
+    realizedPriceImpactBps: weighted((fill) => fill.priceImpactBps),
+    maxQuoteDriftBps: Math.max(...fills.map((fill) => fill.quoteDriftBps)),
+  };
+}
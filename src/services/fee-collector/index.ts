@@ -0,0 +1,273 @@
+import { Connection } from "@solana/web3.js";
+import {
+  FeeBreakdown,
+  FeeDebit,
+  FeeEvent,
+  FeeReconciliationEntry,
+  FeeTracker,
+  Logger,
+  ProtocolConfig,
+} from "../../types";
+import { lamportsToSol } from "../../utils/amounts";
+import { FeeLedger } from "../fee-ledger";
+import {
+  CompositeFeeSource,
+  FeeSource,
+  StreamingFeeSource,
+  resolveConfirmationStatus,
+} from "../fee-sources";
+import { FeeClassifier, emptyFeeBreakdown } from "../fee-sources/classifier";
+
+// Maximum signatures accepted by a single getSignatureStatuses call
+const STATUS_BATCH_SIZE = 256;
+
+/**
+ * Fee Collector
+ *
+ * Polls the configured FeeSource, records new events in the fee ledger and
+ * keeps the FeeTracker up to date. Only events that reached `finalized`
+ * (at least `feeConfirmationDepth` confirmations) count towards
+ * `totalFeesCollected`; the rest stay visible as `pendingFees` and are
+ * re-checked on every poll. A pending event whose transaction fails or is
+ * dropped gets a compensating debit in the ledger and is flagged in the next
+ * epoch report. Every inflow is classified first, and only creator fees are
+ * credited; the rest are kept in the ledger for auditing.
+ */
+export class FeeCollector {
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling: boolean = false;
+  private classifier: FeeClassifier;
+  private breakdown: FeeBreakdown = emptyFeeBreakdown();
+  private errors: string[] = [];
+
+  constructor(
+    private config: ProtocolConfig,
+    private connection: Connection,
+    private feeSource: FeeSource,
+    private feeLedger: FeeLedger,
+    private feeTracker: FeeTracker,
+    private logger: Logger
+  ) {
+    // Top-ups from the bot wallet are never creator fees
+    const botWallet = config.botKeypair ? [config.botKeypair.publicKey.toBase58()] : [];
+    this.classifier = new FeeClassifier({
+      ...config.feeClassification,
+      internalSenders: [...config.feeClassification.internalSenders, ...botWallet],
+    });
+
+    this.feeSource.restoreCursors(this.feeLedger.getCursors());
+
+    if (this.feeSource instanceof StreamingFeeSource) {
+      this.feeSource.onEvents((events) => this.ingest(events));
+    }
+  }
+
+  /**
+   * Start polling on feePollIntervalMs
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.feeSource.start();
+    this.pollTimer = setInterval(() => {
+      void this.poll();
+    }, this.config.feePollIntervalMs);
+
+    this.logger.info("Fee collector started", {
+      source: this.config.feeSource,
+      pollIntervalMs: this.config.feePollIntervalMs,
+    });
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.feeSource.stop();
+  }
+
+  /**
+   * Detect new fees and re-check pending ones
+   */
+  async poll(): Promise<void> {
+    // A slow RPC must not stack up overlapping polls
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      const events = await this.feeSource.detect();
+      this.ingest(events);
+      await this.refreshPending();
+    } catch (error) {
+      this.logger.error("Error polling fees", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Drain cross-source disagreements for the epoch report
+   */
+  takeReconciliationLog(): FeeReconciliationEntry[] {
+    return this.feeSource instanceof CompositeFeeSource
+      ? this.feeSource.takeReconciliationLog()
+      : [];
+  }
+
+  /**
+   * Drain per-category inflow totals for the epoch report
+   */
+  takeFeeBreakdown(): FeeBreakdown {
+    const breakdown = this.breakdown;
+    this.breakdown = emptyFeeBreakdown();
+    return breakdown;
+  }
+
+  /**
+   * Drain rollback notices for the next epoch report
+   */
+  takeErrors(): string[] {
+    const errors = this.errors;
+    this.errors = [];
+    return errors;
+  }
+
+  /**
+   * Classify and record detected events; only creator fees new to the
+   * ledger are credited
+   */
+  private ingest(events: FeeEvent[]): void {
+    const classified = events.map((event) => ({
+      ...event,
+      category: event.category ?? this.classifier.classify(event),
+    }));
+    const added = this.feeLedger.record(classified, this.feeSource.getCursors());
+    let credited = 0;
+
+    for (const event of added) {
+      const category = event.category ?? "creator-fee";
+      this.breakdown[category].count++;
+      this.breakdown[category].amountLamports += event.amountLamports;
+
+      if (category !== "creator-fee") {
+        this.logger.info("Fee wallet inflow not credited", {
+          signature: event.signature,
+          category,
+          amountSol: lamportsToSol(event.amountLamports),
+          sender: event.sender,
+        });
+        continue;
+      }
+
+      this.feeTracker.events.push(event);
+      this.applyCredit(event);
+      credited++;
+    }
+
+    if (credited > 0) {
+      this.logger.info("Fees credited", {
+        count: credited,
+        spendableSol: lamportsToSol(this.feeTracker.totalFeesCollected),
+        pendingSol: lamportsToSol(this.feeTracker.pendingFees),
+      });
+    }
+  }
+
+  /**
+   * Re-check pending events: promote the ones that reached finality and roll
+   * back the ones whose transaction failed or was dropped by the cluster
+   */
+  private async refreshPending(): Promise<void> {
+    const pending = this.feeTracker.events.filter(
+      (event) => !event.processed && event.confirmationStatus !== "finalized"
+    );
+    const now = Math.floor(Date.now() / 1000);
+
+    for (let i = 0; i < pending.length; i += STATUS_BATCH_SIZE) {
+      const batch = pending.slice(i, i + STATUS_BATCH_SIZE);
+      const statuses = await this.connection.getSignatureStatuses(
+        batch.map((event) => event.signature),
+        { searchTransactionHistory: true }
+      );
+
+      batch.forEach((event, idx) => {
+        const chainStatus = statuses.value[idx];
+
+        if (chainStatus?.err) {
+          this.rollBack(event, "failed");
+          return;
+        }
+
+        // An unknown signature is only treated as dropped once its blockhash
+        // has certainly expired; until then the RPC may simply lag behind
+        if (!chainStatus && now - event.timestamp > this.config.feeDropTimeoutSeconds) {
+          this.rollBack(event, "dropped");
+          return;
+        }
+
+        const status = resolveConfirmationStatus(chainStatus, this.config.feeConfirmationDepth);
+        if (status === event.confirmationStatus) {
+          return;
+        }
+
+        // Take the event out of the pending total before re-crediting it
+        this.releasePending(event);
+        event.confirmationStatus = status;
+        this.feeLedger.updateStatus(event.signature, status);
+        this.applyCredit(event);
+
+        if (status === "finalized") {
+          this.logger.info("Pending fee finalized", {
+            signature: event.signature,
+            amountSol: lamportsToSol(event.amountLamports),
+          });
+        }
+      });
+    }
+  }
+
+  /**
+   * Write a compensating debit for a pending event and drop it from the tracker
+   */
+  private rollBack(event: FeeEvent, reason: FeeDebit["reason"]): void {
+    const debit = this.feeLedger.debit(event.signature, reason);
+    if (!debit) {
+      return;
+    }
+
+    this.releasePending(event);
+    this.feeTracker.events = this.feeTracker.events.filter((e) => e !== event);
+
+    const amountSol = lamportsToSol(debit.amountLamports);
+    const message = `Fee ${event.signature} rolled back (${reason}): -${amountSol} SOL`;
+    this.errors.push(message);
+    this.logger.warn("Credited fee rolled back", {
+      signature: event.signature,
+      reason,
+      amountSol,
+    });
+  }
+
+  private applyCredit(event: FeeEvent): void {
+    if (event.confirmationStatus === "finalized") {
+      this.feeTracker.totalFeesCollected += event.amountLamports;
+    } else {
+      this.feeTracker.pendingFees += event.amountLamports;
+    }
+  }
+
+  /**
+   * Take a pending event out of the pending total
+   */
+  private releasePending(event: FeeEvent): void {
+    const remaining = this.feeTracker.pendingFees - event.amountLamports;
+    this.feeTracker.pendingFees = remaining > 0n ? remaining : 0n;
+  }
+}
@@ -0,0 +1,235 @@
+import * as path from "path";
+import { FeeDebit, FeeEvent, FeeTracker, Logger } from "../../types";
+import { solToLamports } from "../../utils/amounts";
+import { readJsonFile, writeJsonFileAtomic } from "../../utils/persistence";
+
+/**
+ * An entry as stored on disk. JSON has no bigint, so amounts are written as
+ * lamport strings; version 1 files held SOL floats in `amountSol` instead.
+ */
+type Stored<T> = Omit<T, "amountLamports"> & { amountLamports?: string; amountSol?: number };
+
+interface FeeLedgerFile {
+  version: 1 | 2;
+  cursors: Record<string, string>;
+  events: Stored<FeeEvent>[];
+  debits: Stored<FeeDebit>[];
+}
+
+/**
+ * Fee Ledger
+ *
+ * Durable record of every detected FeeEvent and of each fee source's cursor.
+ * Events are keyed by signature, so re-detecting a signature after a restart
+ * never credits it twice. The `processed` flag marks events already consumed
+ * by an epoch. Credits are never deleted: a fee whose transaction was later
+ * dropped or failed is flagged `reverted` and offset by a FeeDebit entry.
+ */
+export class FeeLedger {
+  private events = new Map<string, FeeEvent>();
+  private cursors: Record<string, string> = {};
+  private debits: FeeDebit[] = [];
+
+  constructor(
+    private filePath: string,
+    private logger: Logger
+  ) {
+    this.load();
+  }
+
+  /**
+   * Record newly detected events and the source cursors that produced them.
+   * Returns only the events that were not already in the ledger. Backfilled
+   * history is recorded as already processed so it never becomes spendable.
+   */
+  record(
+    events: FeeEvent[],
+    cursors: Record<string, string> = {},
+    processed: boolean = false
+  ): FeeEvent[] {
+    const added: FeeEvent[] = [];
+
+    for (const event of events) {
+      if (this.events.has(event.signature)) {
+        continue;
+      }
+      const stored = { ...event, processed };
+      this.events.set(event.signature, stored);
+      added.push({ ...stored });
+    }
+
+    const cursorsChanged = Object.entries(cursors).some(
+      ([source, cursor]) => this.cursors[source] !== cursor
+    );
+    this.cursors = { ...this.cursors, ...cursors };
+
+    if (added.length > 0 || cursorsChanged) {
+      this.save();
+    }
+
+    if (added.length > 0) {
+      this.logger.debug("Fee events recorded in ledger", {
+        added: added.length,
+        skipped: events.length - added.length,
+      });
+    }
+
+    return added;
+  }
+
+  /**
+   * Mark the given events as consumed by an epoch
+   */
+  markProcessed(signatures: string[]): void {
+    let changed = 0;
+
+    for (const signature of signatures) {
+      const event = this.events.get(signature);
+      if (event && !event.processed) {
+        event.processed = true;
+        changed++;
+      }
+    }
+
+    if (changed > 0) {
+      this.save();
+      this.logger.debug("Fee events marked processed", { count: changed });
+    }
+  }
+
+  /**
+   * Update the confirmation status of a recorded event
+   */
+  updateStatus(signature: string, status: FeeEvent["confirmationStatus"]): void {
+    const event = this.events.get(signature);
+    if (event && event.confirmationStatus !== status) {
+      event.confirmationStatus = status;
+      this.save();
+    }
+  }
+
+  /**
+   * Roll back a credited event whose transaction was dropped or failed.
+   * Returns the compensating entry, or null if there was nothing to revert.
+   */
+  debit(signature: string, reason: FeeDebit["reason"]): FeeDebit | null {
+    const event = this.events.get(signature);
+    if (!event || event.reverted) {
+      return null;
+    }
+
+    const entry: FeeDebit = {
+      signature,
+      amountLamports: event.amountLamports,
+      reason,
+      timestamp: Math.floor(Date.now() / 1000),
+    };
+    event.reverted = true;
+    this.debits.push(entry);
+    this.save();
+
+    return { ...entry };
+  }
+
+  has(signature: string): boolean {
+    return this.events.has(signature);
+  }
+
+  getEvents(): FeeEvent[] {
+    return Array.from(this.events.values()).map((event) => ({ ...event }));
+  }
+
+  getUnprocessed(): FeeEvent[] {
+    return this.getEvents().filter((event) => !event.processed);
+  }
+
+  getCursors(): Record<string, string> {
+    return { ...this.cursors };
+  }
+
+  getDebits(): FeeDebit[] {
+    return this.debits.map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * Build the in-memory tracker view from the persisted ledger.
+   * Only creator fees are credited; other inflows stay in the ledger for auditing.
+   */
+  createTracker(): FeeTracker {
+    const events = this.getEvents().filter(
+      (event) => (event.category ?? "creator-fee") === "creator-fee" && !event.reverted
+    );
+    const latest = events
+      .filter((event) => event.processed)
+      .reduce<FeeEvent | null>(
+      (acc, event) => (!acc || event.timestamp > acc.timestamp ? event : acc),
+      null
+    );
+
+    const unprocessed = events.filter((event) => !event.processed);
+
+    return {
+      totalFeesCollected: unprocessed
+        .filter((event) => event.confirmationStatus === "finalized")
+        .reduce((sum, event) => sum + event.amountLamports, 0n),
+      pendingFees: unprocessed
+        .filter((event) => event.confirmationStatus !== "finalized")
+        .reduce((sum, event) => sum + event.amountLamports, 0n),
+      lastProcessedSignature: latest?.signature || "",
+      lastProcessedTimestamp: latest?.timestamp || 0,
+      events,
+    };
+  }
+
+  private load(): void {
+    const data = readJsonFile<FeeLedgerFile>(this.filePath);
+
+    if (!data) {
+      this.logger.info("Starting new fee ledger", { path: this.filePath });
+      return;
+    }
+
+    data.events.forEach(({ amountLamports, amountSol, ...event }) =>
+      this.events.set(event.signature, {
+        ...event,
+        amountLamports: storedAmount(amountLamports, amountSol),
+      })
+    );
+    this.cursors = data.cursors || {};
+    this.debits = (data.debits || []).map(({ amountLamports, amountSol, ...debit }) => ({
+      ...debit,
+      amountLamports: storedAmount(amountLamports, amountSol),
+    }));
+
+    this.logger.info("Fee ledger loaded", {
+      path: this.filePath,
+      events: this.events.size,
+      unprocessed: this.getUnprocessed().length,
+    });
+  }
+
+  private save(): void {
+    const data: FeeLedgerFile = {
+      version: 2,
+      cursors: this.cursors,
+      events: Array.from(this.events.values()).map(toStored),
+      debits: this.debits.map(toStored),
+    };
+    writeJsonFileAtomic(this.filePath, data);
+  }
+}
+
+/**
+ * Resolve the ledger file inside the protocol data directory
+ */
+export function createFeeLedger(dataDir: string, logger: Logger): FeeLedger {
+  return new FeeLedger(path.resolve(dataDir, "fee-ledger.json"), logger);
+}
+
+function toStored<T extends { amountLamports: bigint }>(entry: T): Stored<T> {
+  return { ...entry, amountLamports: entry.amountLamports.toString() };
+}
+
+function storedAmount(amountLamports: string | undefined, amountSol: number | undefined): bigint {
+  return amountLamports !== undefined ? BigInt(amountLamports) : solToLamports(amountSol ?? 0);
+}
@@ -0,0 +1,58 @@
+import { FeeLedger } from "../fee-ledger";
+import { FeeClassifier } from "./classifier";
+import { FeeHistoryBound, WALLET_WATCHER_CURSOR, WalletWatcherFeeSource } from "./index";
+
+// Fee ledger key for the backfill resume point
+export const BACKFILL_CURSOR = "backfill";
+
+/**
+ * Rebuild the fee ledger from the fee wallet's history, newest page first,
+ * down to `bound`. Events are classified like the live collector would and
+ * recorded as already processed, so old fees never become spendable again.
+ * The resume point is stored with every page.
+ *
+ * A fresh run starts below the live watcher's cursor: anything newer has not
+ * been read by the watcher yet, and recording it here as processed would
+ * make the watcher skip it as a duplicate.
+ */
+export async function backfillFeeHistory(
+  watcher: WalletWatcherFeeSource,
+  ledger: FeeLedger,
+  classifier: FeeClassifier,
+  bound: FeeHistoryBound,
+  onPage: (page: number, inflows: number, added: number) => void = (): void => undefined
+): Promise<{ pages: number; added: number }> {
+  const cursors = ledger.getCursors();
+  let before: string | undefined =
+    cursors[BACKFILL_CURSOR] || cursors[WALLET_WATCHER_CURSOR] || undefined;
+  let pages = 0;
+  let added = 0;
+
+  for (;;) {
+    const page = await watcher.fetchHistoryPage(before, bound);
+    const pageCursors: Record<string, string> = {};
+
+    // Without a live cursor the bot would re-read the newest page and
+    // credit it; point it at the head of the history being rebuilt
+    if (!before && !cursors[WALLET_WATCHER_CURSOR] && page.newestSignature) {
+      pageCursors[WALLET_WATCHER_CURSOR] = page.newestSignature;
+    }
+
+    // An empty resume point marks the backfill as complete
+    const finished = page.done || !page.nextBefore;
+    pageCursors[BACKFILL_CURSOR] = finished ? "" : page.nextBefore!;
+
+    const classified = page.events.map((event) => ({
+      ...event,
+      category: classifier.classify(event),
+    }));
+    added += ledger.record(classified, pageCursors, true).length;
+    pages++;
+    onPage(pages, page.events.length, added);
+
+    if (finished) {
+      return { pages, added };
+    }
+    before = page.nextBefore!;
+  }
+}
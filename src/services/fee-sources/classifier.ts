@@ -0,0 +1,65 @@
+import { FeeBreakdown, FeeCategory, FeeClassificationRules, FeeEvent } from "../../types";
+import { solToLamports } from "../../utils/amounts";
+
+/**
+ * Fee Classifier
+ *
+ * Sorts every inflow to the fee wallet into a category so that only real
+ * creator fees reach the FeeTracker. Rules are checked in order:
+ *
+ *   1. Sender is one of our own wallets      -> internal-transfer
+ *   2. Sender is on the ignore list          -> ignored
+ *   3. Amount below the dust threshold       -> ignored
+ *   4. No creator-fee programs configured,
+ *      or the source carries no program info -> creator-fee
+ *   5. A creator-fee program was invoked     -> creator-fee
+ *   6. Anything else                         -> unknown
+ */
+export class FeeClassifier {
+  private internalSenders: Set<string>;
+  private ignoredSenders: Set<string>;
+  private creatorFeePrograms: Set<string>;
+
+  constructor(private rules: FeeClassificationRules) {
+    this.internalSenders = new Set(rules.internalSenders);
+    this.ignoredSenders = new Set(rules.ignoredSenders);
+    this.creatorFeePrograms = new Set(rules.creatorFeeProgramIds);
+  }
+
+  classify(event: FeeEvent): FeeCategory {
+    if (event.sender && this.internalSenders.has(event.sender)) {
+      return "internal-transfer";
+    }
+
+    if (event.sender && this.ignoredSenders.has(event.sender)) {
+      return "ignored";
+    }
+
+    if (event.amountLamports < solToLamports(this.rules.minAmountSol)) {
+      return "ignored";
+    }
+
+    // API and mock feeds only report creator fees and carry no program info
+    if (this.creatorFeePrograms.size === 0 || event.programIds === undefined) {
+      return "creator-fee";
+    }
+
+    if (event.programIds.some((programId) => this.creatorFeePrograms.has(programId))) {
+      return "creator-fee";
+    }
+
+    return "unknown";
+  }
+}
+
+/**
+ * Zeroed per-category totals
+ */
+export function emptyFeeBreakdown(): FeeBreakdown {
+  return {
+    "creator-fee": { count: 0, amountLamports: 0n },
+    "internal-transfer": { count: 0, amountLamports: 0n },
+    ignored: { count: 0, amountLamports: 0n },
+    unknown: { count: 0, amountLamports: 0n },
+  };
+}
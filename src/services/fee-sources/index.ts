@@ -1,34 +1,171 @@
-import { FeeEvent, Logger } from "../../types";
+import {
+  ConfirmedSignatureInfo,
+  Connection,
+  PublicKey,
+  SignatureStatus,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+import axios, { AxiosInstance } from "axios";
+import * as fs from "fs";
+import WebSocket from "ws";
+import {
+  FeeApiConfig,
+  FeeEvent,
+  FeeMockConfig,
+  FeeReconciliationEntry,
+  Logger,
+  ProtocolConfig,
+} from "../../types";
+import { lamportsToSol, solToLamports } from "../../utils/amounts";
+import { getPath } from "../../utils/json-path";
+import { RandomSource, createRandom, randomBetween, randomInt } from "../../utils/random";
+
+// Maximum page size accepted by getSignaturesForAddress
+const SIGNATURE_PAGE_LIMIT = 1000;
+
+// Fee ledger keys for each source's resume position
+export const WALLET_WATCHER_CURSOR = "wallet-watcher";
+const API_CURSOR = "api";
+
+// Upper bound on fee API pages fetched by a single detect() call
+const API_MAX_PAGES_PER_POLL = 50;
+
+// Mock ticks per simulated day (one tick per hourly epoch)
+const MOCK_TICKS_PER_DAY = 24;
+
+const DEFAULT_MOCK_CONFIG: FeeMockConfig = {
+  scenario: "steady",
+  seed: null,
+  csvPath: "",
+  whaleDay: 1,
+};
+
+type FeeConfirmationStatus = FeeEvent["confirmationStatus"];
+
+/**
+ * Map an RPC signature status onto a FeeEvent confirmation status.
+ * An event only counts as finalized once it is rooted or has at least
+ * `confirmationDepth` confirmations.
+ */
+export function resolveConfirmationStatus(
+  status: SignatureStatus | null,
+  confirmationDepth: number
+): FeeConfirmationStatus {
+  if (!status) {
+    return "processed";
+  }
+
+  // Rooted transactions report no confirmation count
+  if (status.confirmationStatus === "finalized") {
+    return "finalized";
+  }
+
+  const confirmations = status.confirmations || 0;
+
+  if (confirmations >= confirmationDepth) {
+    return "finalized";
+  } else if (confirmations >= 16 || status.confirmationStatus === "confirmed") {
+    return "confirmed";
+  } else {
+    return "processed";
+  }
+}
+
+/**
+ * Lower bound of a history backfill; either field may be omitted
+ */
+export interface FeeHistoryBound {
+  slot?: number;
+  timestamp?: number; // Unix timestamp (seconds)
+}
+
+/**
+ * One page of parsed fee wallet history, oldest event first
+ */
+export interface FeeHistoryPage {
+  events: FeeEvent[];
+  newestSignature: string | null;
+  nextBefore: string | null; // resume point for the next (older) page
+  done: boolean;
+}
+
+interface WalletInflow {
+  amountLamports: bigint;
+  sender?: string;
+  programIds: string[];
+}
 
 /**
  * Abstract base class for fee sources
  */
 export abstract class FeeSource {
   abstract detect(): Promise<FeeEvent[]>;
+
+  /**
+   * Open long-lived connections (polling sources have none)
+   */
+  start(): void {
+    // no-op by default
+  }
+
+  /**
+   * Close long-lived connections and timers
+   */
+  stop(): void {
+    // no-op by default
+  }
+
+  /**
+   * Resume positions, keyed by source, to persist in the fee ledger
+   */
+  getCursors(): Record<string, string> {
+    return {};
+  }
+
+  /**
+   * Restore positions previously returned by getCursors()
+   */
+  restoreCursors(_cursors: Record<string, string>): void {
+    // no-op by default
+  }
 }
 
 /**
  * Mock Fee Source - for testing and simulation
+ *
+ * Each detect() call is one simulated tick (an hour of a 24-tick day). The
+ * scenario decides how many fees arrive per tick and how large they are;
+ * with a seed, the whole sequence is reproducible.
  */
 export class MockFeeSource extends FeeSource {
   private generatedSignatures = new Set<string>();
+  private random: RandomSource;
+  private replay: Map<number, number[]> = new Map();
+  private tick: number = 0;
 
-  constructor(private logger: Logger) {
+  constructor(
+    private logger: Logger,
+    private mockConfig: FeeMockConfig = DEFAULT_MOCK_CONFIG
+  ) {
     super();
+    this.random = createRandom(mockConfig.seed);
+
+    if (mockConfig.scenario === "replay") {
+      this.replay = loadReplayCsv(mockConfig.csvPath);
+    }
   }
 
   async detect(): Promise<FeeEvent[]> {
-    // Simulate random fee inflows during simulation
+    // Simulate fee inflows for this tick
     const now = Math.floor(Date.now() / 1000);
+    const amounts = this.drawAmounts(this.tick);
+    this.tick++;
 
-    // 30% chance of detecting a fee
-    if (Math.random() < 0.3) {
-      const signature = this.generateMockSignature();
-
+    return amounts.map((amountSol) => {
       const event: FeeEvent = {
-        signature,
+        signature: this.generateMockSignature(),
         timestamp: now,
-        amountSol: Math.random() * 5 + 0.1, // 0.1 - 5.1 SOL
+        amountLamports: solToLamports(amountSol),
         source: "mock",
         confirmationStatus: "finalized",
         processed: false,
@@ -36,13 +173,47 @@ export class MockFeeSource extends FeeSource {
 
       this.logger.debug("Mock fee detected", {
         signature: event.signature,
-        amountSol: event.amountSol,
+        amountSol,
+        scenario: this.mockConfig.scenario,
       });
 
-      return [event];
-    }
+      return event;
+    });
+  }
 
-    return [];
+  /**
+   * Fee amounts (SOL) arriving in the given tick under the configured scenario
+   */
+  private drawAmounts(tick: number): number[] {
+    const random = this.random;
+
+    switch (this.mockConfig.scenario) {
+      case "steady":
+        // 30% chance per tick, 0.1 - 5.1 SOL
+        return random() < 0.3 ? [randomBetween(random, 0.1, 5.1)] : [];
+      case "bursty": {
+        // Six busy ticks at the start of every day, quiet otherwise
+        if (tick % MOCK_TICKS_PER_DAY < 6) {
+          const count = random() < 0.9 ? randomInt(random, 1, 4) : 0;
+          return Array.from({ length: count }, () => randomBetween(random, 0.5, 5));
+        }
+        return random() < 0.1 ? [randomBetween(random, 0.05, 1)] : [];
+      }
+      case "drought":
+        return random() < 0.05 ? [randomBetween(random, 0.01, 0.3)] : [];
+      case "whale-day": {
+        // Steady flow, except one day of very large, frequent fees
+        if (Math.floor(tick / MOCK_TICKS_PER_DAY) === this.mockConfig.whaleDay) {
+          const count = randomInt(random, 1, 3);
+          return Array.from({ length: count }, () => randomBetween(random, 20, 120));
+        }
+        return random() < 0.3 ? [randomBetween(random, 0.1, 5.1)] : [];
+      }
+      case "replay":
+        return this.replay.get(tick) || [];
+      default:
+        throw new Error(`Unknown mock fee scenario: ${this.mockConfig.scenario}`);
+    }
   }
 
   private generateMockSignature(): string {
@@ -50,7 +221,7 @@ export class MockFeeSource extends FeeSource {
     do {
       sig = Array.from({ length: 88 })
         .map(() => "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789"[
-          Math.floor(Math.random() * 62)
+          Math.floor(this.random() * 62)
         ])
         .join("");
     } while (this.generatedSignatures.has(sig));
@@ -60,6 +231,34 @@ export class MockFeeSource extends FeeSource {
   }
 }
 
+/**
+ * Read "tick,amount_sol" rows into amounts per tick. A header row and blank
+ * lines are skipped; several rows may share a tick.
+ */
+function loadReplayCsv(csvPath: string): Map<number, number[]> {
+  const byTick = new Map<number, number[]>();
+  const lines = fs.readFileSync(csvPath, "utf-8").split(/\r?\n/);
+
+  lines.forEach((line, idx) => {
+    const trimmed = line.trim();
+    if (!trimmed || (idx === 0 && /[a-z]/i.test(trimmed))) {
+      return;
+    }
+
+    const [tickField, amountField] = trimmed.split(",").map((field) => field.trim());
+    const tick = Number(tickField);
+    const amountSol = Number(amountField);
+
+    if (!Number.isInteger(tick) || tick < 0 || !Number.isFinite(amountSol) || amountSol <= 0) {
+      throw new Error(`Invalid replay row ${idx + 1} in ${csvPath}: ${trimmed}`);
+    }
+
+    byTick.set(tick, [...(byTick.get(tick) || []), amountSol]);
+  });
+
+  return byTick;
+}
+
 /**
  * Wallet Watcher Fee Source - monitors a Solana wallet for SOL inflows
  * 
@@ -69,13 +268,15 @@ export class MockFeeSource extends FeeSource {
 export class WalletWatcherFeeSource extends FeeSource {
   private lastProcessedSignature: string | null = null;
   private lastPollTime: number = 0;
+  private pollChain: Promise<unknown> = Promise.resolve();
 
   constructor(
-    private connection: any, // Solana Connection object
-    private feeWallet: any, // PublicKey
+    private connection: Connection,
+    private feeWallet: PublicKey,
     private logger: Logger,
     private pollIntervalMs: number = 30000,
-    private confirmationDepth: number = 32
+    private confirmationDepth: number = 32,
+    private pageLimit: number = SIGNATURE_PAGE_LIMIT
   ) {
     super();
   }
@@ -90,147 +291,916 @@ export class WalletWatcherFeeSource extends FeeSource {
 
     this.lastPollTime = now;
 
-    try {
-      const signatures = await this.fetchRecentSignatures();
-      const feeEvents = await this.processSignatures(signatures);
+    return this.poll();
+  }
 
-      return feeEvents;
-    } catch (error) {
-      this.logger.error("Error detecting fees from wallet", {
-        error: error instanceof Error ? error.message : String(error),
+  getCursors(): Record<string, string> {
+    return this.lastProcessedSignature
+      ? { [WALLET_WATCHER_CURSOR]: this.lastProcessedSignature }
+      : {};
+  }
+
+  restoreCursors(cursors: Record<string, string>): void {
+    if (cursors[WALLET_WATCHER_CURSOR]) {
+      this.lastProcessedSignature = cursors[WALLET_WATCHER_CURSOR];
+      this.logger.info("Wallet watcher resuming from cursor", {
+        signature: this.lastProcessedSignature,
       });
-      return [];
     }
   }
 
-  private async fetchRecentSignatures(): Promise<string[]> {
-    // Fetch recent transactions from the fee wallet
-    // NOTE: This is a simplified example. In production, use:
-    // connection.getSignaturesForAddress(feeWallet, { limit: 100 })
+  /**
+   * Poll immediately, bypassing the poll interval.
+   * Concurrent calls are serialized so no signature is processed twice.
+   */
+  poll(): Promise<FeeEvent[]> {
+    const run = this.pollChain.then(async () => {
+      try {
+        const signatures = await this.fetchRecentSignatures();
+        const feeEvents = await this.processSignatures(signatures);
+
+        return feeEvents;
+      } catch (error) {
+        this.logger.error("Error detecting fees from wallet", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return [];
+      }
+    });
+
+    this.pollChain = run;
+    return run;
+  }
+
+  /**
+   * Page backwards through the fee wallet's history until the last processed
+   * signature is reached. Returns signatures oldest-first.
+   */
+  private async fetchRecentSignatures(): Promise<ConfirmedSignatureInfo[]> {
+    const until = this.lastProcessedSignature ?? undefined;
+    const collected: ConfirmedSignatureInfo[] = [];
+    let before: string | undefined;
 
     this.logger.debug("Fetching recent signatures", {
       wallet: this.feeWallet.toBase58(),
+      until,
     });
 
-    // For now, return empty - would be populated by real connection
-    return [];
+    for (;;) {
+      const page = await this.connection.getSignaturesForAddress(this.feeWallet, {
+        before,
+        until,
+        limit: this.pageLimit,
+      });
+
+      collected.push(...page);
+
+      // A short page means the cursor (or the start of history) was reached.
+      // Without a cursor, only the latest page is taken as a starting point.
+      if (page.length < this.pageLimit || !until) {
+        break;
+      }
+
+      before = page[page.length - 1].signature;
+      this.logger.debug("Signature gap exceeds one page, fetching older page", {
+        before,
+        collected: collected.length,
+      });
+    }
+
+    return collected.reverse();
   }
 
-  private async processSignatures(signatures: string[]): Promise<FeeEvent[]> {
+  private async processSignatures(signatures: ConfirmedSignatureInfo[]): Promise<FeeEvent[]> {
     const events: FeeEvent[] = [];
 
-    for (const signature of signatures) {
-      // Skip if already processed
-      if (this.lastProcessedSignature && signature === this.lastProcessedSignature) {
-        break;
+    for (const info of signatures) {
+      const { signature } = info;
+
+      // Failed transactions move no SOL, but still advance the cursor
+      if (info.err) {
+        this.lastProcessedSignature = signature;
+        continue;
       }
 
       try {
         // Get transaction details
-        const tx = await this.connection.getTransaction(signature);
+        const tx = await this.getTransaction(signature);
 
-        if (!tx || !tx.meta) {
-          continue;
+        if (!tx) {
+          // Not yet available from the RPC node: retry from here next poll
+          this.logger.debug("Transaction not yet available", { signature });
+          break;
         }
 
-        // Extract SOL transfers (positive balance changes on fee wallet)
-        const solInflow = this.extractSolInflow(tx.meta);
-
-        if (solInflow > 0) {
-          const confirmationStatus = await this.getConfirmationStatus(signature);
-
-          const event: FeeEvent = {
-            signature,
-            timestamp: tx.blockTime || Math.floor(Date.now() / 1000),
-            amountSol: solInflow,
-            source: "wallet-watcher",
-            confirmationStatus,
-            processed: false,
-          };
+        const event = await this.toFeeEvent(signature, tx);
 
+        if (event) {
           events.push(event);
 
-          this.logger.info("Fee detected from wallet", {
+          this.logger.info("Inflow detected on fee wallet", {
             signature,
-            amountSol: solInflow,
-            confirmationStatus,
+            amountSol: lamportsToSol(event.amountLamports),
+            sender: event.sender,
+            confirmationStatus: event.confirmationStatus,
           });
         }
+
+        this.lastProcessedSignature = signature;
       } catch (error) {
-        this.logger.warn("Error processing signature", {
+        this.logger.warn("Error processing signature, retrying next poll", {
           signature,
           error: error instanceof Error ? error.message : String(error),
         });
+        break;
       }
     }
 
-    // Update last processed
-    if (signatures.length > 0) {
-      this.lastProcessedSignature = signatures[0];
+    return events;
+  }
+
+  /**
+   * Parse one page of the fee wallet's history, walking backwards from
+   * `before` (or from the newest signature). Used by the backfill script;
+   * the live cursor is left untouched. The page stops early at the first
+   * signature older than `since`.
+   */
+  async fetchHistoryPage(
+    before: string | undefined,
+    since: FeeHistoryBound
+  ): Promise<FeeHistoryPage> {
+    const page = await this.connection.getSignaturesForAddress(this.feeWallet, {
+      before,
+      limit: this.pageLimit,
+    });
+
+    const cutoff = page.findIndex(
+      (info) =>
+        (since.slot !== undefined && info.slot < since.slot) ||
+        (since.timestamp !== undefined && !!info.blockTime && info.blockTime < since.timestamp)
+    );
+    const inRange = cutoff === -1 ? page : page.slice(0, cutoff);
+    const events: FeeEvent[] = [];
+
+    for (const info of inRange) {
+      if (info.err) {
+        continue;
+      }
+
+      const tx = await this.getTransaction(info.signature);
+      if (!tx) {
+        // Historical transactions may be pruned by the RPC node; stop so the
+        // backfill can be resumed against an archive node
+        throw new Error(`Transaction ${info.signature} not available from RPC`);
+      }
+
+      const event = await this.toFeeEvent(info.signature, tx);
+      if (event) {
+        events.push(event);
+      }
     }
 
-    return events;
+    return {
+      events: events.reverse(),
+      newestSignature: page.length > 0 ? page[0].signature : null,
+      nextBefore: inRange.length > 0 ? inRange[inRange.length - 1].signature : null,
+      done: cutoff !== -1 || page.length < this.pageLimit,
+    };
   }
 
-  private extractSolInflow(meta: any): number {
-    // Extract SOL transferred to fee wallet
-    // Simplified: look at post-balances vs pre-balances
-    // In practice, use SPL token program + transaction instruction parsing
+  private async getTransaction(signature: string): Promise<VersionedTransactionResponse | null> {
+    const tx = await this.connection.getTransaction(signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+
+    return tx && tx.meta ? tx : null;
+  }
 
-    if (!meta.preBalances || !meta.postBalances) {
-      return 0;
+  /**
+   * Build a FeeEvent from a transaction, or null if it moved no SOL into the wallet
+   */
+  private async toFeeEvent(
+    signature: string,
+    tx: VersionedTransactionResponse
+  ): Promise<FeeEvent | null> {
+    // Extract SOL transfers (positive balance changes on fee wallet)
+    const inflow = this.extractInflow(tx);
+    if (!inflow) {
+      return null;
     }
 
-    // Assume fee wallet is account 0
-    const preBal = meta.preBalances[0] || 0;
-    const postBal = meta.postBalances[0] || 0;
+    return {
+      signature,
+      timestamp: tx.blockTime || Math.floor(Date.now() / 1000),
+      amountLamports: inflow.amountLamports,
+      source: "wallet-watcher",
+      confirmationStatus: await this.getConfirmationStatus(signature),
+      processed: false,
+      sender: inflow.sender,
+      programIds: inflow.programIds,
+    };
+  }
+
+  private extractInflow(tx: VersionedTransactionResponse): WalletInflow | null {
+    // Extract SOL transferred to fee wallet from its pre/post balances.
+    // Versioned transactions may reference the wallet through a lookup table,
+    // so the loaded addresses are included when resolving its index.
+    const meta = tx.meta;
+    if (!meta || !meta.preBalances || !meta.postBalances) {
+      return null;
+    }
 
-    // Inflow is positive balance change (in lamports, divide by 1e9 for SOL)
+    const accountKeys = tx.transaction.message.getAccountKeys({
+      accountKeysFromLookups: meta.loadedAddresses,
+    });
+
+    let walletIndex = -1;
+    for (let i = 0; i < accountKeys.length; i++) {
+      if (accountKeys.get(i)?.equals(this.feeWallet)) {
+        walletIndex = i;
+        break;
+      }
+    }
+
+    if (walletIndex === -1) {
+      return null;
+    }
+
+    const preBal = meta.preBalances[walletIndex] || 0;
+    const postBal = meta.postBalances[walletIndex] || 0;
+
+    // Inflow is positive balance change (in lamports)
     const inflow = Math.max(0, postBal - preBal);
-    return inflow / 1e9;
+    if (inflow === 0) {
+      return null;
+    }
+
+    // The sender is the account whose balance dropped the most
+    let senderIndex = -1;
+    let largestOutflow = 0;
+    meta.preBalances.forEach((pre, idx) => {
+      const outflow = pre - (meta.postBalances[idx] || 0);
+      if (idx !== walletIndex && outflow > largestOutflow) {
+        largestOutflow = outflow;
+        senderIndex = idx;
+      }
+    });
+
+    // Top-level and inner (CPI) instructions both count as invoked programs
+    const programIndexes = [
+      ...tx.transaction.message.compiledInstructions.map((ix) => ix.programIdIndex),
+      ...(meta.innerInstructions || []).flatMap((inner) =>
+        inner.instructions.map((ix) => ix.programIdIndex)
+      ),
+    ];
+    const programIds = Array.from(
+      new Set(
+        programIndexes
+          .map((idx) => accountKeys.get(idx)?.toBase58())
+          .filter((id): id is string => id !== undefined)
+      )
+    );
+
+    return {
+      amountLamports: BigInt(inflow),
+      sender: senderIndex >= 0 ? accountKeys.get(senderIndex)?.toBase58() : undefined,
+      programIds,
+    };
   }
 
-  private async getConfirmationStatus(
-    signature: string
-  ): Promise<"processed" | "confirmed" | "finalized"> {
+  private async getConfirmationStatus(signature: string): Promise<FeeConfirmationStatus> {
     // Check confirmation status
     try {
       const status = await this.connection.getSignatureStatus(signature);
+      return resolveConfirmationStatus(status.value, this.confirmationDepth);
+    } catch {
+      return "processed";
+    }
+  }
+}
+
+/**
+ * Streaming Fee Source - subscribes to fee wallet logs over WebSocket
+ *
+ * Each `logsNotification` mentioning the fee wallet triggers an immediate
+ * poll of the wallet watcher, so fees are detected within seconds. While the
+ * socket is down it reconnects with exponential backoff, and detect() falls
+ * back to the watcher's interval polling.
+ */
+export class StreamingFeeSource extends FeeSource {
+  private socket: WebSocket | null = null;
+  private connected: boolean = false;
+  private running: boolean = false;
+  private reconnectAttempts: number = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private buffered: FeeEvent[] = [];
+  private listeners: Array<(events: FeeEvent[]) => void> = [];
+
+  constructor(
+    private wsUrl: string,
+    private feeWallet: PublicKey,
+    private watcher: WalletWatcherFeeSource,
+    private logger: Logger,
+    private reconnectBaseMs: number = 1000,
+    private reconnectMaxMs: number = 30000
+  ) {
+    super();
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.connect();
+  }
+
+  stop(): void {
+    this.running = false;
+    this.clearTimers();
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      // Terminating a socket that is still connecting emits an error
+      this.socket.on("error", () => undefined);
+      this.socket.terminate();
+      this.socket = null;
+    }
+    this.connected = false;
+  }
+
+  async detect(): Promise<FeeEvent[]> {
+    if (!this.running) {
+      this.start();
+    }
+
+    const events = this.buffered;
+    this.buffered = [];
+
+    if (!this.connected) {
+      // Socket down: fall back to interval polling
+      events.push(...(await this.watcher.detect()));
+    }
+
+    return events;
+  }
+
+  getCursors(): Record<string, string> {
+    return this.watcher.getCursors();
+  }
+
+  restoreCursors(cursors: Record<string, string>): void {
+    this.watcher.restoreCursors(cursors);
+  }
+
+  /**
+   * Register a listener called as soon as streamed fees are detected
+   */
+  onEvents(listener: (events: FeeEvent[]) => void): void {
+    this.listeners.push(listener);
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  private connect(): void {
+    this.logger.debug("Connecting fee stream", { url: this.wsUrl });
+
+    const socket = new WebSocket(this.wsUrl);
+    this.socket = socket;
+
+    socket.on("open", () => {
+      socket.send(
+        JSON.stringify({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "logsSubscribe",
+          params: [{ mentions: [this.feeWallet.toBase58()] }, { commitment: "confirmed" }],
+        })
+      );
+    });
 
-      if (!status || !status.value) {
-        return "processed";
+    socket.on("message", (data: WebSocket.RawData) => {
+      this.handleMessage(data.toString());
+    });
+
+    socket.on("error", (error: Error) => {
+      this.logger.warn("Fee stream socket error", { error: error.message });
+    });
+
+    socket.on("close", () => {
+      this.handleDisconnect();
+    });
+  }
+
+  private handleMessage(raw: string): void {
+    let message: {
+      id?: number;
+      result?: unknown;
+      error?: { message: string };
+      method?: string;
+      params?: { result?: { value?: { signature?: string; err?: unknown } } };
+    };
+
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.logger.warn("Ignoring malformed fee stream message");
+      return;
+    }
+
+    if (message.id === 1) {
+      if (message.error) {
+        this.logger.error("Fee stream subscription rejected", { error: message.error.message });
+        this.socket?.close();
+        return;
       }
 
-      const confirmations = status.value.confirmations || 0;
+      this.connected = true;
+      this.reconnectAttempts = 0;
+      this.startHeartbeat();
+      this.logger.info("Fee stream subscribed", {
+        wallet: this.feeWallet.toBase58(),
+        subscription: message.result,
+      });
+
+      // Catch up on anything that landed while the socket was down
+      this.triggerPoll();
+      return;
+    }
+
+    if (message.method === "logsNotification") {
+      const value = message.params?.result?.value;
+      this.logger.debug("Fee stream notification", { signature: value?.signature });
 
-      if (confirmations >= this.confirmationDepth) {
-        return "finalized";
-      } else if (confirmations >= 16) {
-        return "confirmed";
-      } else {
-        return "processed";
+      if (!value?.err) {
+        this.triggerPoll();
       }
-    } catch {
-      return "processed";
+    }
+  }
+
+  private triggerPoll(): void {
+    this.watcher
+      .poll()
+      .then((events) => {
+        if (events.length === 0) {
+          return;
+        }
+        this.buffered.push(...events);
+        this.listeners.forEach((listener) => listener(events));
+      })
+      .catch((error) => {
+        this.logger.error("Error polling after fee stream notification", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
+
+  private handleDisconnect(): void {
+    const wasConnected = this.connected;
+    this.connected = false;
+    this.socket = null;
+    this.clearTimers();
+
+    if (!this.running) {
+      return;
+    }
+
+    const delayMs = Math.min(
+      this.reconnectMaxMs,
+      this.reconnectBaseMs * Math.pow(2, this.reconnectAttempts)
+    );
+    this.reconnectAttempts++;
+
+    this.logger.warn("Fee stream disconnected, falling back to polling", {
+      wasConnected,
+      reconnectInMs: delayMs,
+      attempt: this.reconnectAttempts,
+    });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.running) {
+        this.connect();
+      }
+    }, delayMs);
+  }
+
+  private startHeartbeat(): void {
+    // RPC nodes drop idle sockets; a ping keeps the subscription alive
+    this.heartbeatTimer = setInterval(() => {
+      if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+        this.socket.ping();
+      }
+    }, 30000);
+  }
+
+  private clearTimers(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
     }
   }
 }
 
 /**
- * API Fee Source - stub for future integration with external APIs
+ * API Fee Source - reads creator fees from an HTTP fee feed
+ *
+ * The feed is paged with an opaque cursor. Where the records and the next
+ * cursor live in the response, and which record fields hold the signature,
+ * timestamp, amount and status, is configured through FeeApiMapping.
+ * Requests are retried with exponential backoff on network errors, 429 and
+ * 5xx responses. Records that fail validation are skipped.
  */
 export class ApiFeeSource extends FeeSource {
+  private client: AxiosInstance;
+  private cursor: string | null = null;
+
+  constructor(
+    private apiConfig: FeeApiConfig,
+    private logger: Logger
+  ) {
+    super();
+
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (apiConfig.authToken) {
+      headers[apiConfig.authHeader] = apiConfig.authToken;
+    }
+
+    this.client = axios.create({
+      baseURL: apiConfig.url,
+      timeout: apiConfig.timeoutMs,
+      headers,
+    });
+  }
+
+  async detect(): Promise<FeeEvent[]> {
+    const events: FeeEvent[] = [];
+    const { mapping } = this.apiConfig;
+
+    try {
+      for (let page = 0; page < API_MAX_PAGES_PER_POLL; page++) {
+        const params: Record<string, string | number> = {
+          [mapping.limitParam]: this.apiConfig.pageSize,
+        };
+        if (this.cursor) {
+          params[mapping.cursorParam] = this.cursor;
+        }
+
+        const body = await this.fetchWithRetry(params);
+        const records = getPath(body, mapping.recordsPath);
+
+        if (!Array.isArray(records)) {
+          throw new Error(`Fee API response has no array at "${mapping.recordsPath}"`);
+        }
+
+        for (const record of records) {
+          const event = this.toFeeEvent(record);
+          if (event) {
+            events.push(event);
+          }
+        }
+
+        const nextCursor = getPath(body, mapping.nextCursorPath);
+        if (typeof nextCursor !== "string" || nextCursor === "" || nextCursor === this.cursor) {
+          break;
+        }
+
+        this.cursor = nextCursor;
+        if (records.length === 0) {
+          break;
+        }
+      }
+    } catch (error) {
+      this.logger.error("Error detecting fees from API", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (events.length > 0) {
+      this.logger.info("Fees fetched from API", { count: events.length, cursor: this.cursor });
+    }
+
+    return events;
+  }
+
+  getCursors(): Record<string, string> {
+    return this.cursor ? { [API_CURSOR]: this.cursor } : {};
+  }
+
+  restoreCursors(cursors: Record<string, string>): void {
+    if (cursors[API_CURSOR]) {
+      this.cursor = cursors[API_CURSOR];
+    }
+  }
+
+  private async fetchWithRetry(params: Record<string, string | number>): Promise<unknown> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.client.get("", { params });
+        return response.data;
+      } catch (error) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        const retryable = status === undefined || status === 429 || status >= 500;
+
+        if (!retryable || attempt >= this.apiConfig.maxRetries) {
+          throw error;
+        }
+
+        const delayMs = this.apiConfig.retryBaseMs * Math.pow(2, attempt);
+        this.logger.warn("Fee API request failed, retrying", {
+          status,
+          attempt: attempt + 1,
+          delayMs,
+        });
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  /**
+   * Validate a raw record into a FeeEvent, or return null to skip it
+   */
+  private toFeeEvent(record: unknown): FeeEvent | null {
+    const { mapping } = this.apiConfig;
+
+    const signature = getPath(record, mapping.signatureField);
+    const rawTimestamp = getPath(record, mapping.timestampField);
+    const rawAmount = getPath(record, mapping.amountField);
+    const rawStatus = getPath(record, mapping.statusField);
+
+    const reject = (reason: string): null => {
+      this.logger.warn("Skipping invalid fee API record", { reason, signature });
+      return null;
+    };
+
+    if (typeof signature !== "string" || signature.length === 0) {
+      return reject("missing signature");
+    }
+
+    let timestamp: number;
+    if (typeof rawTimestamp === "number") {
+      // Accept both seconds and milliseconds
+      timestamp = rawTimestamp > 1e12 ? Math.floor(rawTimestamp / 1000) : rawTimestamp;
+    } else if (typeof rawTimestamp === "string" && !isNaN(Date.parse(rawTimestamp))) {
+      timestamp = Math.floor(Date.parse(rawTimestamp) / 1000);
+    } else {
+      return reject("invalid timestamp");
+    }
+
+    const amount = typeof rawAmount === "string" ? Number(rawAmount) : rawAmount;
+    if (typeof amount !== "number" || !isFinite(amount) || amount <= 0) {
+      return reject("invalid amount");
+    }
+
+    let confirmationStatus: FeeConfirmationStatus = "processed";
+    if (rawStatus === "processed" || rawStatus === "confirmed" || rawStatus === "finalized") {
+      confirmationStatus = rawStatus;
+    } else if (rawStatus !== undefined) {
+      return reject("invalid confirmation status");
+    }
+
+    return {
+      signature,
+      timestamp,
+      amountLamports:
+        mapping.amountUnit === "lamports" ? BigInt(Math.round(amount)) : solToLamports(amount),
+      source: "api",
+      confirmationStatus,
+      processed: false,
+    };
+  }
+}
+
+interface FeeObservation {
+  firstSeenMs: number;
+  bySource: Map<string, FeeEvent>;
+  creditedLamports: bigint | null;
+  reportedMismatch: boolean;
+}
+
+const CONFIRMATION_RANK: Record<FeeConfirmationStatus, number> = {
+  processed: 0,
+  confirmed: 1,
+  finalized: 2,
+};
+
+/**
+ * Composite Fee Source - cross-checks several fee sources
+ *
+ * Runs every child source on each detect() and groups their events by
+ * signature. An event is only emitted once `quorum` sources report amounts
+ * within `toleranceBps` of each other; it is credited at the lowest agreeing
+ * amount and the weakest agreeing confirmation status, so a single flaky
+ * source can neither create nor inflate a fee. Disagreements and signatures
+ * that never reach quorum within `windowMs` go into the reconciliation log.
+ *
+ * Observations waiting for quorum live only in memory, so a child's cursor
+ * is held back while it has any: after a restart the child fetches them again.
+ */
+export class CompositeFeeSource extends FeeSource {
+  private observations = new Map<string, FeeObservation>();
+  private reconciliationLog: FeeReconciliationEntry[] = [];
+  private committedCursors: Record<string, string>[];
+
   constructor(
-    private apiUrl: string,
+    private sources: Array<{ name: string; source: FeeSource }>,
+    private quorum: number,
+    private toleranceBps: number,
+    private windowMs: number,
     private logger: Logger
   ) {
     super();
+    this.committedCursors = sources.map(({ source }) => source.getCursors());
   }
 
   async detect(): Promise<FeeEvent[]> {
-    this.logger.debug("ApiFeeSource not yet implemented");
-    // TODO: Implement API integration
-    return [];
+    const now = Date.now();
+    const results = await Promise.allSettled(this.sources.map(({ source }) => source.detect()));
+
+    results.forEach((result, idx) => {
+      const name = this.sources[idx].name;
+
+      if (result.status === "rejected") {
+        this.logger.warn("Composite child source failed", {
+          source: name,
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+        });
+        return;
+      }
+
+      for (const event of result.value) {
+        let observation = this.observations.get(event.signature);
+        if (!observation) {
+          observation = {
+            firstSeenMs: now,
+            bySource: new Map(),
+            creditedLamports: null,
+            reportedMismatch: false,
+          };
+          this.observations.set(event.signature, observation);
+        }
+        observation.bySource.set(name, event);
+      }
+    });
+
+    const credited: FeeEvent[] = [];
+
+    for (const [signature, observation] of this.observations) {
+      const event = this.evaluate(signature, observation);
+      if (event) {
+        credited.push(event);
+      }
+
+      if (now - observation.firstSeenMs >= this.windowMs) {
+        if (observation.creditedLamports === null) {
+          this.logReconciliation(signature, observation, "no-quorum", now);
+        }
+        this.observations.delete(signature);
+      }
+    }
+
+    this.sources.forEach(({ name, source }, idx) => {
+      const pending = Array.from(this.observations.values()).some(
+        (observation) => observation.creditedLamports === null && observation.bySource.has(name)
+      );
+      if (!pending) {
+        this.committedCursors[idx] = source.getCursors();
+      }
+    });
+
+    return credited;
+  }
+
+  /**
+   * Drain the reconciliation entries recorded since the last call
+   */
+  takeReconciliationLog(): FeeReconciliationEntry[] {
+    const entries = this.reconciliationLog;
+    this.reconciliationLog = [];
+    return entries;
+  }
+
+  start(): void {
+    this.sources.forEach(({ source }) => source.start());
+  }
+
+  stop(): void {
+    this.sources.forEach(({ source }) => source.stop());
+  }
+
+  /**
+   * Each child's cursor as of its last poll that left nothing waiting for quorum
+   */
+  getCursors(): Record<string, string> {
+    return this.committedCursors.reduce<Record<string, string>>(
+      (cursors, committed) => ({ ...cursors, ...committed }),
+      {}
+    );
+  }
+
+  restoreCursors(cursors: Record<string, string>): void {
+    this.sources.forEach(({ source }) => source.restoreCursors(cursors));
+    this.committedCursors = this.sources.map(({ source }) => source.getCursors());
+  }
+
+  /**
+   * Return the merged event the first time quorum is reached
+   */
+  private evaluate(signature: string, observation: FeeObservation): FeeEvent | null {
+    const events = Array.from(observation.bySource.values());
+    const agreeing = this.largestAgreeingGroup(events);
+    const hasMismatch = agreeing.length < events.length;
+
+    if (hasMismatch && !observation.reportedMismatch) {
+      observation.reportedMismatch = true;
+      this.logReconciliation(signature, observation, "amount-mismatch", Date.now());
+    }
+
+    if (observation.creditedLamports !== null || agreeing.length < this.quorum) {
+      return null;
+    }
+
+    const amountLamports = agreeing.reduce(
+      (min, event) => (event.amountLamports < min ? event.amountLamports : min),
+      agreeing[0].amountLamports
+    );
+    const weakest = agreeing.reduce((acc, event) =>
+      CONFIRMATION_RANK[event.confirmationStatus] < CONFIRMATION_RANK[acc.confirmationStatus]
+        ? event
+        : acc
+    );
+
+    observation.creditedLamports = amountLamports;
+
+    // Only sources that read the transaction, like the wallet watcher, know
+    // its sender and programs; the classifier needs both
+    const sender = agreeing.find((event) => event.sender !== undefined)?.sender;
+    const programIds = agreeing.find((event) => event.programIds !== undefined)?.programIds;
+
+    return {
+      signature,
+      timestamp: Math.min(...agreeing.map((event) => event.timestamp)),
+      amountLamports,
+      source: "composite",
+      confirmationStatus: weakest.confirmationStatus,
+      processed: false,
+      ...(sender !== undefined ? { sender } : {}),
+      ...(programIds !== undefined ? { programIds } : {}),
+    };
+  }
+
+  private largestAgreeingGroup(events: FeeEvent[]): FeeEvent[] {
+    let best: FeeEvent[] = [];
+
+    for (const reference of events) {
+      const group = events.filter((event) => {
+        const [smaller, larger] =
+          event.amountLamports < reference.amountLamports
+            ? [event.amountLamports, reference.amountLamports]
+            : [reference.amountLamports, event.amountLamports];
+        if (larger === 0n) {
+          return true;
+        }
+        const diffBps = (Number(larger - smaller) / Number(larger)) * 10000;
+        return diffBps <= this.toleranceBps;
+      });
+      if (group.length > best.length) {
+        best = group;
+      }
+    }
+
+    return best;
+  }
+
+  private logReconciliation(
+    signature: string,
+    observation: FeeObservation,
+    reason: FeeReconciliationEntry["reason"],
+    now: number
+  ): void {
+    const amountsBySource: Record<string, number> = {};
+    observation.bySource.forEach((event, name) => {
+      amountsBySource[name] = lamportsToSol(event.amountLamports);
+    });
+
+    const entry: FeeReconciliationEntry = {
+      signature,
+      reason,
+      amountsBySource,
+      creditedAmountSol:
+        observation.creditedLamports === null ? null : lamportsToSol(observation.creditedLamports),
+      timestamp: Math.floor(now / 1000),
+    };
+
+    this.reconciliationLog.push(entry);
+    this.logger.warn("Fee reconciliation issue", { ...entry });
   }
 }
 
@@ -238,28 +1208,52 @@ export class ApiFeeSource extends FeeSource {
  * Factory to create appropriate fee source
  */
 export function createFeeSource(
-  sourceType: "wallet-watcher" | "api" | "mock",
-  connection: any,
-  feeWallet: any,
-  logger: Logger,
-  pollIntervalMs: number = 30000
+  config: ProtocolConfig,
+  connection: Connection,
+  logger: Logger
 ): FeeSource {
-  switch (sourceType) {
+  switch (config.feeSource) {
     case "wallet-watcher":
-      return new WalletWatcherFeeSource(
-        connection,
-        feeWallet,
+      return createWalletWatcher(config, connection, logger);
+    case "stream":
+      return new StreamingFeeSource(
+        config.solanaWsUrl,
+        config.iceCreatorFeeWallet,
+        createWalletWatcher(config, connection, logger),
         logger,
-        pollIntervalMs
+        config.feeStreamReconnectBaseMs,
+        config.feeStreamReconnectMaxMs
       );
     case "api":
-      return new ApiFeeSource(
-        process.env.FEE_API_URL || "https://api.example.com",
+      return new ApiFeeSource(config.feeApi, logger);
+    case "mock":
+      return new MockFeeSource(logger, config.feeMock);
+    case "composite":
+      return new CompositeFeeSource(
+        config.feeComposite.sources.map((name) => ({
+          name,
+          source: createFeeSource({ ...config, feeSource: name }, connection, logger),
+        })),
+        config.feeComposite.quorum,
+        config.feeComposite.toleranceBps,
+        config.feeComposite.windowMs,
         logger
       );
-    case "mock":
-      return new MockFeeSource(logger);
     default:
-      throw new Error(`Unknown fee source: ${sourceType}`);
+      throw new Error(`Unknown fee source: ${config.feeSource}`);
   }
 }
+
+function createWalletWatcher(
+  config: ProtocolConfig,
+  connection: Connection,
+  logger: Logger
+): WalletWatcherFeeSource {
+  return new WalletWatcherFeeSource(
+    connection,
+    config.iceCreatorFeeWallet,
+    logger,
+    config.feePollIntervalMs,
+    config.feeConfirmationDepth
+  );
+}
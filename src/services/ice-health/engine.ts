@@ -1,4 +1,13 @@
-import { IceHealthState, IceHealthMetrics, ProtocolConfig, Logger } from "../types";
+import {
+  IceHealthState,
+  IceHealthMetrics,
+  LPPoolReserves,
+  OraclePrice,
+  ProtocolConfig,
+  Logger,
+} from "../../types";
+import { fromBaseUnits } from "../dex/math";
+import { lamportsToSol } from "../../utils/amounts";
 
 /**
  * Ice Cube Health Engine
@@ -39,6 +48,23 @@ export interface HealthMetricsInput {
   currentTimestampSeconds: number;
 }
 
+/**
+ * Value a pool's reserves in SOL. The $ice side is valued at the oracle
+ * price when one is usable; otherwise the pool is assumed balanced and
+ * counted as twice its SOL side.
+ */
+export function poolLiquiditySol(
+  reserves: LPPoolReserves,
+  price: OraclePrice | null,
+  tokenDecimals: number
+): number {
+  const solSide = lamportsToSol(reserves.solReserve);
+  if (!price || price.stale) {
+    return solSide * 2;
+  }
+  return solSide + fromBaseUnits(reserves.tokenReserve, tokenDecimals) * price.priceSol;
+}
+
 export class IceHealthEngine {
   constructor(
     private config: ProtocolConfig,
@@ -78,8 +104,6 @@ export class IceHealthEngine {
    * Compute individual health metrics
    */
   private computeMetrics(input: HealthMetricsInput): IceHealthMetrics {
-    const weights = this.config.iceHealthWeights;
-
     // 1. BUYBACK FREQUENCY METRIC
     // Higher frequency = higher score
     // Score based on number of buybacks in last 24h
@@ -176,7 +200,7 @@ export class IceHealthEngine {
    * Returns null if already below threshold
    * Based on current time decay rate
    */
-  estimateTimeToThreshold(state: IceHealthState, currentTimestamp: number): number | null {
+  estimateTimeToThreshold(state: IceHealthState, _currentTimestamp: number): number | null {
     if (state.status === "MELTING" || state.status === "DEAD") {
       return 0;
     }
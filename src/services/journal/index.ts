@@ -0,0 +1,247 @@
+import * as path from "path";
+import { AllocationAction, AllocationBreakdown, Logger } from "../../types";
+import { readJsonFile, writeJsonFileAtomic } from "../../utils/persistence";
+import { TransactionSubmission } from "../transactions";
+
+/**
+ * An action as journaled: its intent, the transactions sent for it, and
+ * once it returned, what it spent
+ */
+export interface JournaledAction {
+  type: AllocationAction["type"];
+  amountLamports: bigint;
+  submissions: TransactionSubmission[];
+  outcome?: {
+    status: AllocationAction["status"];
+    spentLamports: bigint;
+    error?: string;
+  };
+}
+
+/**
+ * An epoch from the moment its allocation is decided until its treasury
+ * settlement and fee consumption are written
+ */
+export interface JournaledEpoch {
+  epochNumber: number;
+  startedAt: number;
+  treasuryStatements: number; // statements in the treasury when the epoch opened
+  feesToProcess: bigint;
+  feeEvents: string[]; // signatures of the fee events the epoch consumes
+  inflow: AllocationBreakdown<bigint>;
+  planned: AllocationBreakdown<bigint>;
+  actions: JournaledAction[];
+}
+
+type StoredBreakdown = AllocationBreakdown<string>;
+
+interface StoredAction {
+  type: AllocationAction["type"];
+  amountLamports: string;
+  submissions: TransactionSubmission[];
+  outcome?: {
+    status: AllocationAction["status"];
+    spentLamports: string;
+    error?: string;
+  };
+}
+
+interface StoredEpoch {
+  epochNumber: number;
+  startedAt: number;
+  treasuryStatements: number;
+  feesToProcess: string;
+  feeEvents: string[];
+  inflow: StoredBreakdown;
+  planned: StoredBreakdown;
+  actions: StoredAction[];
+}
+
+interface JournalFile {
+  version: 1;
+  open: StoredEpoch | null;
+}
+
+/**
+ * Action Journal
+ *
+ * Write-ahead log of the epoch in progress. The intent of each action is
+ * written before it runs, every transaction it sends is written before the
+ * transaction goes out, and its outcome is written when it returns. The
+ * epoch is closed once its spend is settled, so an epoch still open on
+ * startup was interrupted and the journal says what it may have spent.
+ */
+export class ActionJournal {
+  private open: StoredEpoch | null = null;
+
+  constructor(
+    private filePath: string,
+    private logger: Logger
+  ) {
+    this.load();
+  }
+
+  /**
+   * The epoch left open by an interrupted run, if any
+   */
+  getOpenEpoch(): JournaledEpoch | null {
+    return this.open ? fromStoredEpoch(this.open) : null;
+  }
+
+  /**
+   * Open an epoch. Only one epoch can be open; an interrupted one must be
+   * recovered and closed first.
+   */
+  openEpoch(epoch: Omit<JournaledEpoch, "actions">): void {
+    if (this.open) {
+      throw new Error(`Epoch ${this.open.epochNumber} is still open in the action journal`);
+    }
+
+    this.open = toStoredEpoch(epoch);
+    this.save();
+  }
+
+  /**
+   * Record the intent to run an action, before it runs
+   */
+  recordIntent(type: AllocationAction["type"], amountLamports: bigint): void {
+    const epoch = this.requireOpen();
+    epoch.actions.push({ type, amountLamports: amountLamports.toString(), submissions: [] });
+    this.save();
+  }
+
+  /**
+   * Record a transaction sent for the action in progress. Transactions sent
+   * outside an action are not journaled.
+   */
+  recordSubmission(submission: TransactionSubmission): void {
+    const action = this.inProgress();
+    if (!action) {
+      this.logger.debug("Transaction sent outside a journaled action", {
+        signature: submission.signature,
+      });
+      return;
+    }
+
+    action.submissions.push({ ...submission });
+    this.save();
+  }
+
+  /**
+   * Record how the action in progress ended and what it spent
+   */
+  recordOutcome(action: AllocationAction, spentLamports: bigint): void {
+    const entry = this.inProgress();
+    if (!entry || entry.type !== action.type) {
+      throw new Error(`No ${action.type} action in progress in the action journal`);
+    }
+
+    entry.outcome = {
+      status: action.status,
+      spentLamports: spentLamports.toString(),
+      ...(action.error !== undefined ? { error: action.error } : {}),
+    };
+    this.save();
+  }
+
+  /**
+   * Close the open epoch once its spend is settled
+   */
+  closeEpoch(): void {
+    const epoch = this.requireOpen();
+    this.open = null;
+    this.save();
+
+    this.logger.debug("Epoch closed in action journal", { epoch: epoch.epochNumber });
+  }
+
+  private requireOpen(): StoredEpoch {
+    if (!this.open) {
+      throw new Error("No epoch is open in the action journal");
+    }
+    return this.open;
+  }
+
+  private inProgress(): StoredAction | null {
+    const last = this.open?.actions[this.open.actions.length - 1];
+    return last && !last.outcome ? last : null;
+  }
+
+  private load(): void {
+    const data = readJsonFile<JournalFile>(this.filePath);
+
+    if (!data) {
+      this.logger.info("Starting new action journal", { path: this.filePath });
+      return;
+    }
+
+    this.open = data.open;
+    if (this.open) {
+      this.logger.warn("Action journal has an incomplete epoch", {
+        path: this.filePath,
+        epoch: this.open.epochNumber,
+        actions: this.open.actions.length,
+      });
+    }
+  }
+
+  private save(): void {
+    const data: JournalFile = { version: 1, open: this.open };
+    writeJsonFileAtomic(this.filePath, data);
+  }
+}
+
+/**
+ * Resolve the journal file inside the protocol data directory
+ */
+export function createActionJournal(dataDir: string, logger: Logger): ActionJournal {
+  return new ActionJournal(path.resolve(dataDir, "action-journal.json"), logger);
+}
+
+function toStoredBreakdown(breakdown: AllocationBreakdown<bigint>): StoredBreakdown {
+  return {
+    buyback: breakdown.buyback.toString(),
+    lp: breakdown.lp.toString(),
+    burn: breakdown.burn.toString(),
+    cooling: breakdown.cooling.toString(),
+  };
+}
+
+function fromStoredBreakdown(stored: StoredBreakdown): AllocationBreakdown<bigint> {
+  return {
+    buyback: BigInt(stored.buyback),
+    lp: BigInt(stored.lp),
+    burn: BigInt(stored.burn),
+    cooling: BigInt(stored.cooling),
+  };
+}
+
+function toStoredEpoch(epoch: Omit<JournaledEpoch, "actions">): StoredEpoch {
+  return {
+    ...epoch,
+    feesToProcess: epoch.feesToProcess.toString(),
+    feeEvents: [...epoch.feeEvents],
+    inflow: toStoredBreakdown(epoch.inflow),
+    planned: toStoredBreakdown(epoch.planned),
+    actions: [],
+  };
+}
+
+function fromStoredEpoch(stored: StoredEpoch): JournaledEpoch {
+  return {
+    ...stored,
+    feesToProcess: BigInt(stored.feesToProcess),
+    feeEvents: [...stored.feeEvents],
+    inflow: fromStoredBreakdown(stored.inflow),
+    planned: fromStoredBreakdown(stored.planned),
+    actions: stored.actions.map((action) => ({
+      ...action,
+      amountLamports: BigInt(action.amountLamports),
+      submissions: action.submissions.map((submission) => ({ ...submission })),
+      outcome: action.outcome && {
+        ...action.outcome,
+        spentLamports: BigInt(action.outcome.spentLamports),
+      },
+    })),
+  };
+}
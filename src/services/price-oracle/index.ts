@@ -0,0 +1,299 @@
+import axios, { AxiosInstance } from "axios";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { unpackMint } from "@solana/spl-token";
+import { Logger, OraclePrice, PriceOracleConfig, ProtocolConfig } from "../../types";
+import { BPS_DENOMINATOR, fromBaseUnits } from "../dex/math";
+import { LPManager } from "../dex/engines";
+import { getPath } from "../../utils/json-path";
+import { lamportsToSol } from "../../utils/amounts";
+
+// Trade size, in SOL, whose price move is reported as a pool price's confidence
+const CONFIDENCE_REFERENCE_SOL = 1;
+
+// Feed timestamps above this are taken to be in milliseconds
+const MILLISECOND_TIMESTAMP_THRESHOLD = 1e12;
+
+/**
+ * A price as read from its source, before staleness is judged
+ */
+interface PriceReading {
+  priceSol: number;
+  confidenceBps: number;
+  publishedAt: number;
+}
+
+/**
+ * Price Oracle Interface
+ *
+ * Prices are SOL per whole $ice. Every price carries its age and a
+ * confidence; `getUsablePrice` refuses prices that are too old or too
+ * uncertain to convert amounts with.
+ */
+export abstract class PriceOracle {
+  abstract readonly name: string;
+
+  constructor(
+    protected oracleConfig: PriceOracleConfig,
+    readonly tokenDecimals: number
+  ) {}
+
+  protected abstract read(): Promise<PriceReading>;
+
+  /**
+   * Latest price, flagged stale when older than the configured maximum
+   */
+  async getPrice(): Promise<OraclePrice> {
+    const reading = await this.read();
+    if (!Number.isFinite(reading.priceSol) || reading.priceSol <= 0) {
+      throw new Error(`${this.name} returned an invalid price: ${reading.priceSol}`);
+    }
+
+    const ageSeconds = Math.max(0, Math.floor(Date.now() / 1000) - reading.publishedAt);
+    return {
+      ...reading,
+      ageSeconds,
+      stale: ageSeconds > this.oracleConfig.maxStalenessSeconds,
+      source: this.name,
+    };
+  }
+
+  /**
+   * Latest price, failing if it is stale or its confidence is too wide
+   */
+  async getUsablePrice(): Promise<OraclePrice> {
+    const price = await this.getPrice();
+    if (price.stale) {
+      throw new Error(
+        `Price from ${price.source} is stale: ${price.ageSeconds}s old (max ${this.oracleConfig.maxStalenessSeconds}s)`
+      );
+    }
+    if (price.confidenceBps > this.oracleConfig.maxConfidenceBps) {
+      throw new Error(
+        `Price from ${price.source} is too uncertain: ±${price.confidenceBps}bps (max ${this.oracleConfig.maxConfidenceBps}bps)`
+      );
+    }
+    return price;
+  }
+}
+
+/**
+ * Pool Reserve Price Oracle
+ *
+ * Spot price from the reserves of the pool the LP manager provisions. It is
+ * always current; its confidence is how far a 1 SOL trade would move it, so
+ * a thin pool reports a wide price.
+ */
+export class PoolReservePriceOracle extends PriceOracle {
+  readonly name = "pool";
+
+  constructor(
+    private lpManager: LPManager,
+    private tokenMint: PublicKey,
+    oracleConfig: PriceOracleConfig,
+    tokenDecimals: number
+  ) {
+    super(oracleConfig, tokenDecimals);
+  }
+
+  protected async read(): Promise<PriceReading> {
+    const reserves = await this.lpManager.getReserves(this.tokenMint);
+    const solReserve = lamportsToSol(reserves.solReserve);
+    const tokenReserve = fromBaseUnits(reserves.tokenReserve, this.tokenDecimals);
+
+    // A buy of x SOL into a constant-product pool moves its price by (1 + x/R)^2
+    const move = (1 + CONFIDENCE_REFERENCE_SOL / solReserve) ** 2 - 1;
+    return {
+      priceSol: solReserve / tokenReserve,
+      confidenceBps: Math.round(move * BPS_DENOMINATOR),
+      publishedAt: Math.floor(Date.now() / 1000),
+    };
+  }
+}
+
+/**
+ * TWAP Price Oracle
+ *
+ * Time-weighted average of another oracle over a trailing window. Each read
+ * samples the inner oracle; every sample holds until the next one, and the
+ * latest holds until now. Stale or repeated samples are skipped, and if the
+ * inner oracle fails the average is taken over the samples already held.
+ * Confidence is the widest of the samples' own confidence and their spread
+ * around the average.
+ */
+export class TwapPriceOracle extends PriceOracle {
+  readonly name: string;
+  private samples: PriceReading[] = [];
+
+  constructor(
+    private inner: PriceOracle,
+    oracleConfig: PriceOracleConfig,
+    private logger: Logger
+  ) {
+    super(oracleConfig, inner.tokenDecimals);
+    this.name = `twap:${inner.name}`;
+  }
+
+  protected async read(): Promise<PriceReading> {
+    await this.sample();
+
+    const now = Math.floor(Date.now() / 1000);
+    const windowStart = now - this.oracleConfig.twapWindowSeconds;
+    this.samples = this.samples.filter((sample) => sample.publishedAt >= windowStart);
+    if (this.samples.length === 0) {
+      throw new Error(`No ${this.inner.name} price samples in the TWAP window`);
+    }
+
+    const weights = this.samples.map((sample, i) => {
+      const until = i + 1 < this.samples.length ? this.samples[i + 1].publishedAt : now;
+      return until - sample.publishedAt;
+    });
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    // Samples all taken this second carry equal weight
+    const weightOf = (i: number): number =>
+      totalWeight > 0 ? weights[i] / totalWeight : 1 / weights.length;
+    const priceSol = this.samples.reduce(
+      (sum, sample, i) => sum + sample.priceSol * weightOf(i),
+      0
+    );
+
+    const confidenceBps = Math.max(
+      ...this.samples.map((sample) =>
+        Math.max(
+          sample.confidenceBps,
+          Math.round((Math.abs(sample.priceSol - priceSol) / priceSol) * BPS_DENOMINATOR)
+        )
+      )
+    );
+
+    return {
+      priceSol,
+      confidenceBps,
+      publishedAt: this.samples[this.samples.length - 1].publishedAt,
+    };
+  }
+
+  private async sample(): Promise<void> {
+    try {
+      const price = await this.inner.getPrice();
+      const last = this.samples[this.samples.length - 1];
+      if (price.stale || (last && price.publishedAt <= last.publishedAt)) {
+        return;
+      }
+      this.samples.push({
+        priceSol: price.priceSol,
+        confidenceBps: price.confidenceBps,
+        publishedAt: price.publishedAt,
+      });
+    } catch (error) {
+      this.logger.warn("TWAP could not sample its price source", {
+        source: this.inner.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * External Price Oracle
+ *
+ * Reads an HTTP price feed. The price, publish time and optional absolute
+ * confidence are taken from configured paths into the JSON response.
+ */
+export class ExternalPriceOracle extends PriceOracle {
+  readonly name = "external";
+  private client: AxiosInstance;
+
+  constructor(oracleConfig: PriceOracleConfig, tokenDecimals: number) {
+    super(oracleConfig, tokenDecimals);
+
+    this.client = axios.create({
+      timeout: oracleConfig.feed.timeoutMs,
+      headers: { Accept: "application/json" },
+    });
+  }
+
+  protected async read(): Promise<PriceReading> {
+    const { feed } = this.oracleConfig;
+    const body = await this.fetchFeed(feed.url);
+
+    const priceSol = Number(getPath(body, feed.pricePath));
+    if (!Number.isFinite(priceSol) || priceSol <= 0) {
+      throw new Error(`Price feed response has no price at "${feed.pricePath}"`);
+    }
+    const rawTimestamp = Number(getPath(body, feed.timestampPath));
+    if (!Number.isFinite(rawTimestamp) || rawTimestamp <= 0) {
+      throw new Error(`Price feed response has no timestamp at "${feed.timestampPath}"`);
+    }
+    const publishedAt = Math.floor(
+      rawTimestamp > MILLISECOND_TIMESTAMP_THRESHOLD ? rawTimestamp / 1000 : rawTimestamp
+    );
+
+    let confidenceBps = 0;
+    if (feed.confidencePath) {
+      const confidence = Number(getPath(body, feed.confidencePath));
+      if (!Number.isFinite(confidence) || confidence < 0) {
+        throw new Error(`Price feed response has no confidence at "${feed.confidencePath}"`);
+      }
+      confidenceBps = Math.round((confidence / priceSol) * BPS_DENOMINATOR);
+    }
+
+    return { priceSol, confidenceBps, publishedAt };
+  }
+
+  private async fetchFeed(url: string): Promise<unknown> {
+    try {
+      const response = await this.client.get(url);
+      return response.data;
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      const reason =
+        status !== undefined
+          ? `HTTP ${status}`
+          : error instanceof Error
+            ? error.message
+            : String(error);
+      throw new Error(`Price feed request failed: ${reason}`);
+    }
+  }
+}
+
+/**
+ * Read a mint's decimals, for SPL Token and Token-2022 mints alike
+ */
+export async function fetchTokenDecimals(connection: Connection, mint: PublicKey): Promise<number> {
+  const account = await connection.getAccountInfo(mint);
+  if (!account) {
+    throw new Error(`Mint ${mint.toBase58()} not found`);
+  }
+  return unpackMint(mint, account, account.owner).decimals;
+}
+
+/**
+ * Factory to create the configured price oracle
+ */
+export function createPriceOracle(
+  config: ProtocolConfig,
+  lpManager: LPManager,
+  tokenDecimals: number,
+  logger: Logger
+): PriceOracle {
+  const oracleConfig = config.priceOracle;
+  const pool = (): PriceOracle =>
+    new PoolReservePriceOracle(lpManager, config.iceTokenMint, oracleConfig, tokenDecimals);
+  const external = (): PriceOracle => new ExternalPriceOracle(oracleConfig, tokenDecimals);
+
+  switch (oracleConfig.type) {
+    case "pool":
+      return pool();
+    case "external":
+      return external();
+    case "twap":
+      return new TwapPriceOracle(
+        oracleConfig.twapSource === "external" ? external() : pool(),
+        oracleConfig,
+        logger
+      );
+    default:
+      throw new Error(`Price oracle not implemented for ${oracleConfig.type}`);
+  }
+}
@@ -1,6 +1,80 @@
 import * as fs from "fs";
 import * as path from "path";
-import { EpochReport, IceHealthState, Logger } from "../../types";
+import {
+  AllocationAction,
+  AllocationBreakdown,
+  EpochReport,
+  FeeBreakdown,
+  IceHealthState,
+  Logger,
+  ReportedAction,
+  TreasuryStatement,
+} from "../../types";
+import { lamportsToSol } from "../../utils/amounts";
+
+/**
+ * Convert an action's lamport amounts to SOL for a report
+ */
+export function toReportedAction(action: AllocationAction): ReportedAction {
+  const { amountLamports, swapInputLamports, fills, transfers, ...rest } = action;
+  return {
+    ...rest,
+    amountSol: lamportsToSol(amountLamports),
+    ...(swapInputLamports !== undefined && { swapInputSol: lamportsToSol(swapInputLamports) }),
+    ...(fills && {
+      fills: fills.map(({ inputLamports, ...fill }) => ({
+        ...fill,
+        inputAmount: lamportsToSol(inputLamports),
+      })),
+    }),
+    ...(transfers && {
+      transfers: transfers.map(({ lamports, ...transfer }) => ({
+        ...transfer,
+        amountSol: lamportsToSol(lamports),
+      })),
+    }),
+  };
+}
+
+/**
+ * Convert epoch allocations from lamports to SOL
+ */
+export function toReportedAllocations(
+  allocations: AllocationBreakdown<bigint>
+): AllocationBreakdown<number> {
+  return {
+    buyback: lamportsToSol(allocations.buyback),
+    lp: lamportsToSol(allocations.lp),
+    burn: lamportsToSol(allocations.burn),
+    cooling: lamportsToSol(allocations.cooling),
+  };
+}
+
+/**
+ * Convert a treasury statement from lamports to SOL
+ */
+export function toReportedTreasury(
+  statement: TreasuryStatement<bigint>
+): TreasuryStatement<number> {
+  return {
+    opening: toReportedAllocations(statement.opening),
+    inflow: toReportedAllocations(statement.inflow),
+    spent: toReportedAllocations(statement.spent),
+    closing: toReportedAllocations(statement.closing),
+  };
+}
+
+/**
+ * Convert a fee breakdown from lamports to SOL
+ */
+export function toReportedBreakdown(breakdown: FeeBreakdown): EpochReport["feeBreakdown"] {
+  const reported = {} as EpochReport["feeBreakdown"];
+  (Object.keys(breakdown) as (keyof FeeBreakdown)[]).forEach((category) => {
+    const { count, amountLamports } = breakdown[category];
+    reported[category] = { count, amountSol: lamportsToSol(amountLamports) };
+  });
+  return reported;
+}
 
 /**
  * Report Generator
@@ -67,6 +141,14 @@ export class ReportGenerator {
     lines.push("FEE SUMMARY");
     lines.push("-".repeat(40));
     lines.push(`Total Fees Detected (SOL): ${report.feesDetected.toFixed(4)}`);
+    lines.push(`Pending Fees (SOL):        ${(report.feesPending ?? 0).toFixed(4)}`);
+    if (report.feeBreakdown) {
+      lines.push("Inflows by category:");
+      Object.entries(report.feeBreakdown).forEach(([category, totals]) => {
+        const count = String(totals.count).padStart(4);
+        lines.push(`  ${category.padEnd(18)} ${count} tx  ${totals.amountSol.toFixed(4)} SOL`);
+      });
+    }
     lines.push("");
 
     // Allocations
@@ -78,6 +160,36 @@ export class ReportGenerator {
     lines.push(`Cooling (SOL):  ${report.allocations.cooling.toFixed(4)}`);
     lines.push("");
 
+    // Treasury
+    if (report.treasury) {
+      const treasury = report.treasury;
+      lines.push("TREASURY (SOL)");
+      lines.push("-".repeat(40));
+      lines.push(
+        `${"".padEnd(10)}${["Opening", "Inflow", "Spent", "Closing"].map((h) => h.padStart(12)).join("")}`
+      );
+      (["buyback", "lp", "burn", "cooling"] as const).forEach((category) => {
+        const row = [treasury.opening, treasury.inflow, treasury.spent, treasury.closing]
+          .map((column) => column[category].toFixed(4).padStart(12))
+          .join("");
+        lines.push(`${category.padEnd(10)}${row}`);
+      });
+      lines.push("");
+    }
+
+    // Price
+    lines.push("PRICE");
+    lines.push("-".repeat(40));
+    if (report.price) {
+      const price = report.price;
+      lines.push(`$ice Price (SOL): ${price.priceSol} ±${price.confidenceBps}bps`);
+      lines.push(`Source: ${price.source}`);
+      lines.push(`Age: ${price.ageSeconds}s${price.stale ? " (stale)" : ""}`);
+    } else {
+      lines.push("Price unavailable.");
+    }
+    lines.push("");
+
     // Ice Health
     lines.push("ICE CUBE HEALTH");
     lines.push("-".repeat(40));
@@ -114,9 +226,53 @@ export class ReportGenerator {
         lines.push(`  Type: ${action.type}`);
         lines.push(`  Amount: ${action.amountSol.toFixed(4)} SOL`);
         lines.push(`  Status: ${action.status}`);
+        if (action.swapSignature) {
+          lines.push(`  Swap Signature: ${action.swapSignature}`);
+        }
         if (action.signature) {
           lines.push(`  Signature: ${action.signature}`);
         }
+        if (action.outputAmount !== undefined) {
+          lines.push(`  Received: ${action.outputAmount} $ice`);
+        }
+        if (action.execution) {
+          const quality = action.execution;
+          lines.push(
+            `  Execution: quoted ${quality.quotedOutputAmount}, slippage ${quality.realizedSlippageBps}bps, impact ${quality.quotedPriceImpactBps}bps quoted / ${quality.realizedPriceImpactBps}bps realized, max drift ${quality.maxQuoteDriftBps}bps`
+          );
+        }
+        action.fills?.forEach((fill, i) => {
+          lines.push(
+            `  Slice ${i + 1}: ${fill.inputAmount.toFixed(4)} SOL -> ${fill.outputAmount} (${fill.priceImpactBps}bps) ${fill.signature}`
+          );
+        });
+        if (action.tokenAmount !== undefined) {
+          lines.push(`  Burned: ${action.tokenAmount} $ice`);
+        }
+        if (action.supplyBefore !== undefined) {
+          lines.push(`  Supply: ${action.supplyBefore} -> ${action.supplyAfter ?? "unknown"} $ice`);
+        }
+        if (action.price) {
+          lines.push(`  Oracle Price: ${action.price.priceSol} SOL/$ice (${action.price.source})`);
+        }
+        action.transfers?.forEach((transfer) => {
+          lines.push(
+            `  Paid: ${transfer.amountSol.toFixed(4)} SOL -> ${transfer.recipient} ${transfer.signature}`
+          );
+        });
+        if (action.lpTokenAmount !== undefined) {
+          lines.push(`  LP Tokens: ${action.lpTokenAmount}`);
+        }
+        if (action.route) {
+          lines.push(`  Route: ${action.route}`);
+        }
+        action.rejectedRoutes?.forEach((alt) => {
+          lines.push(
+            alt.error
+              ? `  Rejected: ${alt.routePath} (${alt.error})`
+              : `  Rejected: ${alt.routePath} -> ${alt.outputAmount} (${alt.priceImpactBps}bps impact)`
+          );
+        });
         if (action.error) {
           lines.push(`  Error: ${action.error}`);
         }
@@ -124,6 +280,23 @@ export class ReportGenerator {
       });
     }
 
+    // Fee reconciliation
+    if (report.feeReconciliation && report.feeReconciliation.length > 0) {
+      lines.push("FEE RECONCILIATION");
+      lines.push("-".repeat(40));
+      report.feeReconciliation.forEach((entry, idx) => {
+        const amounts = Object.entries(entry.amountsBySource)
+          .map(([source, amount]) => `${source}=${amount.toFixed(4)}`)
+          .join(", ");
+        const credited =
+          entry.creditedAmountSol === null
+            ? "not credited"
+            : `credited ${entry.creditedAmountSol.toFixed(4)}`;
+        lines.push(`${idx + 1}. ${entry.signature} ${entry.reason} (${amounts}; ${credited})`);
+      });
+      lines.push("");
+    }
+
     // Transactions
     lines.push("TRANSACTION SIGNATURES");
     lines.push("-".repeat(40));
@@ -0,0 +1,104 @@
+import * as path from "path";
+import { ExecutorState, Logger } from "../../types";
+import { readJsonFile, writeJsonFileAtomic } from "../../utils/persistence";
+
+interface StateFile {
+  version: 1;
+  savedAt: number;
+  executor: ExecutorState;
+  protocolEpoch: number; // last epoch started by the protocol loop
+}
+
+/**
+ * State Store
+ *
+ * Snapshot of the executor state and the protocol's epoch counter, written
+ * atomically on every change so a restart resumes where the last run left
+ * off. In particular a tripped circuit breaker survives restarts; only
+ * `resetCircuitBreaker` clears it.
+ */
+export class StateStore {
+  private executor: ExecutorState = {
+    lastExecutionTime: 0,
+    consecutiveFailures: 0,
+    epochNumber: 0,
+    circuitBreakerActive: false,
+  };
+  private protocolEpoch = 0;
+
+  constructor(
+    private filePath: string,
+    private logger: Logger
+  ) {
+    this.load();
+  }
+
+  getExecutorState(): ExecutorState {
+    return { ...this.executor };
+  }
+
+  getProtocolEpoch(): number {
+    return this.protocolEpoch;
+  }
+
+  saveExecutorState(state: ExecutorState): void {
+    this.executor = { ...state };
+    this.save();
+  }
+
+  saveProtocolEpoch(epochNumber: number): void {
+    this.protocolEpoch = epochNumber;
+    this.save();
+  }
+
+  /**
+   * Clear a tripped circuit breaker and its failure count. Returns false if
+   * the breaker was not tripped.
+   */
+  resetCircuitBreaker(): boolean {
+    const wasActive = this.executor.circuitBreakerActive;
+    this.executor = { ...this.executor, circuitBreakerActive: false, consecutiveFailures: 0 };
+    this.save();
+
+    this.logger.info("Circuit breaker reset", { wasActive });
+    return wasActive;
+  }
+
+  private load(): void {
+    const data = readJsonFile<StateFile>(this.filePath);
+
+    if (!data) {
+      this.logger.info("Starting with fresh protocol state", { path: this.filePath });
+      return;
+    }
+
+    this.executor = { ...this.executor, ...data.executor };
+    this.protocolEpoch = data.protocolEpoch || 0;
+
+    this.logger.info("Protocol state loaded", {
+      path: this.filePath,
+      epoch: this.protocolEpoch,
+      consecutiveFailures: this.executor.consecutiveFailures,
+    });
+    if (this.executor.circuitBreakerActive) {
+      this.logger.warn("Circuit breaker is tripped; run `npm run breaker:reset` to clear it");
+    }
+  }
+
+  private save(): void {
+    const data: StateFile = {
+      version: 1,
+      savedAt: Math.floor(Date.now() / 1000),
+      executor: this.executor,
+      protocolEpoch: this.protocolEpoch,
+    };
+    writeJsonFileAtomic(this.filePath, data);
+  }
+}
+
+/**
+ * Resolve the state file inside the protocol data directory
+ */
+export function createStateStore(dataDir: string, logger: Logger): StateStore {
+  return new StateStore(path.resolve(dataDir, "state.json"), logger);
+}
@@ -0,0 +1,314 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  SendTransactionError,
+  Signer,
+  SignatureStatus,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+import {
+  Logger,
+  TransactionCommitment,
+  TransactionConfig,
+  TransactionErrorKind,
+} from "../../types";
+
+const COMMITMENT_ORDER: TransactionCommitment[] = ["processed", "confirmed", "finalized"];
+
+/**
+ * A transaction that did not land, classified by cause. `signature` is set
+ * when the failure happened on-chain rather than at submission.
+ */
+export class TransactionError extends Error {
+  constructor(
+    message: string,
+    readonly kind: TransactionErrorKind,
+    readonly signature: string | null = null
+  ) {
+    super(message);
+    this.name = "TransactionError";
+  }
+}
+
+/**
+ * Classify a failure from its error message and program logs
+ */
+export function classifyTransactionError(detail: string): TransactionErrorKind {
+  if (/blockhash not found|block height exceeded|BlockhashNotFound/i.test(detail)) {
+    return "expired";
+  }
+  // Raydium ExceededSlippage (30), Jupiter SlippageToleranceExceeded (6001),
+  // Whirlpool TokenMaxExceeded (6017) and AmountOutBelowMinimum (6036)
+  if (
+    /slippage|AmountOutBelowMinimum|TokenMaxExceeded|custom program error: 0x(1e|1771|1781|1794)\b/i.test(
+      detail
+    )
+  ) {
+    return "slippage";
+  }
+  // SPL Token InsufficientFunds is custom error 1
+  if (
+    /insufficient (funds|lamports)|InsufficientFunds|no record of a prior credit|custom program error: 0x1\b/i.test(
+      detail
+    )
+  ) {
+    return "insufficient-funds";
+  }
+  return "failed";
+}
+
+/**
+ * Describe an on-chain transaction error, spelling out custom program error
+ * codes the way program logs do
+ */
+function describeTransactionError(err: unknown): string {
+  const text = JSON.stringify(err);
+  const custom = text.match(/"Custom":(\d+)/);
+  return custom ? `${text} (custom program error: 0x${Number(custom[1]).toString(16)})` : text;
+}
+
+interface PreparedTransaction {
+  raw: Buffer | Uint8Array;
+  lastValidBlockHeight: number;
+}
+
+/**
+ * A signed transaction about to be sent. It can land until the chain passes
+ * `lastValidBlockHeight`.
+ */
+export interface TransactionSubmission {
+  signature: string;
+  lastValidBlockHeight: number;
+}
+
+/**
+ * Transaction Sender
+ *
+ * Shared submission path for every transaction the bot signs. Each
+ * transaction gets a compute-unit limit and a priority fee estimated from
+ * recent prioritization fees on the accounts it writes. A sent transaction is
+ * rebroadcast until it reaches the configured commitment; if its blockhash
+ * expires first it is rebuilt on a fresh blockhash and sent again, up to
+ * `maxAttempts` times. Failures are raised as classified TransactionErrors.
+ */
+export class TransactionSender {
+  private submitListeners: ((submission: TransactionSubmission) => void)[] = [];
+
+  constructor(
+    private connection: Connection,
+    private txConfig: TransactionConfig,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Be told of every signed transaction just before it is first sent,
+   * including each resubmission on a fresh blockhash
+   */
+  onSubmit(listener: (submission: TransactionSubmission) => void): void {
+    this.submitListeners.push(listener);
+  }
+
+  /**
+   * Build, sign and send the instructions, paid for by the first signer.
+   * Resolves with the signature once the transaction reaches the configured
+   * commitment.
+   */
+  async send(instructions: TransactionInstruction[], signers: Signer[]): Promise<string> {
+    const payer = signers[0].publicKey;
+    const writable = new Map<string, PublicKey>();
+    for (const ix of instructions) {
+      for (const key of ix.keys) {
+        if (key.isWritable) {
+          writable.set(key.pubkey.toBase58(), key.pubkey);
+        }
+      }
+    }
+
+    const priorityFee = await this.estimatePriorityFee([...writable.values()]);
+    const budgeted = [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: this.txConfig.computeUnitLimit }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: priorityFee }),
+      ...instructions,
+    ];
+
+    return this.submit(async () => {
+      const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash(
+        this.txConfig.commitment
+      );
+
+      if (this.txConfig.useVersionedTransactions) {
+        const message = new TransactionMessage({
+          payerKey: payer,
+          recentBlockhash: blockhash,
+          instructions: budgeted,
+        }).compileToV0Message();
+        const tx = new VersionedTransaction(message);
+        tx.sign(signers);
+        return { raw: tx.serialize(), lastValidBlockHeight };
+      }
+
+      const tx = new Transaction({ feePayer: payer, blockhash, lastValidBlockHeight });
+      tx.add(...budgeted);
+      tx.sign(...signers);
+      return { raw: tx.serialize(), lastValidBlockHeight };
+    });
+  }
+
+  /**
+   * Send a transaction built elsewhere, such as by an aggregator API.
+   * `build` is called again for every attempt so each one carries a fresh
+   * blockhash.
+   */
+  async sendPrebuilt(
+    build: () => Promise<{ transaction: VersionedTransaction; lastValidBlockHeight: number }>,
+    signers: Signer[]
+  ): Promise<string> {
+    return this.submit(async () => {
+      const { transaction, lastValidBlockHeight } = await build();
+      transaction.sign(signers);
+      return { raw: transaction.serialize(), lastValidBlockHeight };
+    });
+  }
+
+  /**
+   * Priority fee in micro-lamports per compute unit: the configured
+   * percentile of recent fees paid to write the given accounts, clamped to
+   * the configured bounds
+   */
+  async estimatePriorityFee(writableAccounts: PublicKey[]): Promise<number> {
+    const { priorityFeePercentile, minPriorityFeeMicroLamports, maxPriorityFeeMicroLamports } =
+      this.txConfig;
+
+    let fees: number[];
+    try {
+      const recent = await this.connection.getRecentPrioritizationFees({
+        lockedWritableAccounts: writableAccounts,
+      });
+      fees = recent.map((entry) => entry.prioritizationFee).sort((a, b) => a - b);
+    } catch (error) {
+      this.logger.warn("Could not fetch recent prioritization fees, using the minimum", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return minPriorityFeeMicroLamports;
+    }
+
+    if (fees.length === 0) {
+      return minPriorityFeeMicroLamports;
+    }
+    const index = Math.max(0, Math.ceil((priorityFeePercentile / 100) * fees.length) - 1);
+    return Math.min(
+      maxPriorityFeeMicroLamports,
+      Math.max(minPriorityFeeMicroLamports, fees[index])
+    );
+  }
+
+  private async submit(prepare: () => Promise<PreparedTransaction>): Promise<string> {
+    for (let attempt = 1; attempt <= this.txConfig.maxAttempts; attempt++) {
+      const { raw, lastValidBlockHeight } = await prepare();
+
+      // The fee payer's signature identifies the transaction before it is sent
+      const submission = {
+        signature: bs58.encode(VersionedTransaction.deserialize(raw).signatures[0]),
+        lastValidBlockHeight,
+      };
+      this.submitListeners.forEach((listener) => listener(submission));
+
+      let signature: string;
+      try {
+        signature = await this.connection.sendRawTransaction(raw, {
+          preflightCommitment: this.txConfig.commitment,
+          maxRetries: 0,
+        });
+      } catch (error) {
+        const failure = this.toTransactionError(error);
+        if (failure.kind !== "expired") {
+          throw failure;
+        }
+        this.logger.warn("Blockhash rejected at submission, retrying", { attempt });
+        continue;
+      }
+
+      if (await this.confirm(signature, raw, lastValidBlockHeight)) {
+        this.logger.debug("Transaction confirmed", { signature, attempt });
+        return signature;
+      }
+      this.logger.warn("Transaction expired before confirming, resubmitting", {
+        signature,
+        attempt,
+      });
+    }
+
+    throw new TransactionError(
+      `Transaction expired after ${this.txConfig.maxAttempts} attempt(s)`,
+      "expired"
+    );
+  }
+
+  /**
+   * Wait for the transaction to reach the configured commitment,
+   * rebroadcasting it meanwhile. Resolves false once its blockhash has
+   * expired without it landing, when it is safe to send a replacement.
+   */
+  private async confirm(
+    signature: string,
+    raw: Buffer | Uint8Array,
+    lastValidBlockHeight: number
+  ): Promise<boolean> {
+    for (;;) {
+      // Read the height before the status, so a transaction that landed just
+      // before expiry is still seen
+      const blockHeight = await this.connection.getBlockHeight(this.txConfig.commitment);
+      const { value } = await this.connection.getSignatureStatuses([signature]);
+      const status = value[0];
+
+      if (status?.err) {
+        const detail = describeTransactionError(status.err);
+        throw new TransactionError(
+          `Transaction ${signature} failed: ${detail}`,
+          classifyTransactionError(detail),
+          signature
+        );
+      }
+      if (status && this.reached(status)) {
+        return true;
+      }
+      // A transaction seen at a lower commitment may still land; keep waiting on it
+      if (!status && blockHeight > lastValidBlockHeight) {
+        return false;
+      }
+
+      try {
+        await this.connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 });
+      } catch (error) {
+        this.logger.debug("Rebroadcast failed", {
+          signature,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      await this.sleep(this.txConfig.confirmPollMs);
+    }
+  }
+
+  private reached(status: SignatureStatus): boolean {
+    const level = status.confirmationStatus ?? "processed";
+    return COMMITMENT_ORDER.indexOf(level) >= COMMITMENT_ORDER.indexOf(this.txConfig.commitment);
+  }
+
+  private toTransactionError(error: unknown): TransactionError {
+    if (error instanceof TransactionError) {
+      return error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    const logs = error instanceof SendTransactionError ? (error.logs ?? []) : [];
+    return new TransactionError(message, classifyTransactionError([message, ...logs].join("\n")));
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,194 @@
+import * as path from "path";
+import { AllocationBreakdown, Logger, TreasuryStatement } from "../../types";
+import { lamportsToSol, splitByWeights, sumAmounts } from "../../utils/amounts";
+import { readJsonFile, writeJsonFileAtomic } from "../../utils/persistence";
+
+const CATEGORIES: (keyof AllocationBreakdown<bigint>)[] = ["buyback", "lp", "burn", "cooling"];
+
+/**
+ * Amounts as stored on disk: JSON has no bigint, so lamports are strings
+ */
+type StoredBreakdown = AllocationBreakdown<string>;
+
+interface StoredStatement {
+  epochNumber: number;
+  timestamp: number;
+  opening: StoredBreakdown;
+  inflow: StoredBreakdown;
+  spent: StoredBreakdown;
+  closing: StoredBreakdown;
+}
+
+interface TreasuryFile {
+  version: 1;
+  balances: StoredBreakdown;
+  statements: StoredStatement[];
+}
+
+/**
+ * A breakdown with every category at zero
+ */
+export function emptyBreakdown(): AllocationBreakdown<bigint> {
+  return { buyback: 0n, lp: 0n, burn: 0n, cooling: 0n };
+}
+
+/**
+ * Cap what may be spent from `balances` at `budget` lamports. Only the
+ * `spendable` categories get any; the rest keep their balance and take no
+ * share of the budget. Under the budget everything spendable is spent; over
+ * it the budget is shared in proportion to the balances, so no category is
+ * starved by another.
+ */
+export function capToBudget(
+  balances: AllocationBreakdown<bigint>,
+  budget: bigint,
+  spendable: (keyof AllocationBreakdown<bigint>)[] = CATEGORIES
+): AllocationBreakdown<bigint> {
+  const available = emptyBreakdown();
+  spendable.forEach((category) => {
+    available[category] = balances[category];
+  });
+
+  const total = sumAmounts(CATEGORIES.map((category) => available[category]));
+  if (total <= budget) {
+    return available;
+  }
+
+  const [buyback, lp, burn, cooling] = splitByWeights(
+    budget,
+    CATEGORIES.map((category) => Number(available[category]))
+  );
+  return { buyback, lp, burn, cooling };
+}
+
+/**
+ * Treasury Ledger
+ *
+ * Per-category balances of fees allocated but not yet spent. Each epoch is
+ * settled in one write: its fee inflow is credited, what its actions spent
+ * is debited, and the statement is kept for auditing. Failed and unspent
+ * allocations therefore stay in their category for later epochs.
+ */
+export class TreasuryLedger {
+  private balances = emptyBreakdown();
+  private statements: StoredStatement[] = [];
+
+  constructor(
+    private filePath: string,
+    private logger: Logger
+  ) {
+    this.load();
+  }
+
+  getBalances(): AllocationBreakdown<bigint> {
+    return { ...this.balances };
+  }
+
+  /**
+   * Number of epochs settled so far
+   */
+  getStatementCount(): number {
+    return this.statements.length;
+  }
+
+  /**
+   * Credit an epoch's inflow and debit its spend. Spending more than a
+   * category holds is refused, leaving the balances unchanged.
+   */
+  settle(
+    epochNumber: number,
+    inflow: AllocationBreakdown<bigint>,
+    spent: AllocationBreakdown<bigint>
+  ): TreasuryStatement<bigint> {
+    const statement = this.preview(inflow, spent);
+    const { opening, closing } = statement;
+    this.balances = { ...closing };
+    this.statements.push({
+      epochNumber,
+      timestamp: Math.floor(Date.now() / 1000),
+      opening: toStored(opening),
+      inflow: toStored(inflow),
+      spent: toStored(spent),
+      closing: toStored(closing),
+    });
+    this.save();
+
+    this.logger.debug("Treasury settled", {
+      epoch: epochNumber,
+      closingSol: lamportsToSol(sumAmounts(CATEGORIES.map((category) => closing[category]))),
+    });
+    return statement;
+  }
+
+  /**
+   * The statement settling `inflow` and `spent` would produce, without
+   * recording it
+   */
+  preview(
+    inflow: AllocationBreakdown<bigint>,
+    spent: AllocationBreakdown<bigint>
+  ): TreasuryStatement<bigint> {
+    const opening = this.getBalances();
+    const closing = emptyBreakdown();
+    for (const category of CATEGORIES) {
+      closing[category] = opening[category] + inflow[category] - spent[category];
+      if (closing[category] < 0n) {
+        throw new Error(
+          `Treasury ${category} overspent: ${lamportsToSol(spent[category])} SOL from ${lamportsToSol(opening[category] + inflow[category])} SOL`
+        );
+      }
+    }
+    return { opening, inflow, spent, closing };
+  }
+
+  private load(): void {
+    const data = readJsonFile<TreasuryFile>(this.filePath);
+
+    if (!data) {
+      this.logger.info("Starting new treasury ledger", { path: this.filePath });
+      return;
+    }
+
+    this.balances = fromStored(data.balances);
+    this.statements = data.statements || [];
+
+    this.logger.info("Treasury ledger loaded", {
+      path: this.filePath,
+      statements: this.statements.length,
+    });
+  }
+
+  private save(): void {
+    const data: TreasuryFile = {
+      version: 1,
+      balances: toStored(this.balances),
+      statements: this.statements,
+    };
+    writeJsonFileAtomic(this.filePath, data);
+  }
+}
+
+/**
+ * Resolve the treasury file inside the protocol data directory
+ */
+export function createTreasuryLedger(dataDir: string, logger: Logger): TreasuryLedger {
+  return new TreasuryLedger(path.resolve(dataDir, "treasury.json"), logger);
+}
+
+function toStored(breakdown: AllocationBreakdown<bigint>): StoredBreakdown {
+  return {
+    buyback: breakdown.buyback.toString(),
+    lp: breakdown.lp.toString(),
+    burn: breakdown.burn.toString(),
+    cooling: breakdown.cooling.toString(),
+  };
+}
+
+function fromStored(stored: StoredBreakdown): AllocationBreakdown<bigint> {
+  return {
+    buyback: BigInt(stored.buyback),
+    lp: BigInt(stored.lp),
+    burn: BigInt(stored.burn),
+    cooling: BigInt(stored.cooling),
+  };
+}
@@ -8,22 +8,105 @@ import { PublicKey } from "@solana/web3.js";
 // FEE & ACCOUNTING
 // ============================================================
 
+export type FeeCategory = "creator-fee" | "internal-transfer" | "ignored" | "unknown";
+
 export interface FeeEvent {
   signature: string;
   timestamp: number; // Unix timestamp (seconds)
-  amountSol: number;
-  source: "wallet-watcher" | "api" | "mock";
+  amountLamports: bigint;
+  source: "wallet-watcher" | "api" | "mock" | "composite";
   confirmationStatus: "processed" | "confirmed" | "finalized";
   processed: boolean;
+  category?: FeeCategory; // set on ingest; only creator fees are credited
+  sender?: string; // largest SOL payer in the transaction, if known
+  programIds?: string[]; // programs invoked by the transaction, if known
+  reverted?: boolean; // set when the transaction was later dropped or failed
 }
 
+/**
+ * Compensating ledger entry for a credited fee whose transaction was
+ * dropped or failed
+ */
+export interface FeeDebit {
+  signature: string;
+  amountLamports: bigint;
+  reason: "failed" | "dropped";
+  timestamp: number;
+}
+
+export interface FeeClassificationRules {
+  creatorFeeProgramIds: string[];
+  internalSenders: string[];
+  ignoredSenders: string[];
+  minAmountSol: number;
+}
+
+export type FeeBreakdown = Record<FeeCategory, { count: number; amountLamports: bigint }>;
+
 export interface FeeTracker {
-  totalFeesCollected: number; // in SOL
+  totalFeesCollected: bigint; // in lamports, finalized and spendable
+  pendingFees: bigint; // in lamports, detected but not yet finalized
   lastProcessedSignature: string;
   lastProcessedTimestamp: number;
   events: FeeEvent[];
 }
 
+export type FeeSourceType = "wallet-watcher" | "stream" | "api" | "mock" | "composite";
+
+/**
+ * A fee signature the composite source could not settle cleanly
+ */
+export interface FeeReconciliationEntry {
+  signature: string;
+  reason: "amount-mismatch" | "no-quorum";
+  amountsBySource: Record<string, number>; // in SOL
+  creditedAmountSol: number | null;
+  timestamp: number;
+}
+
+export type FeeMockScenario = "steady" | "bursty" | "drought" | "whale-day" | "replay";
+
+export interface FeeMockConfig {
+  scenario: FeeMockScenario;
+  seed: number | null; // null draws from Math.random
+  csvPath: string; // replay input: "tick,amount_sol" rows
+  whaleDay: number; // zero-based simulated day of the whale-day scenario
+}
+
+export interface FeeCompositeConfig {
+  sources: Exclude<FeeSourceType, "composite">[];
+  quorum: number;
+  toleranceBps: number;
+  windowMs: number;
+}
+
+/**
+ * Where fee records and their fields live in the fee API's JSON response.
+ * Paths are dot-separated, e.g. "result.items".
+ */
+export interface FeeApiMapping {
+  recordsPath: string;
+  nextCursorPath: string;
+  cursorParam: string;
+  limitParam: string;
+  signatureField: string;
+  timestampField: string;
+  amountField: string;
+  amountUnit: "sol" | "lamports";
+  statusField: string;
+}
+
+export interface FeeApiConfig {
+  url: string;
+  authHeader: string;
+  authToken: string;
+  timeoutMs: number;
+  maxRetries: number;
+  retryBaseMs: number;
+  pageSize: number;
+  mapping: FeeApiMapping;
+}
+
 // ============================================================
 // ICE HEALTH MODEL
 // ============================================================
@@ -56,23 +139,108 @@ export interface AllocationConfig {
   coolingPct: number; // e.g., 5
 }
 
+/**
+ * Per-category amounts. Allocations are in lamports and always sum to the
+ * total allocated; reports carry the same shape in SOL.
+ */
+export interface AllocationBreakdown<T> {
+  buyback: T;
+  lp: T;
+  burn: T;
+  cooling: T;
+}
+
+/**
+ * A wallet paid from the cooling allocation. Weights are relative.
+ */
+export interface CoolingRecipient {
+  address: PublicKey;
+  weight: number;
+}
+
+export interface CoolingConfig {
+  recipients: CoolingRecipient[];
+  memoPurpose: string; // stated in the memo of every cooling transfer
+}
+
+/**
+ * One epoch's movements in the treasury, per category. New fees flow in by
+ * the allocation split; whatever is not spent carries over in the closing
+ * balance.
+ */
+export interface TreasuryStatement<T> {
+  opening: AllocationBreakdown<T>;
+  inflow: AllocationBreakdown<T>;
+  spent: AllocationBreakdown<T>;
+  closing: AllocationBreakdown<T>;
+}
+
 export interface EpochAllocation {
-  totalFeesToAllocate: number;
-  allocations: {
-    buyback: number;
-    lp: number;
-    burn: number;
-    cooling: number;
-  };
+  totalFeesToAllocate: bigint; // in lamports
+  allocations: AllocationBreakdown<bigint>; // the executor's spend this epoch
   actions: AllocationAction[];
+  treasury?: TreasuryStatement<bigint>; // set once the epoch is settled
 }
 
+/**
+ * An executed or attempted action. The amount spent is in lamports; the
+ * fill details below it are UI amounts recorded for the report.
+ */
 export interface AllocationAction {
   type: "buyback" | "add-lp" | "burn" | "cooling-event";
-  amountSol: number;
+  amountLamports: bigint;
   signature?: string;
   status: "pending" | "executed" | "failed";
   error?: string;
+  route?: string; // venue and pool the swap executed on
+  rejectedRoutes?: RouteAlternative[];
+  swapSignature?: string; // add-lp, burn: the swap buying the $ice
+  swapInputLamports?: bigint; // add-lp, burn: SOL that swap spent
+  lpTokenAmount?: number; // add-lp: LP tokens (Orca: position liquidity) received
+  fills?: SwapFill[]; // buyback: one entry per executed child swap
+  outputAmount?: number; // buyback: total $ice received
+  execution?: ExecutionQuality; // buyback: fills measured against their quotes
+  price?: OraclePrice; // burn: oracle price the swap was checked against
+  tokenAmount?: number; // burn: $ice bought and burned
+  supplyBefore?: number; // burn: $ice mint supply before the burn
+  supplyAfter?: number; // burn: $ice mint supply after the burn
+  transfers?: CoolingTransfer[]; // cooling-event: one entry per recipient paid
+}
+
+/**
+ * One executed child swap of a sliced buyback
+ */
+export interface SwapFill {
+  signature: string;
+  inputLamports: bigint;
+  outputAmount: number; // $ice
+  priceImpactBps: number;
+  quotedOutputAmount: number; // from the quote taken right before signing
+  quotedPriceImpactBps: number;
+  quoteDriftBps: number; // output lost between planning and the pre-sign quote
+}
+
+/**
+ * One SOL payment of a cooling event. Payments sent in the same transaction
+ * share its signature.
+ */
+export interface CoolingTransfer {
+  recipient: string;
+  lamports: bigint;
+  signature: string;
+}
+
+/**
+ * How a buyback filled compared with what was quoted. Positive slippage and
+ * drift mean less output than expected.
+ */
+export interface ExecutionQuality {
+  quotedOutputAmount: number;
+  filledOutputAmount: number;
+  realizedSlippageBps: number;
+  quotedPriceImpactBps: number; // input-weighted across fills
+  realizedPriceImpactBps: number;
+  maxQuoteDriftBps: number;
 }
 
 // ============================================================
@@ -82,16 +250,56 @@ export interface AllocationAction {
 export interface QuoteInput {
   inputMint: PublicKey;
   outputMint: PublicKey;
-  amountIn: number;
+  amountIn: bigint; // base units of the input mint
   slippageBps?: number;
 }
 
+/**
+ * Quoted swap. Amounts are base units of their mints.
+ */
 export interface Quote {
-  inputAmount: number;
-  outputAmount: number;
+  inputAmount: bigint;
+  outputAmount: bigint;
+  outputDecimals: number;
   priceImpactBps: number;
   feeBps: number;
   routePath: string;
+  alternatives?: RouteAlternative[]; // routes the router ranked below this one
+}
+
+/**
+ * A route the router quoted but did not execute
+ */
+export interface RouteAlternative {
+  routePath: string;
+  outputAmount: number | null; // UI amount; null when the venue failed to quote
+  priceImpactBps: number | null;
+  error?: string;
+}
+
+export type DexEngineType = "mock" | "raydium" | "orca" | "aggregator" | "router";
+
+export interface AggregatorConfig {
+  url: string; // base URL of a Jupiter-style /quote and /swap API
+  timeoutMs: number;
+}
+
+export interface RouterConfig {
+  venues: Exclude<DexEngineType, "router">[];
+}
+
+/**
+ * Constant-product pool behind the mock DEX engine
+ */
+export interface SimulatedPoolConfig {
+  solReserve: number;
+  tokenReserve: number;
+  tokenDecimals: number;
+  tokenSupply: number; // $ice supply the mock burner burns from
+  feeBps: number;
+  externalTradesPerEpoch: number; // 0 disables synthetic traders
+  externalTradeMaxSol: number;
+  seed: number | null;
 }
 
 export interface SwapInstruction {
@@ -100,16 +308,107 @@ export interface SwapInstruction {
   data: Buffer;
 }
 
+export interface RaydiumConfig {
+  programId: PublicKey; // AMM v4 program
+  poolId: PublicKey | null; // null discovers the pool for the mint pair
+}
+
+export interface OrcaConfig {
+  programId: PublicKey; // Whirlpool program
+  whirlpoolId: PublicKey | null; // null discovers the deepest pool for the mint pair
+}
+
+/**
+ * Executed swap. Amounts are base units of their mints.
+ */
 export interface SwapResult {
   signature: string;
-  inputAmount: number;
-  outputAmount: number;
+  inputAmount: bigint;
+  outputAmount: bigint;
+  outputDecimals: number;
   actualPriceImpactBps: number;
+  routePath?: string;
+  alternatives?: RouteAlternative[];
 }
 
 export interface LPAddResult {
   signature: string;
-  lpTokenAmount: number;
+  lpTokenAmount: bigint; // base units of the LP mint
+  lpDecimals: number;
+}
+
+/**
+ * Pool reserves as seen by an LP manager: lamports and token base units
+ */
+export interface LPPoolReserves {
+  solReserve: bigint;
+  tokenReserve: bigint;
+}
+
+export type LPEngineType = "mock" | "raydium" | "orca";
+
+// ============================================================
+// PRICE ORACLE
+// ============================================================
+
+export type PriceOracleType = "pool" | "twap" | "external";
+
+/**
+ * A price reading: SOL per whole $ice, with how old and how uncertain it is
+ */
+export interface OraclePrice {
+  priceSol: number;
+  confidenceBps: number; // half-width of the likely range around priceSol
+  publishedAt: number; // Unix timestamp (seconds)
+  ageSeconds: number;
+  stale: boolean; // older than the configured maximum
+  source: string;
+}
+
+/**
+ * HTTP price feed. Paths are dot-separated into the JSON response.
+ */
+export interface PriceFeedConfig {
+  url: string;
+  pricePath: string; // SOL per whole $ice
+  timestampPath: string; // publish time, Unix seconds or milliseconds
+  confidencePath: string; // absolute confidence in SOL; empty if the feed has none
+  timeoutMs: number;
+}
+
+export interface PriceOracleConfig {
+  type: PriceOracleType;
+  twapSource: "pool" | "external"; // oracle sampled by the TWAP
+  twapWindowSeconds: number;
+  maxStalenessSeconds: number;
+  maxConfidenceBps: number; // wider prices are not used for conversions
+  feed: PriceFeedConfig;
+}
+
+// ============================================================
+// TRANSACTIONS
+// ============================================================
+
+export type TransactionCommitment = "processed" | "confirmed" | "finalized";
+
+/**
+ * Why a submitted transaction did not land
+ */
+export type TransactionErrorKind =
+  | "slippage" // the program rejected the fill against its minimum output
+  | "insufficient-funds"
+  | "expired" // blockhash expired on every attempt
+  | "failed"; // any other on-chain or RPC failure
+
+export interface TransactionConfig {
+  commitment: TransactionCommitment;
+  computeUnitLimit: number;
+  priorityFeePercentile: number; // of recent prioritization fees on the written accounts
+  minPriorityFeeMicroLamports: number;
+  maxPriorityFeeMicroLamports: number;
+  maxAttempts: number; // fresh blockhashes tried before giving up
+  confirmPollMs: number; // status poll and rebroadcast interval
+  useVersionedTransactions: boolean;
 }
 
 // ============================================================
@@ -124,8 +423,18 @@ export interface ExecutorConfig {
   maxConsecutiveFailures: number;
   minBalanceToOperateSol: number;
   driftToleranceBps: number;
+  buybackExecution: BuybackExecutionMode;
+  buybackSlices: number; // twap: number of child swaps
+  buybackTargetImpactBps: number; // target-impact: impact each child swap aims for
+  buybackMaxSlices: number;
 }
 
+/**
+ * single: one swap; twap: fixed number of slices spaced over the epoch;
+ * target-impact: as many slices as needed to keep each near the target impact
+ */
+export type BuybackExecutionMode = "single" | "twap" | "target-impact";
+
 export interface ExecutorState {
   lastExecutionTime: number;
   consecutiveFailures: number;
@@ -137,18 +446,44 @@ export interface ExecutorState {
 // REPORTING
 // ============================================================
 
+/**
+ * A buyback slice as written to a report, with the SOL spent
+ */
+export type ReportedSwapFill = Omit<SwapFill, "inputLamports"> & { inputAmount: number };
+
+/**
+ * A cooling payment as written to a report, in SOL
+ */
+export type ReportedCoolingTransfer = Omit<CoolingTransfer, "lamports"> & { amountSol: number };
+
+/**
+ * An action as written to a report, with the amounts spent in SOL
+ */
+export type ReportedAction = Omit<
+  AllocationAction,
+  "amountLamports" | "swapInputLamports" | "fills" | "transfers"
+> & {
+  amountSol: number;
+  swapInputSol?: number;
+  fills?: ReportedSwapFill[];
+  transfers?: ReportedCoolingTransfer[];
+};
+
+/**
+ * Epoch report. Reports are for people, so every amount is in SOL.
+ */
 export interface EpochReport {
   epochNumber: number;
   timestamp: number;
   feesDetected: number;
-  allocations: {
-    buyback: number;
-    lp: number;
-    burn: number;
-    cooling: number;
-  };
+  feesPending: number;
+  feeBreakdown: Record<FeeCategory, { count: number; amountSol: number }>;
+  allocations: AllocationBreakdown<number>;
+  treasury: TreasuryStatement<number> | null; // null when no epoch was settled
   iceHealth: IceHealthState;
-  actions: AllocationAction[];
+  actions: ReportedAction[];
+  feeReconciliation: FeeReconciliationEntry[];
+  price: OraclePrice | null; // null when no oracle price could be read
   txSignatures: string[];
   errors: string[];
 }
@@ -171,17 +506,34 @@ export interface ProtocolConfig {
   botKeypair: any; // Keypair object
 
   // Fee source
-  feeSource: "wallet-watcher" | "api" | "mock";
+  feeSource: FeeSourceType;
   feePollIntervalMs: number;
   feeConfirmationDepth: number;
+  feeDropTimeoutSeconds: number;
+  feeStreamReconnectBaseMs: number;
+  feeStreamReconnectMaxMs: number;
+  feeApi: FeeApiConfig;
+  feeComposite: FeeCompositeConfig;
+  feeMock: FeeMockConfig;
+  feeClassification: FeeClassificationRules;
 
   // Executor
   executor: ExecutorConfig;
 
   // DEX
-  dexEngine: "mock" | "raydium" | "orca";
+  dexEngine: DexEngineType;
   maxSlippageBps: number;
   maxPriceImpactBps: number;
+  raydium: RaydiumConfig;
+  orca: OrcaConfig;
+  aggregator: AggregatorConfig;
+  router: RouterConfig;
+  simulatedPool: SimulatedPoolConfig;
+  lpEngine: LPEngineType;
+  transactions: TransactionConfig;
+
+  // Pricing
+  priceOracle: PriceOracleConfig;
 
   // Ice Health
   iceHealthThreshold: number; // e.g., 50
@@ -197,11 +549,15 @@ export interface ProtocolConfig {
   // Allocations
   allocationMode: "adaptive" | "fixed";
   allocationConfig: AllocationConfig;
+  cooling: CoolingConfig;
 
   // Logging
   logLevel: "debug" | "info" | "warn" | "error";
   reportsDir: string;
 
+  // Persistence
+  dataDir: string;
+
   // Simulation
   simulateMode: boolean;
 }
@@ -0,0 +1,106 @@
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+
+/**
+ * Money amounts are integer base units (lamports for SOL) held as bigint.
+ * SOL as a float only appears at the edges: config values going in and
+ * reports coming out.
+ */
+
+// Weights are scaled to integers with this many decimal places before splitting
+const WEIGHT_SCALE = 1_000_000;
+
+/**
+ * Convert SOL into lamports, rounding to the nearest lamport
+ */
+export function solToLamports(sol: number): bigint {
+  return BigInt(Math.round(sol * LAMPORTS_PER_SOL));
+}
+
+/**
+ * Convert lamports into SOL for display
+ */
+export function lamportsToSol(lamports: bigint): number {
+  return Number(lamports) / LAMPORTS_PER_SOL;
+}
+
+/**
+ * Sum a list of amounts
+ */
+export function sumAmounts(amounts: bigint[]): bigint {
+  return amounts.reduce((sum, amount) => sum + amount, 0n);
+}
+
+/**
+ * Split `total` in proportion to `weights` with the largest-remainder
+ * method: every part is rounded down, then the units left over go one each
+ * to the parts with the largest remainders (earlier parts win ties). The
+ * parts always sum to `total` exactly, and the same inputs always give the
+ * same split.
+ */
+export function splitByWeights(total: bigint, weights: number[]): bigint[] {
+  const scaled = weights.map((weight) => BigInt(Math.round(weight * WEIGHT_SCALE)));
+  const weightSum = sumAmounts(scaled);
+  if (weightSum <= 0n) {
+    throw new Error("Cannot split an amount by weights that sum to zero");
+  }
+
+  const parts = scaled.map((weight) => (total * weight) / weightSum);
+  const remainders = scaled.map((weight, index) => ({
+    index,
+    remainder: (total * weight) % weightSum,
+  }));
+
+  let leftover = total - sumAmounts(parts);
+  remainders.sort((a, b) =>
+    a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1
+  );
+  for (const { index } of remainders) {
+    if (leftover <= 0n) {
+      break;
+    }
+    parts[index] += 1n;
+    leftover -= 1n;
+  }
+
+  return parts;
+}
+
+// Prices are scaled to integers with this many decimal places for conversions
+const PRICE_SCALE = 10n ** 18n;
+
+function scalePrice(priceSol: number): bigint {
+  if (!Number.isFinite(priceSol) || priceSol <= 0) {
+    throw new Error(`Invalid price: ${priceSol}`);
+  }
+  return BigInt(Math.round(priceSol * Number(PRICE_SCALE)));
+}
+
+/**
+ * Convert lamports into token base units at `priceSol` SOL per whole token,
+ * rounding down
+ */
+export function lamportsToTokenUnits(
+  lamports: bigint,
+  priceSol: number,
+  tokenDecimals: number
+): bigint {
+  return (
+    (lamports * 10n ** BigInt(tokenDecimals) * PRICE_SCALE) /
+    (scalePrice(priceSol) * BigInt(LAMPORTS_PER_SOL))
+  );
+}
+
+/**
+ * Convert token base units into lamports at `priceSol` SOL per whole token,
+ * rounding down
+ */
+export function tokenUnitsToLamports(
+  units: bigint,
+  priceSol: number,
+  tokenDecimals: number
+): bigint {
+  return (
+    (units * scalePrice(priceSol) * BigInt(LAMPORTS_PER_SOL)) /
+    (10n ** BigInt(tokenDecimals) * PRICE_SCALE)
+  );
+}
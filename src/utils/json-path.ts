@@ -0,0 +1,14 @@
+/**
+ * Read a dot-separated path ("result.items") from a JSON value
+ */
+export function getPath(value: unknown, pathExpr: string): unknown {
+  return pathExpr
+    .split(".")
+    .filter((key) => key.length > 0)
+    .reduce<unknown>((current, key) => {
+      if (current && typeof current === "object") {
+        return (current as Record<string, unknown>)[key];
+      }
+      return undefined;
+    }, value);
+}
@@ -62,7 +62,6 @@ function createLoggerWithConsole(
   level: "debug" | "info" | "warn" | "error",
   logFile: string
 ): Logger {
-  const logDir = path.join(process.cwd(), "logs");
   const transports = pino.transport({
     targets: [
       {
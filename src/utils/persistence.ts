@@ -0,0 +1,33 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Read a JSON file, returning null if it does not exist yet
+ */
+export function readJsonFile<T>(filePath: string): T | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(filePath, "utf-8")) as T;
+}
+
+/**
+ * Write a JSON file atomically: the data is written to a temporary file and
+ * renamed over the target, so a crash never leaves a half-written file.
+ */
+export function writeJsonFileAtomic(filePath: string, data: unknown): void {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const tmpFile = `${filePath}.${process.pid}.tmp`;
+  const fd = fs.openSync(tmpFile, "w");
+  try {
+    fs.writeSync(fd, JSON.stringify(data, null, 2));
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tmpFile, filePath);
+}
@@ -0,0 +1,37 @@
+/**
+ * Source of uniform random numbers in [0, 1)
+ */
+export type RandomSource = () => number;
+
+/**
+ * Create a random source. With a seed, the sequence is reproducible
+ * (mulberry32); without one, Math.random is used.
+ */
+export function createRandom(seed: number | null = null): RandomSource {
+  if (seed === null) {
+    return Math.random;
+  }
+
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Uniform number in [min, max)
+ */
+export function randomBetween(random: RandomSource, min: number, max: number): number {
+  return min + random() * (max - min);
+}
+
+/**
+ * Uniform integer in [min, max]
+ */
+export function randomInt(random: RandomSource, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
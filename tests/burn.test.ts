@@ -0,0 +1,111 @@
+import { Connection, Keypair, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import {
+  MINT_SIZE,
+  MintLayout,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  decodeBurnCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import { MockTokenBurner, SplTokenBurner } from "../src/services/burn";
+import { TransactionSender } from "../src/services/transactions";
+import { Logger } from "../src/types";
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+describe("SplTokenBurner", () => {
+  const bot = Keypair.generate();
+  const mint = Keypair.generate().publicKey;
+
+  /**
+   * Burner against a single mint account owned by `programId`, with the
+   * instructions it sends captured
+   */
+  function createBurner(programId: PublicKey): {
+    burner: SplTokenBurner;
+    sent: TransactionInstruction[][];
+  } {
+    const data = Buffer.alloc(MINT_SIZE);
+    MintLayout.encode(
+      {
+        mintAuthorityOption: 0,
+        mintAuthority: PublicKey.default,
+        supply: 5_000_000_000n,
+        decimals: 6,
+        isInitialized: true,
+        freezeAuthorityOption: 0,
+        freezeAuthority: PublicKey.default,
+      },
+      data
+    );
+    const connection = {
+      getAccountInfo: async (): Promise<unknown> => ({
+        data,
+        owner: programId,
+        lamports: 0,
+        executable: false,
+      }),
+    } as unknown as Connection;
+
+    const sent: TransactionInstruction[][] = [];
+    const sender = {
+      send: async (instructions: TransactionInstruction[]): Promise<string> => {
+        sent.push(instructions);
+        return "burn-sig";
+      },
+    } as unknown as TransactionSender;
+
+    return { burner: new SplTokenBurner(connection, bot, sender, silentLogger), sent };
+  }
+
+  it("reads the mint supply", async () => {
+    await expect(createBurner(TOKEN_PROGRAM_ID).burner.getSupply(mint)).resolves.toBe(
+      5_000_000_000n
+    );
+  });
+
+  it("burns through Token-2022 for a Token-2022 mint", async () => {
+    const { burner, sent } = createBurner(TOKEN_2022_PROGRAM_ID);
+
+    const signature = await burner.burn(mint, 1_234_567n);
+
+    expect(signature).toBe("burn-sig");
+    expect(sent).toHaveLength(1);
+    const [instruction] = sent[0];
+    expect(instruction.programId.equals(TOKEN_2022_PROGRAM_ID)).toBe(true);
+
+    const decoded = decodeBurnCheckedInstruction(instruction, TOKEN_2022_PROGRAM_ID);
+    expect(decoded.data.amount).toBe(1_234_567n);
+    expect(decoded.data.decimals).toBe(6);
+    expect(decoded.keys.mint.pubkey.equals(mint)).toBe(true);
+    expect(decoded.keys.owner.pubkey.equals(bot.publicKey)).toBe(true);
+    expect(
+      decoded.keys.account.pubkey.equals(
+        getAssociatedTokenAddressSync(mint, bot.publicKey, false, TOKEN_2022_PROGRAM_ID)
+      )
+    ).toBe(true);
+  });
+
+  it("refuses to burn nothing", async () => {
+    await expect(createBurner(TOKEN_PROGRAM_ID).burner.burn(mint, 0n)).rejects.toThrow(
+      "Burn amount must be positive"
+    );
+  });
+});
+
+describe("MockTokenBurner", () => {
+  it("burns from its supply and refuses to burn more than exists", async () => {
+    const mint = Keypair.generate().publicKey;
+    const burner = new MockTokenBurner(1_000n, silentLogger);
+
+    await burner.burn(mint, 400n);
+
+    await expect(burner.getSupply(mint)).resolves.toBe(600n);
+    await expect(burner.burn(mint, 601n)).rejects.toThrow("Cannot burn 601 of a 600 supply");
+  });
+});
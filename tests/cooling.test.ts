@@ -0,0 +1,116 @@
+import { Keypair, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import {
+  CoolingDistributor,
+  MEMO_PROGRAM_ID,
+  MockCoolingDistributor,
+  SolCoolingDistributor,
+  createCoolingDistributor,
+} from "../src/services/cooling";
+import { TransactionSender } from "../src/services/transactions";
+import { Logger, ProtocolConfig } from "../src/types";
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+describe("CoolingDistributor", () => {
+  const bot = Keypair.generate();
+
+  function createDistributor(
+    recipients: { address: PublicKey; weight: number }[],
+    sent: TransactionInstruction[][] = []
+  ): CoolingDistributor {
+    const sender = {
+      send: async (instructions: TransactionInstruction[]): Promise<string> => {
+        sent.push(instructions);
+        return `sig-${sent.length}`;
+      },
+    } as unknown as TransactionSender;
+    return new SolCoolingDistributor(
+      { recipients, memoPurpose: "community prizes" },
+      bot,
+      sender,
+      silentLogger
+    );
+  }
+
+  it("splits the amount exactly and batches the payments", () => {
+    const recipients = Array.from({ length: 10 }, () => ({
+      address: Keypair.generate().publicKey,
+      weight: 1,
+    }));
+
+    const batches = createDistributor(recipients).planBatches(1_000_000_003n);
+
+    expect(batches.map((batch) => batch.length)).toEqual([8, 2]);
+    const payments = batches.flat();
+    expect(payments.reduce((sum, payment) => sum + payment.lamports, 0n)).toBe(1_000_000_003n);
+    expect(payments.map((payment) => payment.recipient)).toEqual(
+      recipients.map((recipient) => recipient.address)
+    );
+  });
+
+  it("leaves out recipients whose share rounds to nothing", () => {
+    const heavy = Keypair.generate().publicKey;
+    const batches = createDistributor([
+      { address: heavy, weight: 1_000 },
+      { address: Keypair.generate().publicKey, weight: 0.001 },
+    ]).planBatches(10n);
+
+    expect(batches).toEqual([[{ recipient: heavy, lamports: 10n }]]);
+  });
+
+  it("refuses to plan without recipients", () => {
+    expect(() => createDistributor([]).planBatches(1n)).toThrow("No cooling recipients configured");
+  });
+
+  it("tags each batch with a memo signed by the bot", async () => {
+    const sent: TransactionInstruction[][] = [];
+    const recipient = Keypair.generate().publicKey;
+    const distributor = createDistributor([{ address: recipient, weight: 1 }], sent);
+
+    const signature = await distributor.sendBatch([{ recipient, lamports: 5_000n }], 7, 2, 3);
+
+    expect(signature).toBe("sig-1");
+    const [memo] = sent[0];
+    expect(memo.programId.equals(MEMO_PROGRAM_ID)).toBe(true);
+    expect(memo.keys).toEqual([{ pubkey: bot.publicKey, isSigner: true, isWritable: false }]);
+    expect(memo.data.toString("utf-8")).toBe(
+      "ICE epoch 7 cooling event: community prizes (batch 2/3)"
+    );
+  });
+});
+
+describe("createCoolingDistributor", () => {
+  const send = jest.fn();
+  const sender = { send } as unknown as TransactionSender;
+
+  function configFor(dexEngine: ProtocolConfig["dexEngine"]): ProtocolConfig {
+    return {
+      dexEngine,
+      botKeypair: Keypair.generate(),
+      cooling: {
+        recipients: [{ address: Keypair.generate().publicKey, weight: 1 }],
+        memoPurpose: "marketing",
+      },
+    } as unknown as ProtocolConfig;
+  }
+
+  it("simulates cooling payments against the mock DEX", async () => {
+    const distributor = createCoolingDistributor(configFor("mock"), sender, silentLogger);
+
+    expect(distributor).toBeInstanceOf(MockCoolingDistributor);
+    const [batch] = distributor.planBatches(1_000n);
+    await expect(distributor.sendBatch(batch, 1, 1, 1)).resolves.toEqual(expect.any(String));
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("sends real transfers against an on-chain DEX", () => {
+    const distributor = createCoolingDistributor(configFor("raydium"), sender, silentLogger);
+
+    expect(distributor).toBeInstanceOf(SolCoolingDistributor);
+  });
+});
@@ -0,0 +1,525 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { AccountInfo, Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { ACCOUNT_SIZE, AccountLayout, NATIVE_MINT, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import {
+  AggregatorQuoteProvider,
+  OrcaLPManager,
+  OrcaSwapEngine,
+  RaydiumLPManager,
+  RaydiumSwapEngine,
+  RouterSwapEngine,
+  SwapEngine,
+} from "../src/services/dex/engines";
+import { sizeProportionalDeposit } from "../src/services/dex/math";
+import {
+  getAmountsForLiquidity,
+  getFullRangeTicks,
+  getLiquidityForAmounts,
+  getTickArrayAddress,
+} from "../src/services/dex/whirlpool";
+import { TransactionSender } from "../src/services/transactions";
+import { Logger, Quote, SwapResult } from "../src/types";
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+// Engines without a bot keypair refuse to sign before reaching the sender
+const idleSender = {} as TransactionSender;
+
+function tokenAccount(mint: PublicKey, amount: bigint): AccountInfo<Buffer> {
+  const data = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode(
+    {
+      mint,
+      owner: Keypair.generate().publicKey,
+      amount,
+      delegateOption: 0,
+      delegate: PublicKey.default,
+      state: 1,
+      isNativeOption: 0,
+      isNative: 0n,
+      delegatedAmount: 0n,
+      closeAuthorityOption: 0,
+      closeAuthority: PublicKey.default,
+    },
+    data
+  );
+  return { data, owner: TOKEN_PROGRAM_ID, lamports: 0, executable: false };
+}
+
+interface SeededPool {
+  connection: {
+    getProgramAccounts: jest.Mock;
+    getAccountInfo: jest.Mock;
+    getMultipleAccountsInfo: jest.Mock;
+  };
+  programId: PublicKey;
+  poolId: PublicKey;
+}
+
+/**
+ * A Raydium AMM v4 pool with its market, as stored on-chain
+ */
+function seedRaydiumPool(baseMint: PublicKey, quoteMint: PublicKey): SeededPool {
+  const programId = Keypair.generate().publicKey;
+  const marketProgramId = Keypair.generate().publicKey;
+  const poolId = Keypair.generate().publicKey;
+  const marketId = Keypair.generate().publicKey;
+  const baseVault = Keypair.generate().publicKey;
+  const quoteVault = Keypair.generate().publicKey;
+
+  const amm = Buffer.alloc(752);
+  amm.writeBigUInt64LE(6n, 32); // base decimals
+  amm.writeBigUInt64LE(9n, 40); // quote decimals
+  amm.writeBigUInt64LE(25n, 176); // swap fee numerator
+  amm.writeBigUInt64LE(10_000n, 184); // swap fee denominator
+  baseVault.toBuffer().copy(amm, 336);
+  quoteVault.toBuffer().copy(amm, 368);
+  baseMint.toBuffer().copy(amm, 400);
+  quoteMint.toBuffer().copy(amm, 432);
+  marketId.toBuffer().copy(amm, 528);
+  marketProgramId.toBuffer().copy(amm, 560);
+
+  // The vault signer nonce must derive an off-curve address
+  const market = Buffer.alloc(388);
+  for (let nonce = 0n; ; nonce++) {
+    const seed = Buffer.alloc(8);
+    seed.writeBigUInt64LE(nonce);
+    try {
+      PublicKey.createProgramAddressSync([marketId.toBuffer(), seed], marketProgramId);
+      market.writeBigUInt64LE(nonce, 45);
+      break;
+    } catch {
+      continue;
+    }
+  }
+
+  const accounts = new Map<string, AccountInfo<Buffer>>([
+    [poolId.toBase58(), { data: amm, owner: programId, lamports: 0, executable: false }],
+    [marketId.toBase58(), { data: market, owner: marketProgramId, lamports: 0, executable: false }],
+    [baseVault.toBase58(), tokenAccount(baseMint, 1_000_000_000_000n)], // 1M tokens
+    [quoteVault.toBase58(), tokenAccount(quoteMint, 100_000_000_000n)], // 100 SOL
+  ]);
+
+  const connection = {
+    getProgramAccounts: jest.fn(
+      async (_program: PublicKey, config: { filters: { memcmp?: { bytes: string } }[] }) => {
+        const [, base, quote] = config.filters.map((f) => f.memcmp?.bytes);
+        return base === baseMint.toBase58() && quote === quoteMint.toBase58()
+          ? [{ pubkey: poolId, account: accounts.get(poolId.toBase58())! }]
+          : [];
+      }
+    ),
+    getAccountInfo: jest.fn(async (key: PublicKey) => accounts.get(key.toBase58()) ?? null),
+    getMultipleAccountsInfo: jest.fn(async (keys: PublicKey[]) =>
+      keys.map((key) => accounts.get(key.toBase58()) ?? null)
+    ),
+  };
+
+  return { connection, programId, poolId };
+}
+
+describe("RaydiumSwapEngine", () => {
+  const iceMint = Keypair.generate().publicKey;
+
+  it("quotes from the discovered pool's reserves and swap fee", async () => {
+    const { connection, programId, poolId } = seedRaydiumPool(iceMint, NATIVE_MINT);
+    const engine = new RaydiumSwapEngine(
+      connection as unknown as Connection,
+      { programId, poolId: null },
+      null,
+      idleSender,
+      silentLogger
+    );
+
+    const quote = await engine.dryRun(NATIVE_MINT, iceMint, 1_000_000_000n, 100);
+
+    // 1 SOL in, 0.25% fee, against 100 SOL / 1M token reserves
+    const amountInAfterFee = 1_000_000_000n - 2_500_000n;
+    const expectedOut =
+      (1_000_000_000_000n * amountInAfterFee) / (100_000_000_000n + amountInAfterFee);
+
+    expect(quote.outputAmount).toBe(expectedOut);
+    expect(quote.outputDecimals).toBe(6);
+    expect(quote.feeBps).toBe(25);
+    expect(quote.priceImpactBps).toBe(99);
+    expect(quote.routePath).toBe(`raydium:${poolId.toBase58()}`);
+
+    // The pool is resolved once per pair
+    await engine.dryRun(iceMint, NATIVE_MINT, 1_000_000_000n, 100);
+    expect(connection.getAccountInfo).toHaveBeenCalledTimes(2);
+  });
+
+  it("refuses to swap without a bot keypair", async () => {
+    const { connection, programId } = seedRaydiumPool(iceMint, NATIVE_MINT);
+    const engine = new RaydiumSwapEngine(
+      connection as unknown as Connection,
+      { programId, poolId: null },
+      null,
+      idleSender,
+      silentLogger
+    );
+
+    await expect(engine.swap(NATIVE_MINT, iceMint, 1_000_000_000n)).rejects.toThrow("bot keypair");
+  });
+});
+
+describe("RaydiumLPManager", () => {
+  const iceMint = Keypair.generate().publicKey;
+
+  it("reports the pool reserves oriented as SOL and token", async () => {
+    const { connection, programId } = seedRaydiumPool(iceMint, NATIVE_MINT);
+    const manager = new RaydiumLPManager(
+      connection as unknown as Connection,
+      { programId, poolId: null },
+      null,
+      idleSender,
+      silentLogger
+    );
+
+    await expect(manager.getReserves(iceMint)).resolves.toEqual({
+      solReserve: 100_000_000_000n,
+      tokenReserve: 1_000_000_000_000n,
+    });
+    await expect(manager.addLiquidity(iceMint, 1_000_000_000n, 100_000_000n)).rejects.toThrow(
+      "bot keypair"
+    );
+  });
+});
+
+describe("sizeProportionalDeposit", () => {
+  it("deposits the limiting side exactly and bounds the other by slippage", () => {
+    // Pool at 1 A : 10 B; 5 A would need 50 B but only 20 B are offered
+    const deposit = sizeProportionalDeposit(5n, 20n, 100n, 1000n, 100);
+
+    expect(deposit.fixedSide).toBe("b");
+    expect(deposit.amountA).toBe(2n);
+    expect(deposit.amountB).toBe(20n);
+    expect(deposit.maxAmountB).toBe(20n);
+
+    const large = sizeProportionalDeposit(1_000_000n, 100_000_000n, 100n, 1000n, 100);
+    expect(large.fixedSide).toBe("a");
+    expect(large.amountB).toBe(10_000_000n);
+    expect(large.maxAmountB).toBe(10_100_000n);
+  });
+});
+
+describe("OrcaSwapEngine", () => {
+  const programId = Keypair.generate().publicKey;
+  const poolId = Keypair.generate().publicKey;
+  const mintA = Keypair.generate().publicKey;
+  const mintB = Keypair.generate().publicKey;
+  const liquidity = 1_000_000_000_000n;
+
+  function mintAccount(decimals: number): AccountInfo<Buffer> {
+    const data = Buffer.alloc(82);
+    data.writeUInt8(decimals, 44);
+    return { data, owner: TOKEN_PROGRAM_ID, lamports: 0, executable: false };
+  }
+
+  /**
+   * Whirlpool at price 1 (tick 0) whose only position spans ticks -128..+inf
+   */
+  function seedWhirlpool(): Connection {
+    const pool = Buffer.alloc(653);
+    pool.writeUInt16LE(64, 41); // tick spacing
+    pool.writeUInt16LE(3000, 45); // 0.3% fee
+    pool.writeBigUInt64LE(liquidity, 49);
+    pool.writeBigUInt64LE(1n, 65 + 8); // sqrt price 1.0 in Q64.64
+    pool.writeInt32LE(0, 81);
+    mintA.toBuffer().copy(pool, 101);
+    Keypair.generate().publicKey.toBuffer().copy(pool, 133);
+    mintB.toBuffer().copy(pool, 181);
+    Keypair.generate().publicKey.toBuffer().copy(pool, 213);
+
+    const accounts = new Map<string, AccountInfo<Buffer>>([
+      [poolId.toBase58(), { data: pool, owner: programId, lamports: 0, executable: false }],
+      [mintA.toBase58(), mintAccount(6)],
+      [mintB.toBase58(), mintAccount(6)],
+    ]);
+
+    // Tick arrays cover 88 * 64 ticks each
+    for (const start of [0, -5632, -11264]) {
+      const data = Buffer.alloc(9988);
+      data.writeInt32LE(start, 8);
+      if (start === -5632) {
+        // Lower tick of the position at -128: crossing it downwards removes all liquidity
+        const offset = 12 + ((-128 - start) / 64) * 113;
+        data.writeUInt8(1, offset);
+        data.writeBigUInt64LE(liquidity, offset + 1);
+      }
+      accounts.set(getTickArrayAddress(programId, poolId, start).toBase58(), {
+        data,
+        owner: programId,
+        lamports: 0,
+        executable: false,
+      });
+    }
+
+    return {
+      getProgramAccounts: jest.fn(async () => [
+        { pubkey: poolId, account: accounts.get(poolId.toBase58())! },
+      ]),
+      getAccountInfo: jest.fn(async (key: PublicKey) => accounts.get(key.toBase58()) ?? null),
+      getMultipleAccountsInfo: jest.fn(async (keys: PublicKey[]) =>
+        keys.map((key) => accounts.get(key.toBase58()) ?? null)
+      ),
+    } as unknown as Connection;
+  }
+
+  it("quotes within the active range like a constant-liquidity pool", async () => {
+    const engine = new OrcaSwapEngine(
+      seedWhirlpool(),
+      { programId, whirlpoolId: null },
+      null,
+      idleSender,
+      silentLogger
+    );
+
+    const quote = await engine.dryRun(mintA, mintB, 1_000_000n, 100);
+
+    // 1 token in, 0.3% fee, at price 1 with L = 1e12
+    const afterFee = 997_000n;
+    const expected = (afterFee * liquidity) / (liquidity + afterFee);
+    expect(Number(expected - quote.outputAmount)).toBeLessThanOrEqual(1);
+    expect(quote.outputAmount <= expected).toBe(true);
+    expect(quote.feeBps).toBe(30);
+    expect(quote.routePath).toBe(`orca:${poolId.toBase58()}`);
+  });
+
+  it("rejects swaps that run past the liquidity in the loaded tick arrays", async () => {
+    const engine = new OrcaSwapEngine(
+      seedWhirlpool(),
+      { programId, whirlpoolId: poolId },
+      null,
+      idleSender,
+      silentLogger
+    );
+
+    // Moving the price from tick 0 to -128 takes about 6,420 tokens of A
+    await expect(engine.dryRun(mintA, mintB, 5_000_000_000n, 100)).resolves.toEqual(
+      expect.objectContaining({ priceImpactBps: expect.any(Number) })
+    );
+    await expect(engine.dryRun(mintA, mintB, 10_000_000_000n, 100)).rejects.toThrow("liquidity");
+  });
+
+  it("reports virtual reserves of the active liquidity for LP sizing", async () => {
+    const manager = new OrcaLPManager(
+      seedWhirlpool(),
+      { programId, whirlpoolId: poolId },
+      null,
+      idleSender,
+      silentLogger
+    );
+
+    // At price 1, L = 1e12 base units of each side
+    await expect(manager.getReserves(mintA)).resolves.toEqual({
+      solReserve: liquidity,
+      tokenReserve: liquidity,
+    });
+  });
+
+  it("sizes full-range liquidity from the deposit amounts", () => {
+    const { lower, upper } = getFullRangeTicks(64);
+    expect(lower).toBe(-443584);
+    expect(upper).toBe(443584);
+
+    const sqrtPrice = 1n << 64n;
+    const liquidity = getLiquidityForAmounts(sqrtPrice, lower, upper, 1_000_000n, 2_000_000n);
+    const needed = getAmountsForLiquidity(sqrtPrice, lower, upper, liquidity);
+
+    // Token A limits the position; neither side needs more than was offered
+    expect(needed.amountA).toBeLessThanOrEqual(1_000_001n);
+    expect(needed.amountA).toBeGreaterThan(999_000n);
+    expect(needed.amountB).toBeLessThanOrEqual(1_000_001n);
+  });
+});
+
+describe("RouterSwapEngine", () => {
+  const inputMint = Keypair.generate().publicKey;
+  const outputMint = Keypair.generate().publicKey;
+
+  /**
+   * Venue quoting `output` whole tokens of a 6-decimal mint
+   */
+  function venue(routePath: string, output: number, priceImpactBps: number): SwapEngine {
+    const outputAmount = BigInt(output) * 1_000_000n;
+    const quote: Quote = {
+      inputAmount: 1n,
+      outputAmount,
+      outputDecimals: 6,
+      priceImpactBps,
+      feeBps: 25,
+      routePath,
+    };
+    return {
+      dryRun: jest.fn(async () => quote),
+      swap: jest.fn(async (): Promise<SwapResult> => ({
+        signature: `sig-${routePath}`,
+        inputAmount: 1n,
+        outputAmount,
+        outputDecimals: 6,
+        actualPriceImpactBps: priceImpactBps,
+      })),
+    };
+  }
+
+  function failingVenue(message: string): SwapEngine {
+    return {
+      dryRun: jest.fn(async () => {
+        throw new Error(message);
+      }),
+      swap: jest.fn(),
+    };
+  }
+
+  it("executes on the venue with the highest net output", async () => {
+    const raydium = venue("raydium:pool", 980, 40);
+    const orca = venue("orca:pool", 995, 60);
+    const router = new RouterSwapEngine(
+      [
+        { name: "raydium", engine: raydium },
+        { name: "orca", engine: orca },
+        { name: "aggregator", engine: failingVenue("HTTP 503") },
+      ],
+      silentLogger
+    );
+
+    const result = await router.swap(inputMint, outputMint, 1n, 100);
+
+    expect(orca.swap).toHaveBeenCalledWith(inputMint, outputMint, 1n, 100);
+    expect(raydium.swap).not.toHaveBeenCalled();
+    expect(result.signature).toBe("sig-orca:pool");
+    expect(result.routePath).toBe("orca:pool");
+    expect(result.alternatives).toEqual([
+      { routePath: "raydium:pool", outputAmount: 980, priceImpactBps: 40 },
+      { routePath: "aggregator", outputAmount: null, priceImpactBps: null, error: "HTTP 503" },
+    ]);
+  });
+
+  it("breaks output ties on lower price impact", async () => {
+    const router = new RouterSwapEngine(
+      [
+        { name: "raydium", engine: venue("raydium:pool", 990, 80) },
+        { name: "orca", engine: venue("orca:pool", 990, 30) },
+      ],
+      silentLogger
+    );
+
+    const quote = await router.dryRun(inputMint, outputMint, 1n);
+
+    expect(quote.routePath).toBe("orca:pool");
+    expect(quote.alternatives?.map((alt) => alt.routePath)).toEqual(["raydium:pool"]);
+  });
+
+  it("fails when no venue can quote", async () => {
+    const router = new RouterSwapEngine(
+      [
+        { name: "raydium", engine: failingVenue("No Raydium pool found") },
+        { name: "orca", engine: failingVenue("No Orca whirlpool found") },
+      ],
+      silentLogger
+    );
+
+    await expect(router.dryRun(inputMint, outputMint, 1n)).rejects.toThrow(
+      "raydium: No Raydium pool found; orca: No Orca whirlpool found"
+    );
+  });
+});
+
+describe("AggregatorQuoteProvider", () => {
+  let server: http.Server;
+  let requests: URL[];
+  let status: number;
+
+  beforeEach(async () => {
+    requests = [];
+    status = 200;
+    server = http.createServer((req, res) => {
+      requests.push(new URL(req.url || "/", "http://localhost"));
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          inAmount: "2000000000",
+          outAmount: "19500000",
+          priceImpactPct: "0.0125",
+          routePlan: [
+            {
+              swapInfo: {
+                label: "Raydium",
+                ammKey: "amm",
+                inAmount: "2000000000",
+                feeAmount: "5000000",
+              },
+            },
+          ],
+        })
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function provider(connection: Connection = {} as Connection): AggregatorQuoteProvider {
+    const { port } = server.address() as AddressInfo;
+    return new AggregatorQuoteProvider(
+      connection,
+      { url: `http://127.0.0.1:${port}/v6`, timeoutMs: 1000 },
+      silentLogger
+    );
+  }
+
+  it("converts the aggregator response into a quote", async () => {
+    const inputMint = Keypair.generate().publicKey;
+    const outputMint = Keypair.generate().publicKey;
+    const decimals = new Map([
+      [inputMint.toBase58(), 9],
+      [outputMint.toBase58(), 6],
+    ]);
+    const connection = {
+      getAccountInfo: jest.fn(async (key: PublicKey) => {
+        const data = Buffer.alloc(82);
+        data.writeUInt8(decimals.get(key.toBase58())!, 44);
+        data.writeUInt8(1, 45); // initialized
+        return { data, owner: TOKEN_PROGRAM_ID, lamports: 0, executable: false };
+      }),
+    } as unknown as Connection;
+
+    const quote = await provider(connection).getQuote({
+      inputMint,
+      outputMint,
+      amountIn: 2_000_000_000n,
+      slippageBps: 50,
+    });
+
+    const [url] = requests;
+    expect(url.pathname).toBe("/v6/quote");
+    expect(url.searchParams.get("amount")).toBe("2000000000");
+    expect(url.searchParams.get("slippageBps")).toBe("50");
+    expect(quote).toEqual({
+      inputAmount: 2_000_000_000n,
+      outputAmount: 19_500_000n,
+      outputDecimals: 6,
+      priceImpactBps: 125,
+      feeBps: 25,
+      routePath: "aggregator:Raydium",
+    });
+  });
+
+  it("reports the HTTP status of a failed request", async () => {
+    status = 429;
+
+    await expect(provider().request("/swap", { quoteResponse: {} })).rejects.toThrow(
+      "Aggregator /swap failed: HTTP 429"
+    );
+    expect(requests[0].pathname).toBe("/v6/swap");
+  });
+});
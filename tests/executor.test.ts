@@ -0,0 +1,656 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  Connection,
+  Keypair,
+  SignatureStatus,
+  SystemInstruction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { MockTokenBurner } from "../src/services/burn";
+import { MockCoolingDistributor, SolCoolingDistributor } from "../src/services/cooling";
+import { MockLPManager, MockSwapEngine } from "../src/services/dex/engines";
+import { SimulatedPool } from "../src/services/dex/simulated-pool";
+import { Executor, FixedAllocationStrategy } from "../src/services/executor";
+import { FeeLedger } from "../src/services/fee-ledger";
+import { ActionJournal } from "../src/services/journal";
+import { PoolReservePriceOracle } from "../src/services/price-oracle";
+import { StateStore } from "../src/services/state";
+import { TransactionSender } from "../src/services/transactions";
+import { TreasuryLedger } from "../src/services/treasury";
+import {
+  AllocationAction,
+  EpochAllocation,
+  ExecutorConfig,
+  FeeEvent,
+  FeeTracker,
+  IceHealthState,
+  Logger,
+  PriceOracleConfig,
+  ProtocolConfig,
+} from "../src/types";
+import { solToLamports } from "../src/utils/amounts";
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+const health: IceHealthState = {
+  timestamp: 1700000000,
+  health: 80,
+  metrics: {
+    buybackFrequency: 1,
+    buybackCoverage: 1,
+    liquidityDepth: 1,
+    volatilityPenalty: 0,
+    timeDecay: 1,
+  },
+  status: "ALIVE",
+  lastActionTime: 0,
+  epochNumber: 1,
+};
+
+const oracleConfig: PriceOracleConfig = {
+  type: "pool",
+  twapSource: "pool",
+  twapWindowSeconds: 3600,
+  maxStalenessSeconds: 300,
+  maxConfidenceBps: 2000,
+  feed: {
+    url: "",
+    pricePath: "price",
+    timestampPath: "timestamp",
+    confidencePath: "",
+    timeoutMs: 0,
+  },
+};
+
+const coolingRecipients = [
+  { address: Keypair.generate().publicKey, weight: 3 },
+  { address: Keypair.generate().publicKey, weight: 1 },
+];
+
+describe("FixedAllocationStrategy", () => {
+  it("splits fees so the allocations sum to the total exactly", () => {
+    const allocation = new FixedAllocationStrategy().allocate(1_000_000_007n, health, {
+      buybackPct: 70,
+      lpPct: 20,
+      burnPct: 5,
+      coolingPct: 5,
+    });
+
+    expect(allocation.allocations).toEqual({
+      buyback: 700_000_005n,
+      lp: 200_000_002n,
+      burn: 50_000_000n,
+      cooling: 50_000_000n,
+    });
+    const { buyback, lp, burn, cooling } = allocation.allocations;
+    expect(buyback + lp + burn + cooling).toBe(allocation.totalFeesToAllocate);
+  });
+});
+
+describe("Executor", () => {
+  let dir: string;
+  let ledger: FeeLedger;
+  let treasury: TreasuryLedger;
+  let journal: ActionJournal;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ice-executor-"));
+    ledger = new FeeLedger(path.join(dir, "fee-ledger.json"), silentLogger);
+    treasury = new TreasuryLedger(path.join(dir, "treasury.json"), silentLogger);
+    journal = new ActionJournal(path.join(dir, "action-journal.json"), silentLogger);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Run one live epoch that spends `feesSol` as allocated by `allocationConfig`
+   * against a thin simulated pool (20 SOL deep)
+   */
+  async function runEpoch(
+    feesSol: number,
+    allocationConfig: ProtocolConfig["allocationConfig"],
+    executor: Partial<ExecutorConfig>,
+    prepare: (
+      engine: MockSwapEngine,
+      lpManager: MockLPManager,
+      burner: MockTokenBurner,
+      pool: SimulatedPool
+    ) => void = (): void => undefined
+  ): Promise<{
+    actions: AllocationAction[];
+    treasury: NonNullable<EpochAllocation["treasury"]>;
+    pool: SimulatedPool;
+    sent: TransactionInstruction[][];
+  }> {
+    const pool = new SimulatedPool(
+      {
+        solReserve: 20,
+        tokenReserve: 1_000_000,
+        tokenDecimals: 6,
+        tokenSupply: 1_000_000_000,
+        feeBps: 25,
+        externalTradesPerEpoch: 0,
+        externalTradeMaxSol: 0,
+        seed: 1,
+      },
+      silentLogger
+    );
+
+    const config = {
+      iceTokenMint: Keypair.generate().publicKey,
+      botKeypair: Keypair.generate(),
+      maxSlippageBps: 500,
+      maxPriceImpactBps: 1000,
+      allocationMode: "fixed",
+      allocationConfig,
+      executor: {
+        mode: "live",
+        epochIntervalSeconds: 0,
+        maxBudgetPerEpochSol: 10,
+        minIntervalSeconds: 0,
+        maxConsecutiveFailures: 5,
+        minBalanceToOperateSol: 0,
+        driftToleranceBps: 50,
+        buybackExecution: "single",
+        buybackSlices: 4,
+        buybackTargetImpactBps: 50,
+        buybackMaxSlices: 12,
+        ...executor,
+      },
+      cooling: { recipients: coolingRecipients, memoPurpose: "marketing" },
+    } as unknown as ProtocolConfig;
+
+    const tracker: FeeTracker = {
+      totalFeesCollected: solToLamports(feesSol),
+      pendingFees: 0n,
+      lastProcessedSignature: "",
+      lastProcessedTimestamp: 0,
+      events: [],
+    };
+    const connection = { getBalance: async (): Promise<number> => 100e9 };
+    const swapEngine = new MockSwapEngine(pool, silentLogger);
+    const lpManager = new MockLPManager(pool, silentLogger);
+    const burner = new MockTokenBurner(1_000_000_000_000_000n, silentLogger);
+    prepare(swapEngine, lpManager, burner, pool);
+    const sent: TransactionInstruction[][] = [];
+    const sender = {
+      send: async (instructions: TransactionInstruction[]): Promise<string> => {
+        sent.push(instructions);
+        return `sig-${sent.length}`;
+      },
+    } as unknown as TransactionSender;
+
+    const allocation = await new Executor(
+      config,
+      silentLogger,
+      connection as unknown as Connection,
+      swapEngine,
+      lpManager,
+      tracker,
+      ledger,
+      new PoolReservePriceOracle(lpManager, config.iceTokenMint, oracleConfig, 6),
+      burner,
+      new SolCoolingDistributor(config.cooling, config.botKeypair, sender, silentLogger),
+      treasury,
+      journal,
+      new StateStore(path.join(dir, "state.json"), silentLogger)
+    ).executeEpoch(health);
+
+    return { actions: allocation!.actions, treasury: allocation!.treasury!, pool, sent };
+  }
+
+  /**
+   * Run one live epoch that spends `feesSol` entirely on a buyback
+   */
+  async function runBuyback(
+    feesSol: number,
+    executor: Partial<ExecutorConfig>,
+    prepare?: (engine: MockSwapEngine, pool: SimulatedPool) => void
+  ): Promise<{ action: AllocationAction; pool: SimulatedPool }> {
+    const { actions, pool } = await runEpoch(
+      feesSol,
+      { buybackPct: 100, lpPct: 0, burnPct: 0, coolingPct: 0 },
+      executor,
+      prepare && ((engine, _lpManager, _burner, pool): void => prepare(engine, pool))
+    );
+    return { action: actions[0], pool };
+  }
+
+  it("rejects a single buyback whose impact exceeds the limit", async () => {
+    // 3 SOL into a 20 SOL pool moves the price ~13%
+    const { action } = await runBuyback(3, {});
+
+    expect(action.status).toBe("failed");
+    expect(action.error).toContain("Price impact too high");
+    // The failed buyback's allocation stays in the treasury
+    expect(treasury.getBalances().buyback).toBe(solToLamports(3));
+  });
+
+  it("splits a TWAP buyback into equal re-quoted slices and aggregates the fills", async () => {
+    const { action, pool } = await runBuyback(3, { buybackExecution: "twap", buybackSlices: 4 });
+
+    expect(action.status).toBe("executed");
+    expect(action.fills).toHaveLength(4);
+    expect(action.fills!.every((fill) => fill.inputLamports === 750_000_000n)).toBe(true);
+    expect(action.signature).toBeUndefined();
+
+    // Each slice buys into the price the previous one left behind
+    const outputs = action.fills!.map((fill) => fill.outputAmount);
+    expect(outputs).toEqual([...outputs].sort((a, b) => b - a));
+    expect(action.outputAmount).toBeCloseTo(
+      outputs.reduce((sum, out) => sum + out, 0),
+      6
+    );
+    expect(pool.getState().solReserve).toBeCloseTo(23, 9);
+  });
+
+  it("abandons a TWAP slice when the pool moves during the spacing", async () => {
+    const { action } = await runBuyback(
+      3,
+      { buybackExecution: "twap", buybackSlices: 3, epochIntervalSeconds: 0.03 },
+      (engine, pool) => {
+        const swap = engine.swap.bind(engine);
+        jest.spyOn(engine, "swap").mockImplementationOnce(async (...args) => {
+          const result = await swap(...args);
+          // Another trader buys while the executor waits for the next slice
+          setTimeout(() => pool.swap("buy", solToLamports(0.5)), 0);
+          return result;
+        });
+      }
+    );
+
+    expect(action.status).toBe("executed");
+    expect(action.fills).toHaveLength(1);
+    expect(action.error).toMatch(
+      /^Stopped after 1 slice\(s\): Quote drifted \d+bps before signing \(tolerance 50bps\)$/
+    );
+  });
+
+  it("sizes target-impact slices from the full quote", async () => {
+    const { action } = await runBuyback(3, {
+      buybackExecution: "target-impact",
+      buybackTargetImpactBps: 400,
+    });
+
+    // ~1,300 bps for the whole amount at 400 bps per slice
+    expect(action.status).toBe("executed");
+    expect(action.fills).toHaveLength(4);
+    expect(action.fills!.every((fill) => fill.priceImpactBps < 500)).toBe(true);
+  });
+
+  it("keeps the slices that landed when a later slice fails", async () => {
+    const { action } = await runBuyback(
+      3,
+      { buybackExecution: "twap", buybackSlices: 3 },
+      (engine) => {
+        const swap = engine.swap.bind(engine);
+        jest
+          .spyOn(engine, "swap")
+          .mockImplementationOnce(swap)
+          .mockRejectedValueOnce(new Error("Blockhash expired"));
+      }
+    );
+
+    expect(action.status).toBe("executed");
+    expect(action.fills).toHaveLength(1);
+    expect(action.fills![0].inputLamports).toBe(1_000_000_000n);
+    expect(action.error).toBe("Stopped after 1 slice(s): Blockhash expired");
+    // Only the landed slice is debited; the rest stays in the treasury
+    expect(treasury.getBalances().buyback).toBe(2_000_000_000n);
+  });
+
+  it("records fills against their pre-sign quotes", async () => {
+    const { action } = await runBuyback(1, {});
+
+    expect(action.status).toBe("executed");
+    expect(action.execution).toEqual({
+      quotedOutputAmount: action.outputAmount,
+      filledOutputAmount: action.outputAmount,
+      realizedSlippageBps: 0,
+      quotedPriceImpactBps: expect.any(Number),
+      realizedPriceImpactBps: expect.any(Number),
+      maxQuoteDriftBps: 0,
+    });
+  });
+
+  it("abandons a swap whose quote drifted before signing", async () => {
+    const { action, pool } = await runBuyback(1, {}, (engine) => {
+      const dryRun = engine.dryRun.bind(engine);
+      jest
+        .spyOn(engine, "dryRun")
+        .mockImplementationOnce(dryRun)
+        .mockImplementationOnce(async (...args) => {
+          const quote = await dryRun(...args);
+          return { ...quote, outputAmount: (quote.outputAmount * 99n) / 100n };
+        });
+    });
+
+    expect(action.status).toBe("failed");
+    expect(action.error).toBe("Quote drifted 100bps before signing (tolerance 50bps)");
+    expect(pool.getState().solReserve).toBe(20);
+  });
+
+  it("reports slippage when a fill comes in below its quote", async () => {
+    const { action } = await runBuyback(1, {}, (engine) => {
+      const swap = engine.swap.bind(engine);
+      jest.spyOn(engine, "swap").mockImplementationOnce(async (...args) => {
+        const result = await swap(...args);
+        return { ...result, outputAmount: (result.outputAmount * 98n) / 100n };
+      });
+    });
+
+    // The swap already landed, so it stays executed
+    expect(action.status).toBe("executed");
+    expect(action.execution!.realizedSlippageBps).toBe(200);
+    expect(action.execution!.filledOutputAmount).toBe(action.outputAmount);
+  });
+
+  it("buys $ice with the burn budget and burns exactly what it bought", async () => {
+    const { actions, pool } = await runEpoch(
+      1,
+      { buybackPct: 0, lpPct: 0, burnPct: 100, coolingPct: 0 },
+      {}
+    );
+
+    const [burn] = actions;
+    expect(burn.status).toBe("executed");
+    expect(burn.swapSignature).toBeDefined();
+    expect(burn.signature).toBeDefined();
+    // 20 SOL against 1,000,000 $ice
+    expect(burn.price).toMatchObject({ priceSol: 0.00002, source: "pool", stale: false });
+    expect(burn.tokenAmount).toBeCloseTo(1_000_000 - pool.getState().tokenReserve, 6);
+    expect(burn.supplyBefore).toBe(1_000_000_000);
+    expect(burn.supplyBefore! - burn.supplyAfter!).toBeCloseTo(burn.tokenAmount!, 6);
+    expect(pool.getState().solReserve).toBe(21);
+  });
+
+  it("counts the half swapped before a failed LP deposit as spent", async () => {
+    const { actions, treasury: statement } = await runEpoch(
+      2,
+      { buybackPct: 0, lpPct: 100, burnPct: 0, coolingPct: 0 },
+      {},
+      (_engine, lpManager) => {
+        jest.spyOn(lpManager, "addLiquidity").mockRejectedValueOnce(new Error("deposit failed"));
+      }
+    );
+
+    const [lp] = actions;
+    expect(lp.status).toBe("failed");
+    expect(lp.swapSignature).toBeDefined();
+    expect(lp.swapInputLamports).toBe(solToLamports(1));
+    expect(statement.spent.lp).toBe(solToLamports(1));
+    expect(statement.closing.lp).toBe(solToLamports(1));
+  });
+
+  it("counts the buy as spent when the burn after it fails", async () => {
+    const { actions, treasury: statement } = await runEpoch(
+      1,
+      { buybackPct: 0, lpPct: 0, burnPct: 100, coolingPct: 0 },
+      {},
+      (_engine, _lpManager, burner) => {
+        jest.spyOn(burner, "burn").mockRejectedValueOnce(new Error("burn failed"));
+      }
+    );
+
+    const [burn] = actions;
+    expect(burn.status).toBe("failed");
+    expect(burn.error).toMatch(/but the burn failed: burn failed$/);
+    expect(statement.spent.burn).toBe(solToLamports(1));
+    expect(statement.closing.burn).toBe(0n);
+  });
+
+  it("pays the cooling allocation to the recipients by weight with a memo", async () => {
+    const { actions, sent } = await runEpoch(
+      1,
+      { buybackPct: 0, lpPct: 0, burnPct: 0, coolingPct: 100 },
+      {}
+    );
+
+    const [cooling] = actions;
+    expect(cooling.status).toBe("executed");
+    expect(cooling.signature).toBe("sig-1");
+    expect(cooling.transfers).toEqual([
+      {
+        recipient: coolingRecipients[0].address.toBase58(),
+        lamports: 750_000_000n,
+        signature: "sig-1",
+      },
+      {
+        recipient: coolingRecipients[1].address.toBase58(),
+        lamports: 250_000_000n,
+        signature: "sig-1",
+      },
+    ]);
+
+    const [memo, ...payments] = sent[0];
+    expect(memo.data.toString("utf-8")).toBe("ICE epoch 1 cooling event: marketing (batch 1/1)");
+    expect(payments.map((ix) => SystemInstruction.decodeTransfer(ix).lamports)).toEqual([
+      750_000_000n,
+      250_000_000n,
+    ]);
+  });
+
+  it("caps the spend at the epoch budget and carries the rest to the next epoch", async () => {
+    const coolingOnly = { buybackPct: 0, lpPct: 0, burnPct: 0, coolingPct: 100 };
+
+    const first = await runEpoch(3, coolingOnly, { maxBudgetPerEpochSol: 2 });
+
+    expect(first.actions[0].amountLamports).toBe(solToLamports(2));
+    expect(first.treasury.inflow.cooling).toBe(solToLamports(3));
+    expect(first.treasury.spent.cooling).toBe(solToLamports(2));
+    expect(first.treasury.closing.cooling).toBe(solToLamports(1));
+
+    // No new fees: the carried balance is spent on its own
+    const second = await runEpoch(0, coolingOnly, { maxBudgetPerEpochSol: 2 });
+
+    expect(second.actions[0].amountLamports).toBe(solToLamports(1));
+    expect(second.treasury.opening.cooling).toBe(solToLamports(1));
+    expect(second.treasury.closing).toEqual({ buyback: 0n, lp: 0n, burn: 0n, cooling: 0n });
+  });
+
+  it("plans a dry run without settling the treasury or consuming fees", async () => {
+    ledger.record([
+      {
+        signature: "fee-1",
+        timestamp: 1700000000,
+        amountLamports: solToLamports(3),
+        source: "wallet-watcher",
+        confirmationStatus: "finalized",
+        processed: false,
+      },
+    ]);
+    const config = {
+      allocationMode: "fixed",
+      allocationConfig: { buybackPct: 0, lpPct: 0, burnPct: 0, coolingPct: 100 },
+      botKeypair: Keypair.generate(),
+      executor: {
+        mode: "dry-run",
+        maxBudgetPerEpochSol: 2,
+        minIntervalSeconds: 0,
+        maxConsecutiveFailures: 5,
+        minBalanceToOperateSol: 0,
+      },
+    } as unknown as ProtocolConfig;
+    const connection = { getBalance: async (): Promise<number> => 100e9 };
+    const unused = {} as never;
+    const openEpoch = jest.spyOn(journal, "openEpoch");
+
+    const allocation = await new Executor(
+      config,
+      silentLogger,
+      connection as unknown as Connection,
+      unused,
+      unused,
+      ledger.createTracker(),
+      ledger,
+      unused,
+      unused,
+      new MockCoolingDistributor(
+        { recipients: [{ address: Keypair.generate().publicKey, weight: 1 }], memoPurpose: "" },
+        silentLogger
+      ),
+      treasury,
+      journal,
+      new StateStore(path.join(dir, "state.json"), silentLogger)
+    ).executeEpoch(health);
+
+    expect(allocation!.treasury!.spent.cooling).toBe(solToLamports(2));
+    expect(allocation!.treasury!.closing.cooling).toBe(solToLamports(1));
+    const reloaded = new TreasuryLedger(path.join(dir, "treasury.json"), silentLogger);
+    expect(reloaded.getStatementCount()).toBe(0);
+    expect(ledger.getUnprocessed()).toHaveLength(1);
+    expect(ledger.createTracker().totalFeesCollected).toBe(solToLamports(3));
+    expect(openEpoch).not.toHaveBeenCalled();
+  });
+
+  describe("recovery", () => {
+    const fee: FeeEvent = {
+      signature: "fee-1",
+      timestamp: 1700000000,
+      amountLamports: solToLamports(3),
+      source: "wallet-watcher",
+      confirmationStatus: "finalized",
+      processed: false,
+    };
+
+    /**
+     * Executor restarted with an interrupted epoch in the journal: a 2 SOL
+     * buyback that returned, then a 1 SOL cooling event cut off after
+     * sending "cooling-sig". The chain is past that transaction's blockhash.
+     */
+    function restart(landed: string[]): { executor: Executor; tracker: FeeTracker } {
+      ledger.record([fee]);
+      const allocations = {
+        buyback: solToLamports(2),
+        lp: 0n,
+        burn: 0n,
+        cooling: solToLamports(1),
+      };
+      journal.openEpoch({
+        epochNumber: 1,
+        startedAt: 1700000000,
+        treasuryStatements: 0,
+        feesToProcess: solToLamports(3),
+        feeEvents: ["fee-1"],
+        inflow: allocations,
+        planned: allocations,
+      });
+      journal.recordIntent("buyback", solToLamports(2));
+      journal.recordOutcome(
+        { type: "buyback", amountLamports: solToLamports(2), status: "executed" },
+        solToLamports(2)
+      );
+      journal.recordIntent("cooling-event", solToLamports(1));
+      journal.recordSubmission({ signature: "cooling-sig", lastValidBlockHeight: 150 });
+
+      const connection = {
+        getBlockHeight: async (): Promise<number> => 200,
+        getSignatureStatuses: async (
+          signatures: string[]
+        ): Promise<{ value: (SignatureStatus | null)[] }> => ({
+          value: signatures.map((signature) =>
+            landed.includes(signature)
+              ? { slot: 1, confirmations: 1, err: null, confirmationStatus: "confirmed" }
+              : null
+          ),
+        }),
+      };
+      const config = {
+        allocationMode: "fixed",
+        transactions: { commitment: "confirmed", confirmPollMs: 0 },
+      } as unknown as ProtocolConfig;
+      const tracker = ledger.createTracker();
+      const unused = {} as never;
+
+      const executor = new Executor(
+        config,
+        silentLogger,
+        connection as unknown as Connection,
+        unused,
+        unused,
+        tracker,
+        ledger,
+        unused,
+        unused,
+        unused,
+        new TreasuryLedger(path.join(dir, "treasury.json"), silentLogger),
+        new ActionJournal(path.join(dir, "action-journal.json"), silentLogger),
+        new StateStore(path.join(dir, "state.json"), silentLogger)
+      );
+      return { executor, tracker };
+    }
+
+    it("counts an interrupted action whose transaction landed as spent", async () => {
+      const { executor, tracker } = restart(["cooling-sig"]);
+
+      await executor.recover();
+
+      const reloaded = new TreasuryLedger(path.join(dir, "treasury.json"), silentLogger);
+      expect(reloaded.getBalances()).toEqual({ buyback: 0n, lp: 0n, burn: 0n, cooling: 0n });
+      expect(tracker.totalFeesCollected).toBe(0n);
+      expect(ledger.getUnprocessed()).toHaveLength(0);
+      expect(
+        new ActionJournal(path.join(dir, "action-journal.json"), silentLogger).getOpenEpoch()
+      ).toBeNull();
+    });
+
+    it("keeps the allocation of an interrupted action that never landed", async () => {
+      const { executor } = restart([]);
+
+      await executor.recover();
+      // A second recovery finds nothing left to settle
+      await executor.recover();
+
+      const reloaded = new TreasuryLedger(path.join(dir, "treasury.json"), silentLogger);
+      expect(reloaded.getBalances().cooling).toBe(solToLamports(1));
+      expect(reloaded.getStatementCount()).toBe(1);
+      expect(ledger.getUnprocessed()).toHaveLength(0);
+    });
+  });
+
+  it("keeps a tripped circuit breaker across restarts", async () => {
+    const config = {
+      allocationMode: "fixed",
+      botKeypair: Keypair.generate(),
+      executor: { minIntervalSeconds: 0, minBalanceToOperateSol: 1_000, maxConsecutiveFailures: 1 },
+    } as unknown as ProtocolConfig;
+    const connection = { getBalance: jest.fn(async (): Promise<number> => 100e9) };
+    const unused = {} as never;
+
+    function start(): Executor {
+      return new Executor(
+        config,
+        silentLogger,
+        connection as unknown as Connection,
+        unused,
+        unused,
+        ledger.createTracker(),
+        ledger,
+        unused,
+        unused,
+        unused,
+        treasury,
+        journal,
+        new StateStore(path.join(dir, "state.json"), silentLogger)
+      );
+    }
+
+    // The bot balance is below the minimum, so the first epoch trips the breaker
+    await expect(start().executeEpoch(health)).resolves.toBeNull();
+
+    const restarted = start();
+    expect(restarted.getState()).toMatchObject({ epochNumber: 1, circuitBreakerActive: true });
+    await expect(restarted.executeEpoch(health)).resolves.toBeNull();
+    expect(connection.getBalance).toHaveBeenCalledTimes(1);
+    expect(restarted.getState().epochNumber).toBe(2);
+  });
+});
@@ -0,0 +1,256 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Connection } from "@solana/web3.js";
+import { FeeCollector } from "../src/services/fee-collector";
+import { FeeLedger } from "../src/services/fee-ledger";
+import { CompositeFeeSource, FeeSource } from "../src/services/fee-sources";
+import { FeeEvent, Logger, ProtocolConfig } from "../src/types";
+import { solToLamports } from "../src/utils/amounts";
+
+const SOL = 1_000_000_000n;
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+class QueuedFeeSource extends FeeSource {
+  queue: FeeEvent[][] = [];
+
+  async detect(): Promise<FeeEvent[]> {
+    return this.queue.shift() || [];
+  }
+}
+
+function feeEvent(
+  signature: string,
+  amountSol: number,
+  confirmationStatus: FeeEvent["confirmationStatus"]
+): FeeEvent {
+  return {
+    signature,
+    timestamp: 1700000000,
+    amountLamports: solToLamports(amountSol),
+    source: "wallet-watcher",
+    confirmationStatus,
+    processed: false,
+  };
+}
+
+describe("FeeCollector", () => {
+  const config = {
+    feeSource: "wallet-watcher",
+    feePollIntervalMs: 1000,
+    feeConfirmationDepth: 32,
+    feeDropTimeoutSeconds: 300,
+    feeClassification: {
+      creatorFeeProgramIds: [],
+      internalSenders: ["our-treasury"],
+      ignoredSenders: [],
+      minAmountSol: 0.001,
+    },
+  } as unknown as ProtocolConfig;
+
+  let dir: string;
+  let ledger: FeeLedger;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ice-collector-"));
+    ledger = new FeeLedger(path.join(dir, "fee-ledger.json"), silentLogger);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keeps non-finalized fees pending until they reach the confirmation depth", async () => {
+    const confirmations = new Map<string, number>([["pending", 5]]);
+    const connection = {
+      getSignatureStatuses: jest.fn(async (signatures: string[]) => ({
+        context: { slot: 1 },
+        value: signatures.map((sig) => ({
+          slot: 1,
+          confirmations: confirmations.get(sig) ?? 0,
+          err: null,
+          confirmationStatus: "confirmed",
+        })),
+      })),
+    };
+
+    const source = new QueuedFeeSource();
+    source.queue.push([feeEvent("final", 1, "finalized"), feeEvent("pending", 2, "processed")]);
+
+    const tracker = ledger.createTracker();
+    const collector = new FeeCollector(
+      config,
+      connection as unknown as Connection,
+      source,
+      ledger,
+      tracker,
+      silentLogger
+    );
+
+    await collector.poll();
+    expect(tracker.totalFeesCollected).toBe(SOL);
+    expect(tracker.pendingFees).toBe(2n * SOL);
+    expect(tracker.events).toHaveLength(2);
+
+    confirmations.set("pending", 40);
+    await collector.poll();
+    expect(tracker.totalFeesCollected).toBe(3n * SOL);
+    expect(tracker.pendingFees).toBe(0n);
+    expect(ledger.getUnprocessed().every((e) => e.confirmationStatus === "finalized")).toBe(true);
+  });
+
+  it("rolls back pending fees whose transaction failed or was dropped", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const statuses: Record<string, unknown> = {
+      failed: { slot: 1, confirmations: 3, err: { InstructionError: [0, "Custom"] } },
+      dropped: null,
+      lagging: null,
+    };
+    const connection = {
+      getSignatureStatuses: jest.fn(async (signatures: string[]) => ({
+        context: { slot: 1 },
+        value: signatures.map((sig) => statuses[sig]),
+      })),
+    };
+
+    const source = new QueuedFeeSource();
+    source.queue.push([
+      feeEvent("failed", 1, "confirmed"),
+      { ...feeEvent("dropped", 2, "processed"), timestamp: now - 600 },
+      { ...feeEvent("lagging", 4, "processed"), timestamp: now },
+    ]);
+
+    const tracker = ledger.createTracker();
+    const collector = new FeeCollector(
+      config,
+      connection as unknown as Connection,
+      source,
+      ledger,
+      tracker,
+      silentLogger
+    );
+
+    await collector.poll();
+
+    expect(tracker.pendingFees).toBe(4n * SOL);
+    expect(tracker.events.map((e) => e.signature)).toEqual(["lagging"]);
+    expect(ledger.getDebits()).toEqual([
+      expect.objectContaining({ signature: "failed", amountLamports: SOL, reason: "failed" }),
+      expect.objectContaining({
+        signature: "dropped",
+        amountLamports: 2n * SOL,
+        reason: "dropped",
+      }),
+    ]);
+
+    const errors = collector.takeErrors();
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain("failed");
+    expect(collector.takeErrors()).toEqual([]);
+
+    // Reverted credits stay out of the tracker after a restart
+    const reopened = new FeeLedger(path.join(dir, "fee-ledger.json"), silentLogger);
+    expect(reopened.createTracker().pendingFees).toBe(4n * SOL);
+  });
+
+  it("does not credit a signature the ledger already holds", async () => {
+    const source = new QueuedFeeSource();
+    source.queue.push([feeEvent("a", 1, "finalized")], [feeEvent("a", 1, "finalized")]);
+
+    const tracker = ledger.createTracker();
+    const collector = new FeeCollector(
+      config,
+      {} as Connection,
+      source,
+      ledger,
+      tracker,
+      silentLogger
+    );
+
+    await collector.poll();
+    await collector.poll();
+    expect(tracker.totalFeesCollected).toBe(SOL);
+  });
+
+  it("credits only creator fees and reports the other inflows by category", async () => {
+    const source = new QueuedFeeSource();
+    source.queue.push([
+      feeEvent("fee", 1, "finalized"),
+      { ...feeEvent("top-up", 5, "finalized"), sender: "our-treasury", programIds: [] },
+      feeEvent("dust", 0.0001, "finalized"),
+    ]);
+
+    const tracker = ledger.createTracker();
+    const collector = new FeeCollector(
+      config,
+      {} as Connection,
+      source,
+      ledger,
+      tracker,
+      silentLogger
+    );
+
+    await collector.poll();
+
+    expect(tracker.totalFeesCollected).toBe(SOL);
+    expect(tracker.events.map((e) => e.signature)).toEqual(["fee"]);
+    expect(ledger.has("top-up")).toBe(true);
+
+    const breakdown = collector.takeFeeBreakdown();
+    expect(breakdown["creator-fee"]).toEqual({ count: 1, amountLamports: SOL });
+    expect(breakdown["internal-transfer"]).toEqual({ count: 1, amountLamports: 5n * SOL });
+    expect(breakdown.ignored.count).toBe(1);
+    expect(new FeeLedger(path.join(dir, "fee-ledger.json"), silentLogger).createTracker()).toEqual(
+      expect.objectContaining({ totalFeesCollected: SOL })
+    );
+  });
+
+  it("classifies composite events by the sender the wallet watcher saw", async () => {
+    const watcher = new QueuedFeeSource();
+    watcher.queue.push([
+      { ...feeEvent("spam", 2, "finalized"), sender: "spammer", programIds: [] },
+      { ...feeEvent("fee", 1, "finalized"), sender: "trader", programIds: [] },
+    ]);
+    const api = new QueuedFeeSource();
+    api.queue.push([
+      { ...feeEvent("spam", 2, "finalized"), source: "api" },
+      { ...feeEvent("fee", 1, "finalized"), source: "api" },
+    ]);
+    const composite = new CompositeFeeSource(
+      [
+        { name: "wallet-watcher", source: watcher },
+        { name: "api", source: api },
+      ],
+      2,
+      10,
+      60000,
+      silentLogger
+    );
+
+    const tracker = ledger.createTracker();
+    const collector = new FeeCollector(
+      {
+        ...config,
+        feeSource: "composite",
+        feeClassification: { ...config.feeClassification, ignoredSenders: ["spammer"] },
+      },
+      {} as Connection,
+      composite,
+      ledger,
+      tracker,
+      silentLogger
+    );
+
+    await collector.poll();
+
+    expect(tracker.totalFeesCollected).toBe(SOL);
+    expect(tracker.events.map((e) => e.signature)).toEqual(["fee"]);
+    expect(collector.takeFeeBreakdown().ignored).toEqual({ count: 1, amountLamports: 2n * SOL });
+  });
+});
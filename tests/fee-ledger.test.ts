@@ -0,0 +1,88 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FeeLedger } from "../src/services/fee-ledger";
+import { FeeEvent, Logger } from "../src/types";
+import { solToLamports } from "../src/utils/amounts";
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+function feeEvent(signature: string, amountSol: number): FeeEvent {
+  return {
+    signature,
+    timestamp: 1700000000,
+    amountLamports: solToLamports(amountSol),
+    source: "wallet-watcher",
+    confirmationStatus: "finalized",
+    processed: false,
+  };
+}
+
+describe("FeeLedger", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ice-ledger-"));
+    file = path.join(dir, "fee-ledger.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("credits each signature exactly once across restarts", () => {
+    const ledger = new FeeLedger(file, silentLogger);
+    expect(ledger.record([feeEvent("a", 1), feeEvent("b", 2)])).toHaveLength(2);
+
+    const reopened = new FeeLedger(file, silentLogger);
+    const added = reopened.record([feeEvent("b", 2), feeEvent("c", 3)]);
+
+    expect(added.map((e) => e.signature)).toEqual(["c"]);
+    expect(reopened.createTracker().totalFeesCollected).toBe(6_000_000_000n);
+  });
+
+  it("persists the source cursors with the events", () => {
+    const ledger = new FeeLedger(file, silentLogger);
+    ledger.record([feeEvent("a", 1)], { "wallet-watcher": "a" });
+
+    expect(new FeeLedger(file, silentLogger).getCursors()).toEqual({ "wallet-watcher": "a" });
+  });
+
+  it("marks only the consumed events as processed", () => {
+    const ledger = new FeeLedger(file, silentLogger);
+    ledger.record([feeEvent("a", 1), feeEvent("b", 2)]);
+    ledger.markProcessed(["a"]);
+
+    const tracker = new FeeLedger(file, silentLogger).createTracker();
+    expect(tracker.totalFeesCollected).toBe(2_000_000_000n);
+    expect(tracker.lastProcessedSignature).toBe("a");
+    expect(tracker.events.find((e) => e.signature === "b")?.processed).toBe(false);
+  });
+
+  it("stores amounts as lamport strings and reads SOL amounts from version 1 files", () => {
+    const legacy = { ...feeEvent("old", 0), amountLamports: undefined, amountSol: 0.1 };
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ version: 1, cursors: {}, events: [legacy], debits: [] }),
+      "utf-8"
+    );
+
+    const ledger = new FeeLedger(file, silentLogger);
+    expect(ledger.getEvents()[0].amountLamports).toBe(100_000_000n);
+
+    ledger.record([feeEvent("new", 0.2)]);
+    const saved = JSON.parse(fs.readFileSync(file, "utf-8"));
+    expect(saved.version).toBe(2);
+    expect(saved.events.map((e: { amountLamports: string }) => e.amountLamports)).toEqual([
+      "100000000",
+      "200000000",
+    ]);
+    expect(new FeeLedger(file, silentLogger).createTracker().totalFeesCollected).toBe(300_000_000n);
+  });
+});
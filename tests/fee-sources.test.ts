@@ -0,0 +1,593 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { Connection, Keypair, MessageAccountKeys, PublicKey } from "@solana/web3.js";
+import { WebSocketServer } from "ws";
+import {
+  ApiFeeSource,
+  CompositeFeeSource,
+  FeeSource,
+  MockFeeSource,
+  StreamingFeeSource,
+  WalletWatcherFeeSource,
+} from "../src/services/fee-sources";
+import { backfillFeeHistory } from "../src/services/fee-sources/backfill";
+import { FeeClassifier } from "../src/services/fee-sources/classifier";
+import { FeeLedger } from "../src/services/fee-ledger";
+import { FeeApiConfig, FeeEvent, FeeMockConfig, Logger } from "../src/types";
+import { lamportsToSol, solToLamports } from "../src/utils/amounts";
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+interface FakeTx {
+  signature: string;
+  keys: PublicKey[];
+  pre: number[];
+  post: number[];
+}
+
+/**
+ * Minimal stand-in for the RPC methods used by the wallet watcher.
+ * History is kept newest-first, like getSignaturesForAddress returns it.
+ */
+class FakeConnection {
+  history: FakeTx[] = [];
+  pageRequests = 0;
+
+  push(tx: FakeTx): void {
+    this.history.unshift(tx);
+  }
+
+  async getSignaturesForAddress(
+    _address: PublicKey,
+    options: { before?: string; until?: string; limit?: number }
+  ): Promise<{ signature: string; slot: number; err: null; memo: null }[]> {
+    this.pageRequests++;
+    let start = 0;
+    if (options.before) {
+      start = this.history.findIndex((tx) => tx.signature === options.before) + 1;
+    }
+
+    const page = [];
+    for (let i = start; i < this.history.length && page.length < (options.limit ?? 1000); i++) {
+      if (this.history[i].signature === options.until) {
+        break;
+      }
+      page.push({ signature: this.history[i].signature, slot: i, err: null, memo: null });
+    }
+    return page;
+  }
+
+  async getTransaction(signature: string): Promise<unknown> {
+    const tx = this.history.find((t) => t.signature === signature);
+    if (!tx) {
+      return null;
+    }
+    return {
+      blockTime: 1700000000,
+      transaction: {
+        message: {
+          getAccountKeys: () => new MessageAccountKeys(tx.keys),
+          compiledInstructions: [],
+        },
+      },
+      meta: { preBalances: tx.pre, postBalances: tx.post, loadedAddresses: undefined },
+    };
+  }
+
+  async getSignatureStatus(): Promise<unknown> {
+    return { value: { confirmations: null, confirmationStatus: "finalized", err: null } };
+  }
+}
+
+describe("MockFeeSource", () => {
+  async function run(config: FeeMockConfig, ticks: number): Promise<FeeEvent[][]> {
+    const source = new MockFeeSource(silentLogger, config);
+    const perTick: FeeEvent[][] = [];
+    for (let i = 0; i < ticks; i++) {
+      perTick.push(await source.detect());
+    }
+    return perTick;
+  }
+
+  const base: FeeMockConfig = { scenario: "steady", seed: 7, csvPath: "", whaleDay: 1 };
+
+  it("produces the same fees for the same seed", async () => {
+    const strip = (ticks: FeeEvent[][]): [string, bigint][][] =>
+      ticks.map((events) => events.map((e): [string, bigint] => [e.signature, e.amountLamports]));
+
+    const first = await run({ ...base, scenario: "bursty" }, 48);
+    const second = await run({ ...base, scenario: "bursty" }, 48);
+
+    expect(strip(first)).toEqual(strip(second));
+    expect(first.flat().length).toBeGreaterThan(0);
+  });
+
+  it("concentrates large fees on the whale day", async () => {
+    const ticks = await run({ ...base, scenario: "whale-day" }, 72);
+    const daySum = (day: number): number =>
+      ticks
+        .slice(day * 24, (day + 1) * 24)
+        .flat()
+        .reduce((sum, e) => sum + lamportsToSol(e.amountLamports), 0);
+
+    expect(daySum(1)).toBeGreaterThan(10 * Math.max(daySum(0), daySum(2)));
+  });
+
+  it("replays fees from a CSV file at their tick", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ice-mock-"));
+    const csvPath = path.join(dir, "fees.csv");
+    fs.writeFileSync(csvPath, "tick,amount_sol\n0,1.5\n2,0.25\n2,0.75\n");
+
+    try {
+      const ticks = await run({ ...base, scenario: "replay", csvPath }, 4);
+      expect(ticks.map((events) => events.map((e) => e.amountLamports))).toEqual([
+        [1_500_000_000n],
+        [],
+        [250_000_000n, 750_000_000n],
+        [],
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("WalletWatcherFeeSource", () => {
+  const feeWallet = Keypair.generate().publicKey;
+  const payer = Keypair.generate().publicKey;
+
+  function inflow(signature: string, lamports: number): FakeTx {
+    // Fee wallet deliberately sits at index 1, after the payer
+    return {
+      signature,
+      keys: [payer, feeWallet],
+      pre: [10_000_000_000, 0],
+      post: [10_000_000_000 - lamports, lamports],
+    };
+  }
+
+  it("reads the fee wallet balance change from its real account index", async () => {
+    const connection = new FakeConnection();
+    connection.push(inflow("sig-1", 1_500_000_000));
+
+    const source = new WalletWatcherFeeSource(
+      connection as unknown as Connection,
+      feeWallet,
+      silentLogger,
+      0
+    );
+    const events = await source.detect();
+
+    expect(events).toHaveLength(1);
+    expect(events[0].amountLamports).toBe(1_500_000_000n);
+    expect(events[0].confirmationStatus).toBe("finalized");
+  });
+
+  it("pages through a gap larger than one page and returns events oldest-first", async () => {
+    const connection = new FakeConnection();
+    connection.push(inflow("sig-0", 1_000_000_000));
+
+    const source = new WalletWatcherFeeSource(
+      connection as unknown as Connection,
+      feeWallet,
+      silentLogger,
+      0,
+      32,
+      2
+    );
+    await source.detect();
+
+    for (let i = 1; i <= 5; i++) {
+      connection.push(inflow(`sig-${i}`, i * 100_000_000));
+    }
+
+    connection.pageRequests = 0;
+    const events = await source.detect();
+
+    expect(events.map((e) => e.signature)).toEqual(["sig-1", "sig-2", "sig-3", "sig-4", "sig-5"]);
+    expect(connection.pageRequests).toBe(3);
+
+    // Nothing new since the cursor
+    expect(await source.detect()).toEqual([]);
+  });
+
+  it("walks history backwards page by page without moving the live cursor", async () => {
+    const connection = new FakeConnection();
+    for (let i = 1; i <= 3; i++) {
+      connection.push(inflow(`sig-${i}`, i * 100_000_000));
+    }
+
+    const source = new WalletWatcherFeeSource(
+      connection as unknown as Connection,
+      feeWallet,
+      silentLogger,
+      0,
+      32,
+      2
+    );
+
+    const first = await source.fetchHistoryPage(undefined, {});
+    expect(first.events.map((e) => e.signature)).toEqual(["sig-2", "sig-3"]);
+    expect(first).toEqual(
+      expect.objectContaining({ newestSignature: "sig-3", nextBefore: "sig-2", done: false })
+    );
+
+    const second = await source.fetchHistoryPage(first.nextBefore!, {});
+    expect(second.events.map((e) => e.signature)).toEqual(["sig-1"]);
+    expect(second.done).toBe(true);
+    expect(source.getCursors()).toEqual({});
+  });
+
+  it("backfills only below the live cursor, leaving newer fees for the watcher", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ice-backfill-"));
+    try {
+      const ledger = new FeeLedger(path.join(dir, "fee-ledger.json"), silentLogger);
+      const connection = new FakeConnection();
+      for (let i = 1; i <= 4; i++) {
+        connection.push(inflow(`sig-${i}`, i * 100_000_000));
+      }
+      // The live watcher has read up to sig-2; sig-3 and sig-4 are still unread
+      ledger.record([], { "wallet-watcher": "sig-2" });
+
+      const createWatcher = (): WalletWatcherFeeSource =>
+        new WalletWatcherFeeSource(
+          connection as unknown as Connection,
+          feeWallet,
+          silentLogger,
+          0,
+          32,
+          2
+        );
+      const classifier = new FeeClassifier({
+        creatorFeeProgramIds: [],
+        internalSenders: [],
+        ignoredSenders: [],
+        minAmountSol: 0,
+      });
+
+      await backfillFeeHistory(createWatcher(), ledger, classifier, {});
+
+      expect(ledger.getEvents().map((e) => [e.signature, e.processed])).toEqual([["sig-1", true]]);
+      expect(ledger.getCursors()["wallet-watcher"]).toBe("sig-2");
+
+      const live = createWatcher();
+      live.restoreCursors(ledger.getCursors());
+      const added = ledger.record(await live.detect());
+
+      expect(added.map((e) => e.signature)).toEqual(["sig-3", "sig-4"]);
+      expect(ledger.getUnprocessed().map((e) => e.signature)).toEqual(["sig-3", "sig-4"]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("StreamingFeeSource", () => {
+  const feeWallet = Keypair.generate().publicKey;
+  const streamedEvent: FeeEvent = {
+    signature: "streamed-sig",
+    timestamp: 1700000000,
+    amountLamports: 750_000_000n,
+    source: "wallet-watcher",
+    confirmationStatus: "confirmed",
+    processed: false,
+  };
+
+  function stubWatcher(): { poll: jest.Mock; detect: jest.Mock } {
+    return {
+      poll: jest.fn().mockResolvedValue([streamedEvent]),
+      detect: jest.fn().mockResolvedValue([]),
+    };
+  }
+
+  function waitFor(predicate: () => boolean): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const started = Date.now();
+      const timer = setInterval(() => {
+        if (predicate()) {
+          clearInterval(timer);
+          resolve();
+        } else if (Date.now() - started > 2000) {
+          clearInterval(timer);
+          reject(new Error("Timed out"));
+        }
+      }, 10);
+    });
+  }
+
+  it("polls the watcher as soon as a log notification arrives", async () => {
+    const server = new WebSocketServer({ port: 0 });
+    const subscriptions: unknown[] = [];
+
+    server.on("connection", (socket) => {
+      socket.on("message", (raw) => {
+        const request = JSON.parse(raw.toString());
+        subscriptions.push(request.params[0]);
+        socket.send(JSON.stringify({ jsonrpc: "2.0", id: request.id, result: 42 }));
+        socket.send(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            method: "logsNotification",
+            params: { subscription: 42, result: { value: { signature: "x", err: null } } },
+          })
+        );
+      });
+    });
+
+    const port = (server.address() as AddressInfo).port;
+    const watcher = stubWatcher();
+    const source = new StreamingFeeSource(
+      `ws://127.0.0.1:${port}`,
+      feeWallet,
+      watcher as unknown as WalletWatcherFeeSource,
+      silentLogger
+    );
+
+    const received: FeeEvent[] = [];
+    source.onEvents((events) => received.push(...events));
+    source.start();
+
+    try {
+      await waitFor(() => received.length > 0);
+      expect(subscriptions).toEqual([{ mentions: [feeWallet.toBase58()] }]);
+      expect(source.isConnected()).toBe(true);
+
+      const detected = await source.detect();
+      expect(detected.map((e) => e.signature)).toContain("streamed-sig");
+      expect(watcher.detect).not.toHaveBeenCalled();
+    } finally {
+      source.stop();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("falls back to interval polling while the socket is down", async () => {
+    const watcher = stubWatcher();
+    const source = new StreamingFeeSource(
+      "ws://127.0.0.1:1",
+      feeWallet,
+      watcher as unknown as WalletWatcherFeeSource,
+      silentLogger,
+      10,
+      20
+    );
+
+    try {
+      await source.detect();
+      expect(source.isConnected()).toBe(false);
+      expect(watcher.detect).toHaveBeenCalledTimes(1);
+    } finally {
+      source.stop();
+    }
+  });
+});
+
+describe("ApiFeeSource", () => {
+  let server: http.Server;
+  let requests: { url: string; auth?: string }[];
+  let failuresBeforeSuccess: number;
+
+  const pages: Record<string, unknown> = {
+    "": {
+      result: {
+        items: [
+          { sig: "api-1", ts: 1700000000, lamports: 2_000_000_000, status: "finalized" },
+          { sig: "", ts: 1700000001, lamports: 1 },
+        ],
+        next: "page-2",
+      },
+    },
+    "page-2": {
+      result: {
+        items: [{ sig: "api-2", ts: "2023-11-14T22:13:20Z", lamports: "500000000" }],
+        next: null,
+      },
+    },
+  };
+
+  beforeEach(async () => {
+    requests = [];
+    failuresBeforeSuccess = 0;
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url || "/", "http://localhost");
+      requests.push({ url: url.search, auth: req.headers["x-api-key"] as string | undefined });
+
+      if (failuresBeforeSuccess > 0) {
+        failuresBeforeSuccess--;
+        res.writeHead(503).end();
+        return;
+      }
+
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(pages[url.searchParams.get("after") || ""]));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function apiConfig(): FeeApiConfig {
+    const { port } = server.address() as AddressInfo;
+    return {
+      url: `http://127.0.0.1:${port}/fees`,
+      authHeader: "X-Api-Key",
+      authToken: "secret",
+      timeoutMs: 1000,
+      maxRetries: 2,
+      retryBaseMs: 1,
+      pageSize: 2,
+      mapping: {
+        recordsPath: "result.items",
+        nextCursorPath: "result.next",
+        cursorParam: "after",
+        limitParam: "count",
+        signatureField: "sig",
+        timestampField: "ts",
+        amountField: "lamports",
+        amountUnit: "lamports",
+        statusField: "status",
+      },
+    };
+  }
+
+  it("follows cursors and maps valid records into fee events", async () => {
+    const source = new ApiFeeSource(apiConfig(), silentLogger);
+    const events = await source.detect();
+
+    expect(events).toEqual([
+      expect.objectContaining({
+        signature: "api-1",
+        amountLamports: 2_000_000_000n,
+        confirmationStatus: "finalized",
+      }),
+      expect.objectContaining({
+        signature: "api-2",
+        amountLamports: 500_000_000n,
+        timestamp: 1700000000,
+        confirmationStatus: "processed",
+      }),
+    ]);
+    expect(requests.map((r) => r.url)).toEqual(["?count=2", "?count=2&after=page-2"]);
+    expect(requests.every((r) => r.auth === "secret")).toBe(true);
+    expect(source.getCursors()).toEqual({ api: "page-2" });
+  });
+
+  it("retries transient server errors with backoff", async () => {
+    failuresBeforeSuccess = 2;
+    const source = new ApiFeeSource(apiConfig(), silentLogger);
+    source.restoreCursors({ api: "page-2" });
+
+    const events = await source.detect();
+
+    expect(events.map((e) => e.signature)).toEqual(["api-2"]);
+    expect(requests).toHaveLength(3);
+  });
+});
+
+describe("CompositeFeeSource", () => {
+  class StaticFeeSource extends FeeSource {
+    constructor(private events: FeeEvent[]) {
+      super();
+    }
+
+    async detect(): Promise<FeeEvent[]> {
+      return this.events;
+    }
+  }
+
+  /**
+   * Source that returns one queued batch per poll and keeps its last
+   * signature as its cursor
+   */
+  class PagedFeeSource extends FeeSource {
+    queue: FeeEvent[][] = [];
+    private last = "";
+
+    constructor(private cursorKey: string) {
+      super();
+    }
+
+    async detect(): Promise<FeeEvent[]> {
+      const events = this.queue.shift() ?? [];
+      if (events.length > 0) {
+        this.last = events[events.length - 1].signature;
+      }
+      return events;
+    }
+
+    getCursors(): Record<string, string> {
+      return this.last ? { [this.cursorKey]: this.last } : {};
+    }
+
+    restoreCursors(cursors: Record<string, string>): void {
+      this.last = cursors[this.cursorKey] ?? this.last;
+    }
+  }
+
+  function observed(signature: string, amountSol: number): FeeEvent {
+    return {
+      signature,
+      timestamp: 1700000000,
+      amountLamports: solToLamports(amountSol),
+      source: "wallet-watcher",
+      confirmationStatus: "finalized",
+      processed: false,
+    };
+  }
+
+  it("credits only signatures that reach quorum within tolerance", async () => {
+    const composite = new CompositeFeeSource(
+      [
+        { name: "wallet-watcher", source: new StaticFeeSource([observed("a", 1), observed("b", 1)]) },
+        { name: "api", source: new StaticFeeSource([observed("a", 1.0005), observed("b", 9)]) },
+        { name: "mock", source: new StaticFeeSource([observed("a", 1.0001)]) },
+      ],
+      2,
+      10,
+      60000,
+      silentLogger
+    );
+
+    const events = await composite.detect();
+
+    expect(events).toEqual([
+      expect.objectContaining({
+        signature: "a",
+        amountLamports: 1_000_000_000n,
+        source: "composite",
+      }),
+    ]);
+    expect(await composite.detect()).toEqual([]);
+
+    const log = composite.takeReconciliationLog();
+    expect(log).toEqual([
+      expect.objectContaining({
+        signature: "b",
+        reason: "amount-mismatch",
+        amountsBySource: { "wallet-watcher": 1, api: 9 },
+        creditedAmountSol: null,
+      }),
+    ]);
+    expect(composite.takeReconciliationLog()).toEqual([]);
+  });
+
+  it("holds a child's cursor back while its events wait for quorum", async () => {
+    const watcher = new PagedFeeSource("wallet-watcher");
+    const api = new PagedFeeSource("api");
+    const composite = new CompositeFeeSource(
+      [
+        { name: "wallet-watcher", source: watcher },
+        { name: "api", source: api },
+      ],
+      2,
+      10,
+      60000,
+      silentLogger
+    );
+    composite.restoreCursors({ "wallet-watcher": "old", api: "old" });
+
+    watcher.queue.push([observed("a", 1)]);
+    api.queue.push([observed("z", 1)]);
+    await composite.detect();
+
+    // "a" and "z" were each seen by one source only; a restart must fetch them again
+    expect(composite.getCursors()).toEqual({ "wallet-watcher": "old", api: "old" });
+
+    api.queue.push([observed("a", 1)]);
+    watcher.queue.push([observed("z", 1)]);
+    const events = await composite.detect();
+
+    expect(events.map((event) => event.signature).sort()).toEqual(["a", "z"]);
+    expect(composite.getCursors()).toEqual({ "wallet-watcher": "z", api: "a" });
+  });
+});
@@ -1,8 +1,13 @@
+import { PublicKey } from "@solana/web3.js";
 import { IceHealthEngine, HealthMetricsInput } from "../src/services/ice-health/engine";
-import { ProtocolConfig } from "../src/types";
-import { createLogger } from "../src/utils/logger";
+import { Logger, ProtocolConfig } from "../src/types";
 
-const logger = createLogger("info");
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
 
 // Mock config for testing
 const mockConfig: ProtocolConfig = {
@@ -19,6 +24,47 @@ const mockConfig: ProtocolConfig = {
   feeSource: "mock",
   feePollIntervalMs: 30000,
   feeConfirmationDepth: 32,
+  feeDropTimeoutSeconds: 300,
+  feeStreamReconnectBaseMs: 1000,
+  feeStreamReconnectMaxMs: 30000,
+  feeApi: {
+    url: "",
+    authHeader: "Authorization",
+    authToken: "",
+    timeoutMs: 10000,
+    maxRetries: 3,
+    retryBaseMs: 500,
+    pageSize: 100,
+    mapping: {
+      recordsPath: "data",
+      nextCursorPath: "nextCursor",
+      cursorParam: "cursor",
+      limitParam: "limit",
+      signatureField: "signature",
+      timestampField: "timestamp",
+      amountField: "amount",
+      amountUnit: "sol",
+      statusField: "confirmationStatus",
+    },
+  },
+  feeComposite: {
+    sources: ["wallet-watcher", "api"],
+    quorum: 2,
+    toleranceBps: 10,
+    windowMs: 600000,
+  },
+  feeMock: {
+    scenario: "steady",
+    seed: null,
+    csvPath: "",
+    whaleDay: 1,
+  },
+  feeClassification: {
+    creatorFeeProgramIds: [],
+    internalSenders: [],
+    ignoredSenders: [],
+    minAmountSol: 0.001,
+  },
   executor: {
     mode: "dry-run",
     epochIntervalSeconds: 1800,
@@ -27,10 +73,64 @@ const mockConfig: ProtocolConfig = {
     maxConsecutiveFailures: 5,
     minBalanceToOperateSol: 0.5,
     driftToleranceBps: 50,
+    buybackExecution: "single",
+    buybackSlices: 4,
+    buybackTargetImpactBps: 50,
+    buybackMaxSlices: 12,
   },
   dexEngine: "mock",
   maxSlippageBps: 500,
   maxPriceImpactBps: 1000,
+  raydium: {
+    programId: new PublicKey("675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8"),
+    poolId: null,
+  },
+  orca: {
+    programId: new PublicKey("whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc"),
+    whirlpoolId: null,
+  },
+  aggregator: {
+    url: "https://quote-api.jup.ag/v6",
+    timeoutMs: 10000,
+  },
+  router: {
+    venues: ["raydium", "orca", "aggregator"],
+  },
+  simulatedPool: {
+    solReserve: 85,
+    tokenReserve: 206_900_000,
+    tokenDecimals: 6,
+    tokenSupply: 1_000_000_000,
+    feeBps: 25,
+    externalTradesPerEpoch: 0,
+    externalTradeMaxSol: 1,
+    seed: null,
+  },
+  lpEngine: "mock",
+  transactions: {
+    commitment: "confirmed",
+    computeUnitLimit: 400000,
+    priorityFeePercentile: 75,
+    minPriorityFeeMicroLamports: 0,
+    maxPriorityFeeMicroLamports: 1000000,
+    maxAttempts: 3,
+    confirmPollMs: 2000,
+    useVersionedTransactions: false,
+  },
+  priceOracle: {
+    type: "pool",
+    twapSource: "pool",
+    twapWindowSeconds: 3600,
+    maxStalenessSeconds: 300,
+    maxConfidenceBps: 500,
+    feed: {
+      url: "",
+      pricePath: "price",
+      timestampPath: "timestamp",
+      confidencePath: "",
+      timeoutMs: 5000,
+    },
+  },
   iceHealthThreshold: 50,
   iceHealthCheckIntervalMinutes: 5,
   iceHealthWeights: {
@@ -47,73 +147,70 @@ const mockConfig: ProtocolConfig = {
     burnPct: 5,
     coolingPct: 5,
   },
+  cooling: {
+    recipients: [],
+    memoPurpose: "marketing",
+  },
   logLevel: "info",
   reportsDir: "./reports",
+  dataDir: "./data",
   simulateMode: true,
 };
 
-function testHealthCalculation() {
-  console.log("\n========== ICE HEALTH ENGINE TEST ==========\n");
-
-  const engine = new IceHealthEngine(mockConfig, logger);
+describe("IceHealthEngine", () => {
+  const engine = new IceHealthEngine(mockConfig, silentLogger);
   const now = Math.floor(Date.now() / 1000);
 
-  // Test case 1: Healthy ice
-  console.log("Test 1: Healthy Ice (recent buyback, good coverage)");
-  const input1: HealthMetricsInput = {
-    buybackCountLast24h: 5,
-    buybackVolumeSolLast24h: 10,
-    recentSellPressureSol: 5,
-    currentLiquidity: 100,
-    volatilityPercent24h: 10,
-    lastBuybackTimestampSeconds: now - 3600, // 1 hour ago
-    currentTimestampSeconds: now,
-  };
+  it("keeps the ice alive with recent buybacks and good coverage", () => {
+    const input: HealthMetricsInput = {
+      buybackCountLast24h: 5,
+      buybackVolumeSolLast24h: 10,
+      recentSellPressureSol: 5,
+      currentLiquidity: 100,
+      volatilityPercent24h: 10,
+      lastBuybackTimestampSeconds: now - 3600, // 1 hour ago
+      currentTimestampSeconds: now,
+    };
+
+    const state = engine.computeHealth(input, 1);
 
-  const health1 = engine.computeHealth(input1, 1);
-  console.log(`  Health: ${health1.health} (should be high)`);
-  console.log(`  Status: ${health1.status}`);
-  console.log(`  Metrics:`, health1.metrics);
-  console.log("");
+    expect(state.health).toBeGreaterThanOrEqual(mockConfig.iceHealthThreshold);
+    expect(state.status).toBe("ALIVE");
+    expect(engine.isAlive(state)).toBe(true);
+  });
 
-  // Test case 2: Melting ice
-  console.log("Test 2: Melting Ice (no buyback, low liquidity)");
-  const input2: HealthMetricsInput = {
-    buybackCountLast24h: 0,
-    buybackVolumeSolLast24h: 0,
-    recentSellPressureSol: 10,
-    currentLiquidity: 10,
-    volatilityPercent24h: 30,
-    lastBuybackTimestampSeconds: now - 86400 * 2, // 2 days ago
-    currentTimestampSeconds: now,
-  };
+  it("melts the ice below the threshold without buybacks and with thin liquidity", () => {
+    const input: HealthMetricsInput = {
+      buybackCountLast24h: 0,
+      buybackVolumeSolLast24h: 0,
+      recentSellPressureSol: 10,
+      currentLiquidity: 10,
+      volatilityPercent24h: 30,
+      lastBuybackTimestampSeconds: now - 86400 * 2, // 2 days ago
+      currentTimestampSeconds: now,
+    };
 
-  const health2 = engine.computeHealth(input2, 2);
-  console.log(`  Health: ${health2.health} (should be low)`);
-  console.log(`  Status: ${health2.status}`);
-  console.log(`  Metrics:`, health2.metrics);
-  console.log("");
+    const state = engine.computeHealth(input, 2);
 
-  // Test case 3: Dead ice
-  console.log("Test 3: Dead Ice (no activity)");
-  const input3: HealthMetricsInput = {
-    buybackCountLast24h: 0,
-    buybackVolumeSolLast24h: 0,
-    recentSellPressureSol: 20,
-    currentLiquidity: 1,
-    volatilityPercent24h: 50,
-    lastBuybackTimestampSeconds: now - 86400 * 5, // 5 days ago
-    currentTimestampSeconds: now,
-  };
+    expect(state.health).toBeLessThan(mockConfig.iceHealthThreshold);
+    expect(engine.isAlive(state)).toBe(false);
+    expect(engine.estimateTimeToThreshold(state, now)).toBe(0);
+  });
 
-  const health3 = engine.computeHealth(input3, 3);
-  console.log(`  Health: ${health3.health} (should be dead)`);
-  console.log(`  Status: ${health3.status}`);
-  console.log(`  Metrics:`, health3.metrics);
-  console.log("");
+  it("kills the ice after days without activity", () => {
+    const input: HealthMetricsInput = {
+      buybackCountLast24h: 0,
+      buybackVolumeSolLast24h: 0,
+      recentSellPressureSol: 20,
+      currentLiquidity: 1,
+      volatilityPercent24h: 50,
+      lastBuybackTimestampSeconds: now - 86400 * 5, // 5 days ago
+      currentTimestampSeconds: now,
+    };
 
-  console.log("✅ Health calculation tests passed!");
-}
+    const state = engine.computeHealth(input, 3);
 
-// Run tests
-testHealthCalculation();
+    expect(state.health).toBe(0);
+    expect(state.status).toBe("DEAD");
+  });
+});
@@ -0,0 +1,88 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ActionJournal } from "../src/services/journal";
+import { Logger } from "../src/types";
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+const epoch = {
+  epochNumber: 4,
+  startedAt: 1700000000,
+  treasuryStatements: 3,
+  feesToProcess: 2_000_000_000n,
+  feeEvents: ["fee-1", "fee-2"],
+  inflow: { buyback: 1_400_000_000n, lp: 400_000_000n, burn: 0n, cooling: 200_000_000n },
+  planned: { buyback: 1_400_000_000n, lp: 400_000_000n, burn: 0n, cooling: 200_000_000n },
+};
+
+describe("ActionJournal", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ice-journal-"));
+    filePath = path.join(dir, "action-journal.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keeps an interrupted epoch's intents, submissions and outcomes across restarts", () => {
+    const journal = new ActionJournal(filePath, silentLogger);
+    journal.openEpoch(epoch);
+    journal.recordIntent("buyback", 1_400_000_000n);
+    journal.recordSubmission({ signature: "swap-sig", lastValidBlockHeight: 1_150 });
+    journal.recordOutcome(
+      { type: "buyback", amountLamports: 1_400_000_000n, status: "executed" },
+      1_400_000_000n
+    );
+    journal.recordIntent("add-lp", 400_000_000n);
+    journal.recordSubmission({ signature: "lp-swap-sig", lastValidBlockHeight: 1_160 });
+
+    const open = new ActionJournal(filePath, silentLogger).getOpenEpoch();
+
+    expect(open).toEqual({
+      ...epoch,
+      actions: [
+        {
+          type: "buyback",
+          amountLamports: 1_400_000_000n,
+          submissions: [{ signature: "swap-sig", lastValidBlockHeight: 1_150 }],
+          outcome: { status: "executed", spentLamports: 1_400_000_000n },
+        },
+        {
+          type: "add-lp",
+          amountLamports: 400_000_000n,
+          submissions: [{ signature: "lp-swap-sig", lastValidBlockHeight: 1_160 }],
+        },
+      ],
+    });
+  });
+
+  it("ignores transactions sent outside an action", () => {
+    const journal = new ActionJournal(filePath, silentLogger);
+    journal.openEpoch(epoch);
+    journal.recordSubmission({ signature: "stray-sig", lastValidBlockHeight: 1_150 });
+
+    expect(journal.getOpenEpoch()!.actions).toEqual([]);
+  });
+
+  it("allows one open epoch at a time", () => {
+    const journal = new ActionJournal(filePath, silentLogger);
+    journal.openEpoch(epoch);
+
+    expect(() => journal.openEpoch({ ...epoch, epochNumber: 5 })).toThrow(
+      "Epoch 4 is still open in the action journal"
+    );
+
+    journal.closeEpoch();
+    expect(new ActionJournal(filePath, silentLogger).getOpenEpoch()).toBeNull();
+  });
+});
@@ -0,0 +1,219 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { Keypair } from "@solana/web3.js";
+import { MockLPManager } from "../src/services/dex/engines";
+import { SimulatedPool } from "../src/services/dex/simulated-pool";
+import {
+  ExternalPriceOracle,
+  PoolReservePriceOracle,
+  PriceOracle,
+  TwapPriceOracle,
+} from "../src/services/price-oracle";
+import { Logger, PriceOracleConfig } from "../src/types";
+import { lamportsToTokenUnits, tokenUnitsToLamports } from "../src/utils/amounts";
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+const oracleConfig: PriceOracleConfig = {
+  type: "pool",
+  twapSource: "pool",
+  twapWindowSeconds: 3600,
+  maxStalenessSeconds: 300,
+  maxConfidenceBps: 500,
+  feed: {
+    url: "https://prices.test/ice",
+    pricePath: "data.price",
+    timestampPath: "data.publishedAt",
+    confidencePath: "data.conf",
+    timeoutMs: 1000,
+  },
+};
+
+/**
+ * Oracle whose current price is set by the test, published when it is read
+ */
+class ManualPriceOracle extends PriceOracle {
+  readonly name = "manual";
+  priceSol = 1;
+
+  protected async read(): Promise<{
+    priceSol: number;
+    confidenceBps: number;
+    publishedAt: number;
+  }> {
+    return {
+      priceSol: this.priceSol,
+      confidenceBps: 10,
+      publishedAt: Math.floor(Date.now() / 1000),
+    };
+  }
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("PoolReservePriceOracle", () => {
+  function createOracle(maxConfidenceBps: number): PoolReservePriceOracle {
+    const pool = new SimulatedPool(
+      {
+        solReserve: 20,
+        tokenReserve: 1_000_000,
+        tokenDecimals: 6,
+        tokenSupply: 1_000_000_000,
+        feeBps: 25,
+        externalTradesPerEpoch: 0,
+        externalTradeMaxSol: 0,
+        seed: 1,
+      },
+      silentLogger
+    );
+    return new PoolReservePriceOracle(
+      new MockLPManager(pool, silentLogger),
+      Keypair.generate().publicKey,
+      { ...oracleConfig, maxConfidenceBps },
+      6
+    );
+  }
+
+  it("prices from the reserves with the move of a 1 SOL trade as confidence", async () => {
+    const price = await createOracle(500).getPrice();
+
+    expect(price.priceSol).toBeCloseTo(0.00002, 12);
+    // (1 + 1/20)^2 - 1
+    expect(price.confidenceBps).toBe(1025);
+    expect(price.ageSeconds).toBe(0);
+    expect(price.stale).toBe(false);
+    expect(price.source).toBe("pool");
+  });
+
+  it("refuses a price too uncertain to convert with", async () => {
+    await expect(createOracle(500).getUsablePrice()).rejects.toThrow(
+      "Price from pool is too uncertain: ±1025bps (max 500bps)"
+    );
+    await expect(createOracle(2000).getUsablePrice()).resolves.toMatchObject({
+      source: "pool",
+    });
+  });
+});
+
+describe("TwapPriceOracle", () => {
+  function at(seconds: number): void {
+    jest.spyOn(Date, "now").mockReturnValue(seconds * 1000);
+  }
+
+  it("weights each sample by how long it held", async () => {
+    const inner = new ManualPriceOracle(oracleConfig, 6);
+    const twap = new TwapPriceOracle(inner, oracleConfig, silentLogger);
+
+    at(1_000);
+    await expect(twap.getPrice()).resolves.toMatchObject({ priceSol: 1 });
+    inner.priceSol = 2;
+    at(1_100);
+    await twap.getPrice();
+    at(1_400);
+    const price = await twap.getPrice();
+
+    // 1 for 100s, then 2 for 300s
+    expect(price.priceSol).toBeCloseTo(1.75, 12);
+    expect(price.confidenceBps).toBe(4286);
+    expect(price.source).toBe("twap:manual");
+  });
+
+  it("drops samples that fall out of the window", async () => {
+    const inner = new ManualPriceOracle(oracleConfig, 6);
+    const twap = new TwapPriceOracle(inner, oracleConfig, silentLogger);
+
+    at(1_000);
+    await twap.getPrice();
+    inner.priceSol = 3;
+    at(1_000 + 3_601);
+    const price = await twap.getPrice();
+
+    expect(price.priceSol).toBe(3);
+    expect(price.confidenceBps).toBe(10);
+  });
+
+  it("keeps averaging held samples while the source fails", async () => {
+    const inner = new ManualPriceOracle(oracleConfig, 6);
+    const twap = new TwapPriceOracle(inner, oracleConfig, silentLogger);
+
+    at(1_000);
+    await twap.getPrice();
+    inner.priceSol = Number.NaN;
+    at(1_200);
+    const price = await twap.getPrice();
+
+    expect(price.priceSol).toBe(1);
+    expect(price.ageSeconds).toBe(200);
+  });
+});
+
+describe("ExternalPriceOracle", () => {
+  let server: http.Server;
+  let body: unknown;
+
+  beforeEach(async () => {
+    server = http.createServer((_req, res) => {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function feedOracle(): ExternalPriceOracle {
+    const { port } = server.address() as AddressInfo;
+    return new ExternalPriceOracle(
+      { ...oracleConfig, feed: { ...oracleConfig.feed, url: `http://127.0.0.1:${port}/ice` } },
+      6
+    );
+  }
+
+  it("reads the feed and flags a stale price", async () => {
+    const now = 1_700_000_000;
+    jest.spyOn(Date, "now").mockReturnValue(now * 1000);
+    body = { data: { price: "0.00002", publishedAt: (now - 600) * 1000, conf: 0.0000001 } };
+
+    const oracle = feedOracle();
+    const price = await oracle.getPrice();
+
+    expect(price).toEqual({
+      priceSol: 0.00002,
+      confidenceBps: 50,
+      publishedAt: now - 600,
+      ageSeconds: 600,
+      stale: true,
+      source: "external",
+    });
+    await expect(oracle.getUsablePrice()).rejects.toThrow(
+      "Price from external is stale: 600s old (max 300s)"
+    );
+  });
+
+  it("rejects a response without a price", async () => {
+    body = { data: { publishedAt: 1_700_000_000 } };
+
+    await expect(feedOracle().getPrice()).rejects.toThrow(
+      /^Price feed response has no price at "data.price"$/
+    );
+  });
+});
+
+describe("price conversions", () => {
+  it("converts between lamports and token base units at a price", () => {
+    const units = lamportsToTokenUnits(1_000_000_000n, 0.00002, 6);
+
+    expect(units).toBe(50_000_000_000n);
+    expect(tokenUnitsToLamports(units, 0.00002, 6)).toBe(1_000_000_000n);
+    expect(() => lamportsToTokenUnits(1n, 0, 6)).toThrow("Invalid price: 0");
+  });
+});
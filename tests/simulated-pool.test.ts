@@ -0,0 +1,117 @@
+import { Keypair } from "@solana/web3.js";
+import { NATIVE_MINT } from "@solana/spl-token";
+import { MockLPManager, MockSwapEngine } from "../src/services/dex/engines";
+import { SimulatedPool } from "../src/services/dex/simulated-pool";
+import { Logger, SimulatedPoolConfig } from "../src/types";
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+// Base units per SOL and per token (6 decimals)
+const SOL = 1_000_000_000n;
+const ICE = 1_000_000n;
+
+const poolConfig: SimulatedPoolConfig = {
+  solReserve: 100,
+  tokenReserve: 1_000_000,
+  tokenDecimals: 6,
+  tokenSupply: 1_000_000_000,
+  feeBps: 25,
+  externalTradesPerEpoch: 0,
+  externalTradeMaxSol: 1,
+  seed: 7,
+};
+
+describe("SimulatedPool", () => {
+  it("quotes buys from the constant-product curve after the fee", () => {
+    const pool = new SimulatedPool(poolConfig, silentLogger);
+
+    const quote = pool.quote("buy", SOL);
+
+    // 0.25% fee, then x*y=k against 100 SOL / 1M tokens
+    const inAfterFee = (SOL * 9975n) / 10_000n;
+    expect(quote.amountOut).toBe((1_000_000n * ICE * inAfterFee) / (100n * SOL + inAfterFee));
+    expect(quote.priceImpactBps).toBe(99);
+    expect(pool.getState().solReserve).toBe(100);
+  });
+
+  it("moves the price with every swap", () => {
+    const pool = new SimulatedPool(poolConfig, silentLogger);
+
+    const first = pool.swap("buy", 5n * SOL);
+    const second = pool.swap("buy", 5n * SOL);
+
+    expect(second.amountOut < first.amountOut).toBe(true);
+    expect(pool.getReserves().solReserve).toBe(110n * SOL);
+    expect(pool.getState().priceSol).toBeGreaterThan(100 / 1_000_000);
+
+    // Selling the tokens back loses both fees
+    const back = pool.swap("sell", first.amountOut + second.amountOut);
+    expect(back.amountOut < 10n * SOL).toBe(true);
+    expect(back.amountOut > (99n * SOL) / 10n).toBe(true);
+  });
+
+  it("mints LP in proportion to the reserves and burns it back", () => {
+    const pool = new SimulatedPool(poolConfig, silentLogger);
+    const supply = pool.getState().lpSupply;
+
+    // The extra tokens beyond the 1 SOL : 10,000 token ratio are not taken
+    const deposit = pool.addLiquidity(SOL, 20_000n * ICE);
+
+    expect(deposit.solUsed).toBe(SOL);
+    expect(deposit.tokenUsed).toBe(10_000n * ICE);
+    const lpMinted = Number(deposit.lpMinted) / 10 ** pool.lpDecimals;
+    expect(lpMinted / supply).toBeCloseTo(0.01, 6);
+    expect(pool.getReserves().solReserve).toBe(101n * SOL);
+
+    // Rounding favours the pool by at most a base unit
+    const withdrawn = pool.removeLiquidity(deposit.lpMinted);
+    expect(Number(SOL - withdrawn.solAmount)).toBeLessThanOrEqual(1);
+    expect(Number(10_000n * ICE - withdrawn.tokenAmount)).toBeLessThanOrEqual(1);
+    expect(() => pool.removeLiquidity(deposit.lpMinted * 1_000n)).toThrow("Cannot burn");
+  });
+
+  it("replays the same external trades for the same seed", () => {
+    const config = { ...poolConfig, externalTradesPerEpoch: 20 };
+    const a = new SimulatedPool(config, silentLogger);
+    const b = new SimulatedPool(config, silentLogger);
+
+    a.simulateExternalTrades();
+    b.simulateExternalTrades();
+
+    expect(a.getState()).toEqual(b.getState());
+    expect(a.getState().solReserve).not.toBe(100);
+  });
+});
+
+describe("MockSwapEngine", () => {
+  const iceMint = Keypair.generate().publicKey;
+
+  it("quotes and fills from the shared pool state", async () => {
+    const pool = new SimulatedPool(poolConfig, silentLogger);
+    const engine = new MockSwapEngine(pool, silentLogger);
+    const lp = new MockLPManager(pool, silentLogger);
+
+    const quote = await engine.dryRun(NATIVE_MINT, iceMint, 2n * SOL);
+    const result = await engine.swap(NATIVE_MINT, iceMint, 2n * SOL);
+
+    expect(result.outputAmount).toBe(quote.outputAmount);
+    expect(result.outputDecimals).toBe(6);
+    expect(result.actualPriceImpactBps).toBe(quote.priceImpactBps);
+    expect(quote.feeBps).toBe(25);
+
+    // The buyback moved the price, so a second quote is worse
+    const next = await engine.dryRun(NATIVE_MINT, iceMint, 2n * SOL);
+    expect(next.outputAmount < quote.outputAmount).toBe(true);
+
+    // LP deposits deepen the pool and improve the next quote
+    const reserves = await lp.getReserves(iceMint);
+    await lp.addLiquidity(iceMint, reserves.tokenReserve, reserves.solReserve);
+    const deeper = await engine.dryRun(NATIVE_MINT, iceMint, 2n * SOL);
+    expect(deeper.priceImpactBps).toBeLessThan(next.priceImpactBps);
+  });
+});
@@ -0,0 +1,79 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { StateStore } from "../src/services/state";
+import { Logger } from "../src/types";
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+describe("StateStore", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ice-state-"));
+    filePath = path.join(dir, "state.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("starts from zero without a state file", () => {
+    const store = new StateStore(filePath, silentLogger);
+
+    expect(store.getExecutorState()).toEqual({
+      lastExecutionTime: 0,
+      consecutiveFailures: 0,
+      epochNumber: 0,
+      circuitBreakerActive: false,
+    });
+    expect(store.getProtocolEpoch()).toBe(0);
+  });
+
+  it("reloads the executor state and protocol epoch from disk", () => {
+    const store = new StateStore(filePath, silentLogger);
+    store.saveExecutorState({
+      lastExecutionTime: 1700000000,
+      consecutiveFailures: 2,
+      epochNumber: 41,
+      circuitBreakerActive: false,
+    });
+    store.saveProtocolEpoch(40);
+
+    const reloaded = new StateStore(filePath, silentLogger);
+
+    expect(reloaded.getExecutorState()).toEqual({
+      lastExecutionTime: 1700000000,
+      consecutiveFailures: 2,
+      epochNumber: 41,
+      circuitBreakerActive: false,
+    });
+    expect(reloaded.getProtocolEpoch()).toBe(40);
+  });
+
+  it("clears a tripped breaker only when reset", () => {
+    new StateStore(filePath, silentLogger).saveExecutorState({
+      lastExecutionTime: 1700000000,
+      consecutiveFailures: 5,
+      epochNumber: 12,
+      circuitBreakerActive: true,
+    });
+
+    const store = new StateStore(filePath, silentLogger);
+    expect(store.getExecutorState().circuitBreakerActive).toBe(true);
+
+    expect(store.resetCircuitBreaker()).toBe(true);
+    expect(new StateStore(filePath, silentLogger).getExecutorState()).toEqual({
+      lastExecutionTime: 1700000000,
+      consecutiveFailures: 0,
+      epochNumber: 12,
+      circuitBreakerActive: false,
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import {
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  SendTransactionError,
+  SignatureStatus,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+import {
+  TransactionError,
+  TransactionSender,
+  TransactionSubmission,
+  classifyTransactionError,
+} from "../src/services/transactions";
+import { Logger, TransactionConfig } from "../src/types";
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+const txConfig: TransactionConfig = {
+  commitment: "confirmed",
+  computeUnitLimit: 200_000,
+  priorityFeePercentile: 75,
+  minPriorityFeeMicroLamports: 1_000,
+  maxPriorityFeeMicroLamports: 50_000,
+  maxAttempts: 3,
+  confirmPollMs: 0,
+  useVersionedTransactions: false,
+};
+
+/**
+ * What happens to each transaction the fake cluster accepts:
+ * it lands, lands and fails, or is never included before its blockhash expires
+ */
+type Outcome = { land: "confirmed" } | { fail: unknown } | "drop" | Error;
+
+/**
+ * Minimal stand-in for the RPC methods used by the sender. Each fresh
+ * submission consumes the next outcome; rebroadcasts are only counted.
+ */
+class FakeConnection {
+  blockHeight = 1_000;
+  submitted: Buffer[] = [];
+  rebroadcasts = 0;
+  recentFees: number[] = [];
+  private statuses = new Map<string, SignatureStatus>();
+
+  constructor(private outcomes: Outcome[]) {}
+
+  async getLatestBlockhash(): Promise<{ blockhash: string; lastValidBlockHeight: number }> {
+    return {
+      blockhash: Keypair.generate().publicKey.toBase58(),
+      lastValidBlockHeight: this.blockHeight + 150,
+    };
+  }
+
+  async getBlockHeight(): Promise<number> {
+    return this.blockHeight;
+  }
+
+  async getRecentPrioritizationFees(): Promise<{ slot: number; prioritizationFee: number }[]> {
+    return this.recentFees.map((prioritizationFee, slot) => ({ slot, prioritizationFee }));
+  }
+
+  async sendRawTransaction(raw: Buffer, options: { skipPreflight?: boolean }): Promise<string> {
+    if (options.skipPreflight) {
+      this.rebroadcasts++;
+      return "";
+    }
+
+    const outcome = this.outcomes.shift()!;
+    if (outcome instanceof Error) {
+      throw outcome;
+    }
+
+    this.submitted.push(raw);
+    const signature = `sig-${this.submitted.length}`;
+    if (outcome === "drop") {
+      this.blockHeight += 200;
+    } else if ("land" in outcome) {
+      this.statuses.set(signature, this.status(null));
+    } else {
+      this.statuses.set(signature, this.status(outcome.fail));
+    }
+    return signature;
+  }
+
+  async getSignatureStatuses(signatures: string[]): Promise<{ value: (SignatureStatus | null)[] }> {
+    return { value: signatures.map((signature) => this.statuses.get(signature) ?? null) };
+  }
+
+  private status(err: unknown): SignatureStatus {
+    return {
+      slot: 1,
+      confirmations: 1,
+      err: err as SignatureStatus["err"],
+      confirmationStatus: "confirmed",
+    };
+  }
+}
+
+function transfer(payer: Keypair): TransactionInstruction {
+  return SystemProgram.transfer({
+    fromPubkey: payer.publicKey,
+    toPubkey: Keypair.generate().publicKey,
+    lamports: 1_000,
+  });
+}
+
+describe("TransactionSender", () => {
+  const payer = Keypair.generate();
+
+  function createSender(
+    connection: FakeConnection,
+    overrides: Partial<TransactionConfig> = {}
+  ): TransactionSender {
+    return new TransactionSender(
+      connection as unknown as Connection,
+      { ...txConfig, ...overrides },
+      silentLogger
+    );
+  }
+
+  it("prepends a compute budget priced from recent fees", async () => {
+    const connection = new FakeConnection([{ land: "confirmed" }]);
+    connection.recentFees = [500, 4_000, 2_000, 8_000];
+
+    const signature = await createSender(connection).send([transfer(payer)], [payer]);
+
+    expect(signature).toBe("sig-1");
+    const tx = Transaction.from(connection.submitted[0]);
+    expect(tx.instructions).toHaveLength(3);
+    expect(tx.instructions[0].programId.equals(ComputeBudgetProgram.programId)).toBe(true);
+    expect(ComputeBudgetInstruction.decodeSetComputeUnitLimit(tx.instructions[0]).units).toBe(
+      200_000
+    );
+    // 75th percentile of [500, 2000, 4000, 8000]
+    expect(
+      ComputeBudgetInstruction.decodeSetComputeUnitPrice(tx.instructions[1]).microLamports
+    ).toBe(4_000n);
+    expect(tx.verifySignatures()).toBe(true);
+  });
+
+  it("clamps the priority fee to the configured bounds", async () => {
+    const connection = new FakeConnection([]);
+    const sender = createSender(connection);
+
+    await expect(sender.estimatePriorityFee([])).resolves.toBe(1_000);
+    connection.recentFees = [900_000];
+    await expect(sender.estimatePriorityFee([])).resolves.toBe(50_000);
+  });
+
+  it("resubmits on a fresh blockhash when the first one expires", async () => {
+    const connection = new FakeConnection(["drop", { land: "confirmed" }]);
+
+    const signature = await createSender(connection).send([transfer(payer)], [payer]);
+
+    expect(signature).toBe("sig-2");
+    expect(connection.submitted).toHaveLength(2);
+    const [first, second] = connection.submitted.map((raw) => Transaction.from(raw));
+    expect(first.recentBlockhash).not.toBe(second.recentBlockhash);
+  });
+
+  it("reports each signed transaction before it is sent", async () => {
+    const connection = new FakeConnection(["drop", { land: "confirmed" }]);
+    const sender = createSender(connection);
+    const submissions: TransactionSubmission[] = [];
+    sender.onSubmit((submission) => submissions.push(submission));
+
+    await sender.send([transfer(payer)], [payer]);
+
+    expect(submissions).toEqual(
+      connection.submitted.map((raw) => ({
+        signature: bs58.encode(Transaction.from(raw).signature!),
+        lastValidBlockHeight: expect.any(Number),
+      }))
+    );
+    expect(submissions).toHaveLength(2);
+  });
+
+  it("gives up with an expired error after the configured attempts", async () => {
+    const connection = new FakeConnection(["drop", "drop"]);
+
+    const error = await createSender(connection, { maxAttempts: 2 })
+      .send([transfer(payer)], [payer])
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TransactionError);
+    expect((error as TransactionError).kind).toBe("expired");
+    expect(connection.submitted).toHaveLength(2);
+  });
+
+  it("classifies an on-chain slippage failure without resubmitting", async () => {
+    const connection = new FakeConnection([{ fail: { InstructionError: [2, { Custom: 30 }] } }]);
+
+    const error = (await createSender(connection)
+      .send([transfer(payer)], [payer])
+      .catch((e: unknown) => e)) as TransactionError;
+
+    expect(error.kind).toBe("slippage");
+    expect(error.signature).toBe("sig-1");
+    expect(connection.submitted).toHaveLength(1);
+  });
+
+  it("classifies a preflight failure from its program logs", async () => {
+    const connection = new FakeConnection([
+      new SendTransactionError({
+        action: "send",
+        signature: "",
+        transactionMessage: "Transaction simulation failed",
+        logs: ["Program log: Error: insufficient funds"],
+      }),
+    ]);
+
+    const error = (await createSender(connection)
+      .send([transfer(payer)], [payer])
+      .catch((e: unknown) => e)) as TransactionError;
+
+    expect(error.kind).toBe("insufficient-funds");
+    expect(error.signature).toBeNull();
+  });
+
+  it("builds v0 transactions when versioned transactions are enabled", async () => {
+    const connection = new FakeConnection([{ land: "confirmed" }]);
+
+    await createSender(connection, { useVersionedTransactions: true }).send(
+      [transfer(payer)],
+      [payer]
+    );
+
+    const tx = VersionedTransaction.deserialize(connection.submitted[0]);
+    expect(tx.version).toBe(0);
+    expect(tx.message.compiledInstructions).toHaveLength(3);
+  });
+});
+
+describe("classifyTransactionError", () => {
+  it("recognises expiry, slippage and insufficient funds", () => {
+    expect(classifyTransactionError("Blockhash not found")).toBe("expired");
+    expect(classifyTransactionError("custom program error: 0x1794")).toBe("slippage");
+    expect(classifyTransactionError("custom program error: 0x1")).toBe("insufficient-funds");
+    expect(classifyTransactionError("custom program error: 0x10")).toBe("failed");
+  });
+});
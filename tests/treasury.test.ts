@@ -0,0 +1,87 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { TreasuryLedger, capToBudget, emptyBreakdown } from "../src/services/treasury";
+import { Logger } from "../src/types";
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+describe("capToBudget", () => {
+  it("leaves balances within the budget untouched", () => {
+    const balances = { buyback: 400n, lp: 300n, burn: 200n, cooling: 100n };
+
+    expect(capToBudget(balances, 1_000n)).toEqual(balances);
+  });
+
+  it("shares the budget in proportion to the balances", () => {
+    const capped = capToBudget({ buyback: 400n, lp: 300n, burn: 200n, cooling: 100n }, 500n);
+
+    expect(capped).toEqual({ buyback: 200n, lp: 150n, burn: 100n, cooling: 50n });
+  });
+
+  it("gives no budget share to a category that cannot be spent", () => {
+    const capped = capToBudget({ buyback: 300n, lp: 100n, burn: 0n, cooling: 4_000n }, 200n, [
+      "buyback",
+      "lp",
+      "burn",
+    ]);
+
+    expect(capped).toEqual({ buyback: 150n, lp: 50n, burn: 0n, cooling: 0n });
+  });
+});
+
+describe("TreasuryLedger", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ice-treasury-"));
+    filePath = path.join(dir, "treasury.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("carries what was not spent into the next statement", () => {
+    const treasury = new TreasuryLedger(filePath, silentLogger);
+
+    const first = treasury.settle(
+      1,
+      { buyback: 500n, lp: 300n, burn: 0n, cooling: 200n },
+      { buyback: 500n, lp: 0n, burn: 0n, cooling: 150n }
+    );
+    const second = treasury.settle(2, emptyBreakdown(), { ...emptyBreakdown(), lp: 100n });
+
+    expect(first.closing).toEqual({ buyback: 0n, lp: 300n, burn: 0n, cooling: 50n });
+    expect(second.opening).toEqual(first.closing);
+    expect(second.closing).toEqual({ buyback: 0n, lp: 200n, burn: 0n, cooling: 50n });
+  });
+
+  it("reloads its balances from disk", () => {
+    new TreasuryLedger(filePath, silentLogger).settle(
+      1,
+      { buyback: 1_000_000_000_000n, lp: 0n, burn: 0n, cooling: 0n },
+      emptyBreakdown()
+    );
+
+    const reloaded = new TreasuryLedger(filePath, silentLogger);
+
+    expect(reloaded.getBalances().buyback).toBe(1_000_000_000_000n);
+  });
+
+  it("refuses to spend more than a category holds", () => {
+    const treasury = new TreasuryLedger(filePath, silentLogger);
+    treasury.settle(1, { ...emptyBreakdown(), burn: 1_000_000_000n }, emptyBreakdown());
+
+    expect(() =>
+      treasury.settle(2, emptyBreakdown(), { ...emptyBreakdown(), burn: 2_000_000_000n })
+    ).toThrow("Treasury burn overspent: 2 SOL from 1 SOL");
+    expect(treasury.getBalances().burn).toBe(1_000_000_000n);
+  });
+});